@@ -0,0 +1,159 @@
+// Command-line parsing: inputs, output directory and the operation stack
+import { parseArgs } from 'node:util';
+import type { WorkingSpace } from '../src/lib/imageOps';
+import type { PresetOperation } from '../src/lib/presets';
+import { PresetValidationError, validateOperations } from '../src/lib/presets';
+import type { CliFormat } from './codecs';
+
+export type CliOptions = {
+  inputs: string[]; // files or glob patterns
+  outDir: string;
+  preset: string | null; // preset file, or a built-in preset id or name
+  presetName: string | null; // which preset of a multi-preset file
+  ops: PresetOperation[]; // from --op, applied after the preset
+  format: CliFormat | null; // null keeps each input's format
+  quality: number;
+  scale: number | null; // null: the editor's scale for the image size, see previewScaleFor
+  dither: boolean;
+  workingSpace: WorkingSpace;
+  preserveAlpha: boolean;
+  suffix: string;
+  overwrite: boolean;
+  help: boolean;
+};
+
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+export const USAGE = `Usage: npm run cli -- [options] <file or glob>...
+
+Applies an operation stack to PNG/JPEG files and writes the results to a directory.
+The same inputs and options always produce byte-identical outputs.
+
+Options:
+  -o, --out <dir>          Output directory (required)
+  -p, --preset <file|id>   Preset JSON exported from the editor, or a built-in preset id/name
+      --preset-name <name> Preset to use from a file with several (default: the first)
+      --op <type:k=v,...>  Append an operation, e.g. --op blur:sigma=2 --op noise:sigma=4,monochrome=true
+                           Values are numbers, true/false, strings or JSON, e.g. a curve as
+                           --op 'curves:master=[0,0,128,150,255,255]'. Repeatable.
+  -f, --format <png|jpeg>  Output format (default: same as the input)
+  -q, --quality <1-100>    JPEG quality (default 90)
+      --scale <n>          Source px per preview px for size-dependent ops
+                           (default: as the editor exports, relative to a 1600 px preview)
+      --dither             Dither the final 8-bit conversion to hide banding
+      --working-space <linear|encoded>
+                           Run blur and noise on linear light (default) or on
+                           the gamma-encoded values
+      --preserve-alpha     Keep each input's alpha: blurs and lens effects only
+                           change colour instead of also spreading transparency
+      --suffix <text>      Appended to output names (default "-enhanced")
+      --overwrite          Replace existing output files
+  -h, --help               Show this help`;
+
+// "k=v,k2=[[0,0],[255,255]]": splits on commas outside brackets
+function parseOpParams(text: string, flag: string): Record<string, unknown> {
+  const params: Record<string, unknown> = {};
+  const parts: string[] = [];
+  let depth = 0, start = 0;
+  for (let i = 0; i <= text.length; i++) {
+    const ch = text[i];
+    if (ch === '[' || ch === '{') depth++;
+    else if (ch === ']' || ch === '}') depth--;
+    else if ((ch === ',' && depth === 0) || i === text.length) {
+      if (i > start) parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  for (const part of parts) {
+    const eq = part.indexOf('=');
+    if (eq <= 0) throw new CliUsageError(`${flag}: expected key=value, got "${part}"`);
+    const raw = part.slice(eq + 1);
+    let value: unknown = raw;
+    if (raw === 'true' || raw === 'false') value = raw === 'true';
+    else if (raw.trim() !== '' && Number.isFinite(Number(raw))) value = Number(raw);
+    else if (/^[[{]/.test(raw)) {
+      try {
+        value = JSON.parse(raw);
+      } catch {
+        throw new CliUsageError(`${flag}: invalid JSON for ${part.slice(0, eq)}`);
+      }
+    }
+    params[part.slice(0, eq)] = value;
+  }
+  return params;
+}
+
+export function parseOpFlag(text: string): PresetOperation {
+  const flag = `--op ${text}`;
+  const colon = text.indexOf(':');
+  const type = colon < 0 ? text : text.slice(0, colon);
+  const params = colon < 0 ? {} : parseOpParams(text.slice(colon + 1), flag);
+  // Same validation (and messages) as imported presets
+  try {
+    return validateOperations([{ type, params }], 'op')[0];
+  } catch (e: unknown) {
+    if (e instanceof PresetValidationError) throw new CliUsageError(`${flag}: ${e.message.replace(/^op\[0\](: |\.)?/, '')}`);
+    throw e;
+  }
+}
+
+export function parseCliArgs(argv: string[]): CliOptions {
+  let values, positionals;
+  try {
+    ({ values, positionals } = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        out: { type: 'string', short: 'o' },
+        preset: { type: 'string', short: 'p' },
+        'preset-name': { type: 'string' },
+        op: { type: 'string', multiple: true },
+        format: { type: 'string', short: 'f' },
+        quality: { type: 'string', short: 'q' },
+        scale: { type: 'string' },
+        dither: { type: 'boolean' },
+        'working-space': { type: 'string' },
+        'preserve-alpha': { type: 'boolean' },
+        suffix: { type: 'string' },
+        overwrite: { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    }));
+  } catch (e: unknown) {
+    throw new CliUsageError(e instanceof Error ? e.message : String(e));
+  }
+  const help = !!values.help;
+  if (!help && positionals.length === 0) throw new CliUsageError('No input files given');
+  if (!help && !values.out) throw new CliUsageError('Missing --out <dir>');
+
+  const format = values.format ?? null;
+  if (format !== null && format !== 'png' && format !== 'jpeg') throw new CliUsageError('--format: expected png or jpeg');
+  const quality = values.quality === undefined ? 90 : Number(values.quality);
+  if (!Number.isInteger(quality) || quality < 1 || quality > 100) throw new CliUsageError('--quality: expected an integer 1..100');
+  const scale = values.scale === undefined ? null : Number(values.scale);
+  if (scale !== null && !(scale > 0)) throw new CliUsageError('--scale: expected a positive number');
+  const workingSpace = values['working-space'] ?? 'linear';
+  if (workingSpace !== 'linear' && workingSpace !== 'encoded') throw new CliUsageError('--working-space: expected linear or encoded');
+
+  return {
+    inputs: positionals,
+    outDir: values.out ?? '',
+    preset: values.preset ?? null,
+    presetName: values['preset-name'] ?? null,
+    ops: (values.op ?? []).map(parseOpFlag),
+    format,
+    quality,
+    scale,
+    dither: !!values.dither,
+    workingSpace,
+    preserveAlpha: !!values['preserve-alpha'],
+    suffix: values.suffix ?? '-enhanced',
+    overwrite: !!values.overwrite,
+    help,
+  };
+}
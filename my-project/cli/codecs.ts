@@ -0,0 +1,42 @@
+// Pure-JS PNG and JPEG decode/encode, so the CLI needs no native modules
+import jpeg from 'jpeg-js';
+import { PNG } from 'pngjs';
+
+export type CliFormat = 'png' | 'jpeg';
+
+export class UnsupportedImageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedImageError';
+  }
+}
+
+export function sniffFormat(buf: Uint8Array): CliFormat | null {
+  if (buf[0] === 0x89 && buf[1] === 0x50 && buf[2] === 0x4e && buf[3] === 0x47) return 'png';
+  if (buf[0] === 0xff && buf[1] === 0xd8 && buf[2] === 0xff) return 'jpeg';
+  return null;
+}
+
+// Orientation and colour profiles are ignored, as in the browser batch path's output
+export function decodeImage(buf: Buffer): { image: ImageData; format: CliFormat } {
+  const format = sniffFormat(buf);
+  if (format === 'png') {
+    const png = PNG.sync.read(buf);
+    return { image: new ImageData(new Uint8ClampedArray(png.data.buffer, png.data.byteOffset, png.data.length), png.width, png.height), format };
+  }
+  if (format === 'jpeg') {
+    const raw = jpeg.decode(buf, { useTArray: true, formatAsRGBA: true, maxMemoryUsageInMB: 2048 });
+    return { image: new ImageData(new Uint8ClampedArray(raw.data.buffer, raw.data.byteOffset, raw.data.length), raw.width, raw.height), format };
+  }
+  throw new UnsupportedImageError('Not a PNG or JPEG file');
+}
+
+// quality is 1..100 and only used for JPEG
+export function encodeImage(img: ImageData, format: CliFormat, quality: number): Buffer {
+  if (format === 'jpeg') {
+    return jpeg.encode({ data: img.data, width: img.width, height: img.height }, quality).data;
+  }
+  const png = new PNG({ width: img.width, height: img.height });
+  png.data = Buffer.from(img.data.buffer, img.data.byteOffset, img.data.length);
+  return PNG.sync.write(png);
+}
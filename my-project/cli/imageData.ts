@@ -0,0 +1,29 @@
+// Minimal ImageData for Node: imageOps only uses data/width/height and the
+// (data, w, h) and (w, h) constructors.
+
+export class ImageDataShim {
+  readonly data: Uint8ClampedArray;
+  readonly width: number;
+  readonly height: number;
+  readonly colorSpace = 'srgb' as const;
+
+  constructor(dataOrWidth: Uint8ClampedArray | number, widthOrHeight: number, height?: number) {
+    if (typeof dataOrWidth === 'number') {
+      this.width = dataOrWidth;
+      this.height = widthOrHeight;
+      this.data = new Uint8ClampedArray(this.width * this.height * 4);
+    } else {
+      this.data = dataOrWidth;
+      this.width = widthOrHeight;
+      this.height = height ?? dataOrWidth.length / 4 / widthOrHeight;
+    }
+    if (!Number.isInteger(this.width) || !Number.isInteger(this.height) || this.width <= 0 || this.height <= 0) {
+      throw new RangeError(`Invalid image size ${this.width}×${this.height}`);
+    }
+    if (this.data.length !== this.width * this.height * 4) throw new RangeError('Pixel data does not match the image size');
+  }
+}
+
+export function installImageData() {
+  globalThis.ImageData ??= ImageDataShim as unknown as typeof ImageData;
+}
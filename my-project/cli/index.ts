@@ -0,0 +1,97 @@
+// Headless entry point: runs the editor's pipeline (imageOps.ts) over files on disk.
+// Processing is single-threaded and sequential, so results don't depend on timing.
+import { existsSync } from 'node:fs';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { glob } from 'tinyglobby';
+import { applyPipeline } from '../src/lib/imageOps';
+import type { OpStack } from '../src/lib/imageOps';
+import { baseName, exportFormats, previewScaleFor } from '../src/lib/imageIO';
+import type { PresetOperation } from '../src/lib/presets';
+import { builtInPresets, parsePresetFile, PresetValidationError, presetToStack } from '../src/lib/presets';
+import type { CliOptions } from './args';
+import { CliUsageError, parseCliArgs, USAGE } from './args';
+import { decodeImage, encodeImage } from './codecs';
+import { installImageData } from './imageData';
+
+installImageData();
+
+const INPUT_EXTENSIONS = new Set(['.png', '.jpg', '.jpeg']);
+
+async function loadPresetOperations(opts: CliOptions): Promise<PresetOperation[]> {
+  if (!opts.preset) return [];
+  if (!existsSync(opts.preset)) {
+    const builtIn = builtInPresets.find(p => p.id === opts.preset || p.name === opts.preset);
+    if (!builtIn) throw new CliUsageError(`Preset "${opts.preset}" is neither a file nor a built-in preset`);
+    return builtIn.operations;
+  }
+  const presets = parsePresetFile(await readFile(opts.preset, 'utf8'));
+  if (presets.length === 0) throw new PresetValidationError('The preset file contains no presets');
+  if (opts.presetName === null) return presets[0].operations;
+  const found = presets.find(p => p.name === opts.presetName);
+  if (!found) throw new CliUsageError(`No preset named "${opts.presetName}" in ${opts.preset}`);
+  return found.operations;
+}
+
+// Sorted and de-duplicated so outputs (and name collisions) are the same on every run
+async function resolveInputs(patterns: string[]): Promise<string[]> {
+  const files = await glob(patterns, { onlyFiles: true, expandDirectories: false, absolute: true });
+  return [...new Set(files.map(f => path.normalize(f)))]
+    .filter(f => INPUT_EXTENSIONS.has(path.extname(f).toLowerCase()))
+    .sort();
+}
+
+async function run(opts: CliOptions): Promise<number> {
+  const operations = [...await loadPresetOperations(opts), ...opts.ops];
+  if (operations.length === 0) throw new CliUsageError('No operations: pass --preset and/or --op');
+  const stack: OpStack = presetToStack({ operations });
+  const inputs = await resolveInputs(opts.inputs);
+  if (inputs.length === 0) throw new CliUsageError('No PNG or JPEG files matched');
+  await mkdir(opts.outDir, { recursive: true });
+
+  const used = new Set<string>();
+  let failed = 0;
+  for (const input of inputs) {
+    try {
+      const { image, format: inFormat } = decodeImage(await readFile(input));
+      const format = opts.format ?? inFormat;
+      const stem = `${baseName(path.basename(input))}${opts.suffix}`;
+      const ext = exportFormats[format].ext;
+      let name = `${stem}.${ext}`;
+      for (let n = 2; used.has(name.toLowerCase()); n++) name = `${stem}-${n}.${ext}`;
+      used.add(name.toLowerCase());
+      const outPath = path.join(opts.outDir, name);
+      if (!opts.overwrite && existsSync(outPath)) throw new Error(`${outPath} exists (use --overwrite)`);
+
+      const scale = opts.scale ?? previewScaleFor(image.width, image.height);
+      const out = applyPipeline(image, stack, { scale, dither: opts.dither, workingSpace: opts.workingSpace, preserveAlpha: opts.preserveAlpha });
+      await writeFile(outPath, encodeImage(out, format, opts.quality));
+      console.log(`${input} -> ${outPath}`);
+    } catch (e: unknown) {
+      failed++;
+      console.error(`${input}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+  console.log(`${inputs.length - failed} of ${inputs.length} processed`);
+  return failed > 0 ? 1 : 0;
+}
+
+async function main() {
+  try {
+    const opts = parseCliArgs(process.argv.slice(2));
+    if (opts.help) {
+      console.log(USAGE);
+      return;
+    }
+    process.exitCode = await run(opts);
+  } catch (e: unknown) {
+    if (e instanceof CliUsageError || e instanceof PresetValidationError) {
+      console.error(`Error: ${e.message}\nRun with --help for usage.`);
+      process.exitCode = 2;
+      return;
+    }
+    throw e;
+  }
+}
+
+main();
@@ -0,0 +1,189 @@
+import { useEffect, useRef, useState } from 'react';
+import type { Dispatch, SetStateAction } from 'react';
+import type { BatchItem } from '../lib/batch';
+import { releaseBatchItem, uniqueOutputNames } from '../lib/batch';
+import type { BackendPreference } from '../lib/backend';
+import type { OpStack, WorkingSpace } from '../lib/imageOps';
+import type { ExportFormat } from '../lib/imageIO';
+import { decodeImageFile, downloadBlob, encodeImageData, exportFormats, previewScaleFor } from '../lib/imageIO';
+import { prepareImageFile } from '../lib/imageInput';
+import { createPipelineRunner, PipelineCancelledError } from '../lib/pipelineRunner';
+import type { PipelineRunner } from '../lib/pipelineRunner';
+import type { Preset } from '../lib/presets';
+import { builtInPresets, loadUserPresets, presetToStack, USER_PRESETS_EVENT } from '../lib/presets';
+import { createZip } from '../lib/zip';
+
+type Props = {
+  items: BatchItem[];
+  setItems: Dispatch<SetStateAction<BatchItem[]>>;
+  stack: OpStack; // current editor stack
+  format: ExportFormat; // editor export settings, applied to each output
+  quality: number; // 1..100
+  onOpen: (file: File) => void;
+  backend: BackendPreference;
+  dither: boolean;
+  workingSpace: WorkingSpace;
+  preserveAlpha: boolean;
+  colorSpace: PredefinedColorSpace;
+};
+
+const btn = 'text-xs px-2 py-1 rounded border border-gray-300 hover:bg-gray-50 disabled:opacity-50';
+
+const statusStyle: Record<BatchItem['status'], string> = {
+  queued: 'text-gray-500',
+  processing: 'text-blue-600',
+  done: 'text-green-700',
+  error: 'text-red-600',
+};
+
+export default function BatchPanel({ items, setItems, stack, format, quality, onOpen, backend, dither, workingSpace, preserveAlpha, colorSpace }: Props) {
+  const [source, setSource] = useState<string>('current');
+  const [running, setRunning] = useState(false);
+  const [zipping, setZipping] = useState(false);
+  const [zipError, setZipError] = useState<string | null>(null);
+  const [userPresets, setUserPresets] = useState<Preset[]>(loadUserPresets);
+  const runnerRef = useRef<PipelineRunner | null>(null);
+  const stopRef = useRef(false);
+  const itemsRef = useRef(items);
+  itemsRef.current = items;
+
+  useEffect(() => {
+    runnerRef.current = createPipelineRunner();
+    return () => {
+      runnerRef.current?.dispose();
+      runnerRef.current = null;
+    };
+  }, []);
+
+  // Presets saved in the presets panel (or another tab) show up without a reload
+  useEffect(() => {
+    const reload = () => setUserPresets(loadUserPresets());
+    window.addEventListener(USER_PRESETS_EVENT, reload);
+    window.addEventListener('storage', reload);
+    return () => {
+      window.removeEventListener(USER_PRESETS_EVENT, reload);
+      window.removeEventListener('storage', reload);
+    };
+  }, []);
+
+  const presets = [...builtInPresets, ...userPresets];
+  const done = items.filter(i => i.status === 'done');
+  const failed = items.filter(i => i.status === 'error');
+
+  const patch = (id: string, p: Partial<BatchItem>) =>
+    setItems(list => list.map(i => (i.id === id ? { ...i, ...p } : i)));
+
+  const processAll = async () => {
+    const runner = runnerRef.current;
+    if (!runner) return;
+    const preset = presets.find(p => p.id === source);
+    const ops = preset ? presetToStack(preset) : stack;
+    const todo = itemsRef.current.filter(i => i.status !== 'done');
+    stopRef.current = false;
+    setRunning(true);
+    for (const item of todo) {
+      if (stopRef.current) break;
+      patch(item.id, { status: 'processing', error: undefined });
+      try {
+        const img = await decodeImageFile(await prepareImageFile(item.file), colorSpace);
+        const out = await runner.run(img, ops, { scale: previewScaleFor(img.width, img.height), backend, dither, workingSpace, preserveAlpha });
+        const blob = await encodeImageData(out, exportFormats[format].mime, quality / 100);
+        patch(item.id, { status: 'done', output: blob });
+      } catch (e: unknown) {
+        if (e instanceof PipelineCancelledError) {
+          patch(item.id, { status: 'queued' });
+          break;
+        }
+        patch(item.id, { status: 'error', error: e instanceof Error ? e.message : String(e) });
+      }
+    }
+    setRunning(false);
+  };
+
+  const stop = () => {
+    stopRef.current = true;
+    runnerRef.current?.cancel();
+  };
+
+  const remove = (item: BatchItem) => {
+    releaseBatchItem(item);
+    setItems(list => list.filter(i => i.id !== item.id));
+  };
+
+  const clear = () => {
+    items.forEach(releaseBatchItem);
+    setItems([]);
+  };
+
+  const downloadZip = async () => {
+    setZipping(true);
+    setZipError(null);
+    try {
+      const names = uniqueOutputNames(done);
+      const entries = await Promise.all(done.map(async i => ({
+        name: names.get(i.id)!,
+        data: new Uint8Array(await i.output!.arrayBuffer()),
+      })));
+      downloadBlob(createZip(entries), 'enhanced-images.zip');
+    } catch (e: unknown) {
+      setZipError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setZipping(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow p-3 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="font-medium">
+          Batch <span className="text-xs text-gray-500 font-normal">
+            {items.length} file{items.length === 1 ? '' : 's'} · {done.length} done{failed.length > 0 ? ` · ${failed.length} failed` : ''}
+          </span>
+        </p>
+        <div className="flex flex-wrap items-center gap-1">
+          <select
+            className="text-xs px-1 py-1 rounded border border-gray-300"
+            value={source}
+            onChange={(e) => setSource(e.target.value)}
+            disabled={running}
+            aria-label="Adjustments to apply"
+          >
+            <option value="current">Current adjustments</option>
+            {presets.map(p => <option key={p.id} value={p.id}>Preset: {p.name}</option>)}
+          </select>
+          {running ? (
+            <button type="button" className={btn} onClick={stop}>Stop</button>
+          ) : (
+            <button type="button" className={btn} onClick={processAll} disabled={items.every(i => i.status === 'done')}>
+              Process {done.length > 0 ? 'remaining' : 'all'}
+            </button>
+          )}
+          <button type="button" className={btn} onClick={downloadZip} disabled={running || zipping || done.length === 0}>
+            {zipping ? 'Zipping…' : 'Download ZIP'}
+          </button>
+          <button type="button" className={btn} onClick={clear} disabled={running}>Clear</button>
+        </div>
+      </div>
+      {zipError && <p className="text-xs text-red-600">ZIP failed: {zipError}</p>}
+      <ul className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-2 max-h-80 overflow-y-auto">
+        {items.map(item => (
+          <li key={item.id} className="rounded border border-gray-200 p-1 text-xs space-y-1">
+            <div className="aspect-square bg-gray-100 rounded overflow-hidden flex items-center justify-center">
+              <img src={item.thumbUrl} alt="" loading="lazy" className="max-w-full max-h-full object-contain" />
+            </div>
+            <p className="truncate" title={item.path}>{item.path}</p>
+            <div className="flex items-center justify-between gap-1">
+              <span className={`truncate ${statusStyle[item.status]}`} title={item.error}>
+                {item.status === 'error' ? `Error: ${item.error}` : item.status === 'processing' ? 'Processing…' : item.status === 'done' ? 'Done' : 'Queued'}
+              </span>
+              <span className="flex gap-1 shrink-0">
+                <button type="button" className="underline text-gray-600" onClick={() => onOpen(item.file)} title="Open in editor">Open</button>
+                <button type="button" className="text-gray-500" onClick={() => remove(item)} disabled={running} title="Remove from batch" aria-label={`Remove ${item.path}`}>✕</button>
+              </span>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import type { PointerEvent as ReactPointerEvent } from 'react';
+import type { CropRect } from '../lib/geometry';
+
+type Props = {
+  rect: CropRect; // normalized to the displayed frame
+  onChange: (rect: CropRect) => void;
+  aspect: number | null; // normalized w/h to keep, or free
+};
+
+type Handle = 'move' | 'n' | 's' | 'e' | 'w' | 'nw' | 'ne' | 'sw' | 'se';
+
+const MIN_SIZE = 0.02;
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+// Resizes from the edges named in `handle`, keeping the opposite edges fixed
+function resize(start: CropRect, handle: Handle, dx: number, dy: number, aspect: number | null): CropRect {
+  let left = start.x, top = start.y, right = start.x + start.w, bottom = start.y + start.h;
+  if (handle.includes('w')) left = Math.min(right - MIN_SIZE, clamp01(left + dx));
+  if (handle.includes('e')) right = Math.max(left + MIN_SIZE, clamp01(right + dx));
+  if (handle.includes('n')) top = Math.min(bottom - MIN_SIZE, clamp01(top + dy));
+  if (handle.includes('s')) bottom = Math.max(top + MIN_SIZE, clamp01(bottom + dy));
+  let w = right - left, h = bottom - top;
+  if (aspect) {
+    // Follow the dominant drag direction, then shrink to stay inside the frame
+    if (handle === 'n' || handle === 's' || (handle.length === 2 && Math.abs(dy) > Math.abs(dx))) w = h * aspect;
+    else h = w / aspect;
+    const maxW = handle.includes('w') ? right : 1 - left;
+    const maxH = handle.includes('n') ? bottom : 1 - top;
+    const k = Math.min(1, maxW / w, maxH / h);
+    w *= k;
+    h *= k;
+    if (handle.includes('w')) left = right - w;
+    if (handle.includes('n')) top = bottom - h;
+    // Edge handles grow symmetrically along the other axis
+    if (handle === 'n' || handle === 's') left = Math.min(1 - w, Math.max(0, start.x + (start.w - w) / 2));
+    if (handle === 'e' || handle === 'w') top = Math.min(1 - h, Math.max(0, start.y + (start.h - h) / 2));
+  }
+  return { x: left, y: top, w, h };
+}
+
+const handles: { id: Handle; className: string }[] = [
+  { id: 'nw', className: '-left-1.5 -top-1.5 cursor-nwse-resize' },
+  { id: 'ne', className: '-right-1.5 -top-1.5 cursor-nesw-resize' },
+  { id: 'sw', className: '-left-1.5 -bottom-1.5 cursor-nesw-resize' },
+  { id: 'se', className: '-right-1.5 -bottom-1.5 cursor-nwse-resize' },
+  { id: 'n', className: 'left-1/2 -ml-1.5 -top-1.5 cursor-ns-resize' },
+  { id: 's', className: 'left-1/2 -ml-1.5 -bottom-1.5 cursor-ns-resize' },
+  { id: 'w', className: 'top-1/2 -mt-1.5 -left-1.5 cursor-ew-resize' },
+  { id: 'e', className: 'top-1/2 -mt-1.5 -right-1.5 cursor-ew-resize' },
+];
+
+// Interactive crop rectangle drawn over the viewer canvas
+export default function CropOverlay({ rect, onChange, aspect }: Props) {
+  const startDrag = (handle: Handle, e: ReactPointerEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const box = (e.currentTarget.closest('[data-crop-frame]') as HTMLElement).getBoundingClientRect();
+    const start = rect;
+    const x0 = e.clientX, y0 = e.clientY;
+    // Other pointers are ignored; a cancel (e.g. the viewer starting a pinch) restores the rect
+    const id = e.pointerId;
+    const move = (ev: PointerEvent) => {
+      if (ev.pointerId !== id) return;
+      const dx = (ev.clientX - x0) / box.width;
+      const dy = (ev.clientY - y0) / box.height;
+      if (handle === 'move') {
+        onChange({ ...start, x: Math.min(1 - start.w, Math.max(0, start.x + dx)), y: Math.min(1 - start.h, Math.max(0, start.y + dy)) });
+      } else {
+        onChange(resize(start, handle, dx, dy, aspect));
+      }
+    };
+    const end = (ev: PointerEvent) => {
+      if (ev.pointerId !== id) return;
+      window.removeEventListener('pointermove', move);
+      window.removeEventListener('pointerup', end);
+      window.removeEventListener('pointercancel', end);
+      if (ev.type === 'pointercancel') onChange(start);
+    };
+    window.addEventListener('pointermove', move);
+    window.addEventListener('pointerup', end);
+    window.addEventListener('pointercancel', end);
+  };
+
+  const pct = (v: number) => `${v * 100}%`;
+  return (
+    <div data-crop-frame className="absolute inset-0 touch-none">
+      <div
+        className="absolute border border-white shadow-[0_0_0_9999px_rgba(0,0,0,0.5)] cursor-move"
+        style={{ left: pct(rect.x), top: pct(rect.y), width: pct(rect.w), height: pct(rect.h) }}
+        onPointerDown={(e) => startDrag('move', e)}
+      >
+        {/* Rule-of-thirds guides */}
+        <div className="absolute inset-0 pointer-events-none">
+          <div className="absolute top-1/3 left-0 right-0 border-t border-white/40" />
+          <div className="absolute top-2/3 left-0 right-0 border-t border-white/40" />
+          <div className="absolute left-1/3 top-0 bottom-0 border-l border-white/40" />
+          <div className="absolute left-2/3 top-0 bottom-0 border-l border-white/40" />
+        </div>
+        {handles.map(h => (
+          <div
+            key={h.id}
+            className={`absolute size-3 bg-white border border-gray-700 ${h.className}`}
+            onPointerDown={(e) => startDrag(h.id, e)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import { useMemo, useRef, useState } from 'react';
+import type { PointerEvent as ReactPointerEvent } from 'react';
+import type { CurvePoints } from '../lib/imageOps';
+import { curveLut, IDENTITY_CURVE, MAX_CURVE_POINTS } from '../lib/imageOps';
+
+type Props = {
+  label: string;
+  value: CurvePoints;
+  onChange: (v: CurvePoints) => void;
+  color?: string;
+};
+
+const SIZE = 256;
+const HIT = 8; // grab radius in curve units
+// The view box extends past 0..255 so end points and their halos aren't clipped
+const PAD = 4;
+const VIEW = SIZE + 7;
+
+// Interactive tone curve: drag points, click the curve background to add one,
+// double-click a point to remove it. Points can't cross their neighbours.
+export default function CurveEditor({ label, value, onChange, color = '#374151' }: Props) {
+  const svgRef = useRef<SVGSVGElement | null>(null);
+  const [active, setActive] = useState<number | null>(null);
+
+  const pts = useMemo(() => {
+    const out: [number, number][] = [];
+    for (let i = 0; i + 1 < value.length; i += 2) out.push([value[i], value[i + 1]]);
+    return out;
+  }, [value]);
+
+  const path = useMemo(() => {
+    const lut = curveLut(value);
+    let d = '';
+    for (let x = 0; x < 256; x++) d += `${x === 0 ? 'M' : 'L'}${x},${255 - lut[x]}`;
+    return d;
+  }, [value]);
+
+  const toCurve = (e: { clientX: number; clientY: number }): [number, number] => {
+    const box = svgRef.current!.getBoundingClientRect();
+    const x = -PAD + ((e.clientX - box.left) / box.width) * VIEW;
+    const y = 255 - (-PAD + ((e.clientY - box.top) / box.height) * VIEW);
+    return [Math.round(Math.min(255, Math.max(0, x))), Math.round(Math.min(255, Math.max(0, y)))];
+  };
+
+  const emit = (next: [number, number][]) => onChange(next.flat());
+
+  const startDrag = (index: number, e: ReactPointerEvent, from = pts) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setActive(index);
+    let current = from.slice();
+    const move = (ev: PointerEvent) => {
+      const [x, y] = toCurve(ev);
+      const lo = index > 0 ? current[index - 1][0] + 1 : 0;
+      const hi = index < current.length - 1 ? current[index + 1][0] - 1 : 255;
+      current = current.slice();
+      current[index] = [Math.min(hi, Math.max(lo, x)), y];
+      emit(current);
+    };
+    const up = () => {
+      setActive(null);
+      window.removeEventListener('pointermove', move);
+      window.removeEventListener('pointerup', up);
+    };
+    window.addEventListener('pointermove', move);
+    window.addEventListener('pointerup', up);
+  };
+
+  const addPoint = (e: ReactPointerEvent<SVGSVGElement>) => {
+    if (pts.length >= MAX_CURVE_POINTS) return;
+    const [x] = toCurve(e);
+    if (pts.some(p => Math.abs(p[0] - x) < 2)) return;
+    const y = curveLut(value)[x];
+    const next = [...pts, [x, y] as [number, number]].sort((a, b) => a[0] - b[0]);
+    emit(next);
+    startDrag(next.findIndex(p => p[0] === x), e, next);
+  };
+
+  const removePoint = (index: number) => {
+    if (pts.length <= 2) return;
+    emit(pts.filter((_, i) => i !== index));
+  };
+
+  const isIdentity = value.length === 4 && value.every((v, i) => v === IDENTITY_CURVE[i]);
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between text-sm">
+        <span>{label}</span>
+        <button
+          type="button"
+          title="Reset curve"
+          aria-label={`Reset ${label}`}
+          onClick={() => onChange(IDENTITY_CURVE.slice())}
+          className={`text-xs leading-none px-1.5 py-0.5 rounded border transition-colors ${isIdentity ? 'text-gray-400 border-gray-200' : 'text-gray-700 border-gray-300 hover:bg-gray-50'}`}
+        >
+          ↺
+        </button>
+      </div>
+      <svg
+        ref={svgRef}
+        viewBox={`${-PAD} ${-PAD} ${VIEW} ${VIEW}`}
+        className="w-full aspect-square bg-gray-50 rounded border border-gray-200 touch-none select-none cursor-crosshair"
+        onPointerDown={addPoint}
+      >
+        {[64, 128, 192].map(g => (
+          <g key={g} stroke="#e5e7eb" strokeWidth={1}>
+            <line x1={g} y1={0} x2={g} y2={255} />
+            <line x1={0} y1={g} x2={255} y2={g} />
+          </g>
+        ))}
+        <line x1={0} y1={255} x2={255} y2={0} stroke="#d1d5db" strokeDasharray="4 4" />
+        <path d={path} fill="none" stroke={color} strokeWidth={2} />
+        {pts.map(([x, y], i) => (
+          <circle
+            key={i}
+            cx={x}
+            cy={255 - y}
+            r={active === i ? 6 : 5}
+            fill={active === i ? color : '#fff'}
+            stroke={color}
+            strokeWidth={2}
+            className="cursor-grab"
+            onPointerDown={(e) => startDrag(i, e)}
+            onDoubleClick={() => removePoint(i)}
+          >
+            <title>{`${x} → ${y}`}</title>
+          </circle>
+        ))}
+        {/* generous invisible hit targets around points */}
+        {pts.map(([x, y], i) => (
+          <circle
+            key={`hit-${i}`}
+            cx={x}
+            cy={255 - y}
+            r={HIT}
+            fill="transparent"
+            onPointerDown={(e) => startDrag(i, e)}
+            onDoubleClick={() => removePoint(i)}
+          />
+        ))}
+      </svg>
+    </div>
+  );
+}
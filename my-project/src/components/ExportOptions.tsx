@@ -0,0 +1,40 @@
+import type { ExportFormat } from '../lib/imageIO';
+import { DEFAULT_EXPORT_QUALITY, exportFormats, formatBytes } from '../lib/imageIO';
+import Slider from './Slider';
+
+type Props = {
+  format: ExportFormat;
+  onFormatChange: (f: ExportFormat) => void;
+  quality: number; // 1..100
+  onQualityChange: (q: number) => void;
+  estimate: number | null; // bytes at full resolution
+  estimating: boolean;
+};
+
+export default function ExportOptions({ format, onFormatChange, quality, onQualityChange, estimate, estimating }: Props) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm">Format</span>
+        <div className="flex items-center rounded border border-gray-300 overflow-hidden text-xs">
+          {(Object.keys(exportFormats) as ExportFormat[]).map(f => (
+            <button
+              key={f}
+              type="button"
+              className={`px-2 py-0.5 ${format === f ? 'bg-blue-600 text-white' : 'hover:bg-gray-50'}`}
+              onClick={() => onFormatChange(f)}
+            >
+              {exportFormats[f].label}
+            </button>
+          ))}
+        </div>
+      </div>
+      {exportFormats[format].lossy && (
+        <Slider label="Quality" min={1} max={100} value={quality} defaultValue={DEFAULT_EXPORT_QUALITY} onChange={onQualityChange} />
+      )}
+      <p className="text-xs text-gray-500" title="Encoded from the preview and scaled to the full-resolution pixel count">
+        Estimated size: {estimate === null ? '—' : `≈ ${formatBytes(estimate)}`}{estimating ? ' …' : ''}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { useEffect, useRef, useState } from 'react';
+import type { Histograms } from '../lib/imageOps';
+
+type Props = {
+  source: Histograms | null;
+  processed: Histograms | null;
+  showOverlay: boolean;
+  onShowOverlayChange: (v: boolean) => void;
+};
+
+type Channels = 'rgb' | 'luma';
+
+// Share of pixels above which a clipping warning is shown
+const CLIP_WARN = 0.001;
+
+const W = 256;
+const H = 72;
+
+function drawHistogram(canvas: HTMLCanvasElement, hist: Histograms, channels: Channels) {
+  const ctx = canvas.getContext('2d')!;
+  canvas.width = W;
+  canvas.height = H;
+  ctx.clearRect(0, 0, W, H);
+  ctx.fillStyle = '#111827';
+  ctx.fillRect(0, 0, W, H);
+
+  const series: [Float64Array, string][] = channels === 'rgb'
+    ? [[hist.r, 'rgb(239,68,68)'], [hist.g, 'rgb(34,197,94)'], [hist.b, 'rgb(59,130,246)']]
+    : [[hist.luma, 'rgb(229,231,235)']];
+  // Scale to the tallest bin, ignoring the end bins so clipping spikes don't flatten the rest
+  let max = 1;
+  for (const [h] of series) for (let i = 1; i < 255; i++) max = Math.max(max, h[i]);
+
+  ctx.globalCompositeOperation = 'lighter';
+  for (const [h, color] of series) {
+    ctx.fillStyle = color;
+    for (let i = 0; i < 256; i++) {
+      const v = Math.min(1, h[i] / max) * H;
+      ctx.fillRect(i, H - v, 1, v);
+    }
+  }
+  ctx.globalCompositeOperation = 'source-over';
+}
+
+function HistogramView({ label, hist, channels }: { label: string; hist: Histograms | null; channels: Channels }) {
+  const ref = useRef<HTMLCanvasElement | null>(null);
+  useEffect(() => {
+    if (ref.current && hist) drawHistogram(ref.current, hist, channels);
+  }, [hist, channels]);
+
+  const low = hist ? hist.clippedLow / Math.max(1, hist.total) : 0;
+  const high = hist ? hist.clippedHigh / Math.max(1, hist.total) : 0;
+  const pct = (v: number) => `${(v * 100).toFixed(v < 0.01 ? 2 : 1)}%`;
+
+  return (
+    <div className="space-y-0.5">
+      <div className="flex items-center justify-between text-[11px] text-gray-600">
+        <span>{label}</span>
+        {hist && (
+          <span className="flex gap-2 tabular-nums">
+            <span className={low > CLIP_WARN ? 'text-blue-600 font-medium' : ''} title="Pixels with a channel at 0">
+              {low > CLIP_WARN ? '▼ ' : ''}shadows {pct(low)}
+            </span>
+            <span className={high > CLIP_WARN ? 'text-red-600 font-medium' : ''} title="Pixels with a channel at 255">
+              {high > CLIP_WARN ? '▲ ' : ''}highlights {pct(high)}
+            </span>
+          </span>
+        )}
+      </div>
+      {hist ? (
+        <canvas ref={ref} className="w-full rounded" style={{ height: `${H}px`, imageRendering: 'pixelated' }} />
+      ) : (
+        <div className="w-full rounded bg-gray-100" style={{ height: `${H}px` }} />
+      )}
+    </div>
+  );
+}
+
+export default function HistogramPanel({ source, processed, showOverlay, onShowOverlayChange }: Props) {
+  const [channels, setChannels] = useState<Channels>('rgb');
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="font-medium">Histogram</p>
+        <div className="flex items-center rounded border border-gray-300 overflow-hidden text-xs">
+          {(['rgb', 'luma'] as Channels[]).map(c => (
+            <button
+              key={c}
+              type="button"
+              className={`px-2 py-0.5 ${channels === c ? 'bg-blue-600 text-white' : 'hover:bg-gray-50'}`}
+              onClick={() => setChannels(c)}
+            >
+              {c === 'rgb' ? 'RGB' : 'Luma'}
+            </button>
+          ))}
+        </div>
+      </div>
+      <HistogramView label="Source" hist={source} channels={channels} />
+      <HistogramView label="Processed" hist={processed} channels={channels} />
+      <label className="flex items-center gap-2 text-sm">
+        <input type="checkbox" className="size-4" checked={showOverlay} onChange={(e) => onShowOverlayChange(e.target.checked)} />
+        Show clipping on canvas
+      </label>
+    </div>
+  );
+}
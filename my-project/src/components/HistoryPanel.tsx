@@ -0,0 +1,58 @@
+import type { HistoryEntry } from '../lib/useHistory';
+
+type Props<T> = {
+  entries: HistoryEntry<T>[];
+  index: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (index: number) => void;
+};
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+const mod = isMac ? '⌘' : 'Ctrl+';
+
+export default function HistoryPanel<T>({ entries, index, canUndo, canRedo, onUndo, onRedo, onJump }: Props<T>) {
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <p className="font-medium">History</p>
+        <div className="flex items-center gap-1">
+          <button
+            type="button"
+            className="text-xs px-2 py-1 rounded border border-gray-300 hover:bg-gray-50 disabled:opacity-50"
+            onClick={onUndo}
+            disabled={!canUndo}
+            title={`Undo (${mod}Z)`}
+          >
+            ↶ Undo
+          </button>
+          <button
+            type="button"
+            className="text-xs px-2 py-1 rounded border border-gray-300 hover:bg-gray-50 disabled:opacity-50"
+            onClick={onRedo}
+            disabled={!canRedo}
+            title={`Redo (${mod}Shift+Z)`}
+          >
+            ↷ Redo
+          </button>
+        </div>
+      </div>
+      <ol className="max-h-40 overflow-y-auto rounded border border-gray-200 text-xs">
+        {entries.map((e, i) => (
+          <li key={`${i}-${e.time}`}>
+            <button
+              type="button"
+              onClick={() => onJump(i)}
+              className={`w-full text-left px-2 py-1 truncate ${i === index ? 'bg-blue-50 text-blue-700 font-medium' : i > index ? 'text-gray-400 hover:bg-gray-50' : 'hover:bg-gray-50'}`}
+              title={e.label}
+            >
+              {e.label}
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
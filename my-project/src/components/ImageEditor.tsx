@@ -1,16 +1,42 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import type { Adjustments } from '../lib/imageOps';
-import { applyPipeline } from '../lib/imageOps';
-
-const defaultAdj: Adjustments = {
-  autoWhiteBalance: false,
-  autoColorEnhance: false,
-  noiseSigma: 0,
-  blurPx: 0,
-  brightness: 0,
-  contrast: 0,
-  saturation: 0,
-};
+import type { Histograms, OpStack, PipelineProgress, WorkingSpace } from '../lib/imageOps';
+import { clippingOverlay, computeHistograms, defaultStack, describeStackChange, operationRegistry } from '../lib/imageOps';
+import { useHistory } from '../lib/useHistory';
+import type { BackendPreference, BackendStatus, ParityReport } from '../lib/backend';
+import { loadBackendPreference, saveBackendPreference } from '../lib/backend';
+import type { Mask } from '../lib/masks';
+import { emptyMask, maskPlacement } from '../lib/masks';
+import type { Affine, CropRect, Transform } from '../lib/geometry';
+import { describeTransformChange, drawTransformed, fitCrop, frameAspect, IDENTITY_TRANSFORM, isIdentityTransform, transformedSize } from '../lib/geometry';
+import { createPipelineRunner, PipelineCancelledError } from '../lib/pipelineRunner';
+import type { PipelineRunner } from '../lib/pipelineRunner';
+import type { BatchItem } from '../lib/batch';
+import { createBatchItem } from '../lib/batch';
+import { collectDroppedFiles, isImageFile } from '../lib/files';
+import type { DroppedFile } from '../lib/files';
+import type { ExportFormat } from '../lib/imageIO';
+import { baseName, canvasColorSpace, createCanvas, decodeErrorMessage, decodeImageFile, DEFAULT_EXPORT_QUALITY, displayP3Supported, downloadBlob, encodeImageData, exportFormats, PREVIEW_MAX_DIM } from '../lib/imageIO';
+import { clipboardImageFiles, droppedImageUrl, fetchImageFile, ImageInputError, pastedImageUrl, prepareImageFile } from '../lib/imageInput';
+import type { MetadataPlan, MetadataReport } from '../lib/metadata';
+import { embedMetadata, emptyMetadataPlan, readMetadata } from '../lib/metadata';
+import type { RestoredSession, SessionRecord } from '../lib/session';
+import { clearSessions, createSession, deleteSession, listSessions, loadCurrentSession, loadSession, makeThumbnail, setCurrentSession, updateSession } from '../lib/session';
+import BatchPanel from './BatchPanel';
+import CropOverlay from './CropOverlay';
+import ExportOptions from './ExportOptions';
+import HistogramPanel from './HistogramPanel';
+import HistoryPanel from './HistoryPanel';
+import MaskOverlay from './MaskOverlay';
+import MaskPanel from './MaskPanel';
+import type { MaskToolState } from './MaskPanel';
+import MetadataPanel from './MetadataPanel';
+import OperationStack from './OperationStack';
+import PresetsPanel from './PresetsPanel';
+import RenderingPanel from './RenderingPanel';
+import SessionsPanel from './SessionsPanel';
+import TransformPanel from './TransformPanel';
+import Viewer from './Viewer';
+import type { CompareMode, ViewerBackground } from './Viewer';
 
 function useDebounced<T>(value: T, delay = 80) {
   const [v, setV] = useState(value);
@@ -21,16 +47,50 @@ function useDebounced<T>(value: T, delay = 80) {
   return v;
 }
 
+// Everything undoable: pixel operations plus the geometric transform
+type EditState = { stack: OpStack; transform: Transform };
+
+const initialEdit = (): EditState => ({ stack: defaultStack(), transform: IDENTITY_TRANSFORM });
+
 export default function ImageEditor() {
   const [imageURL, setImageURL] = useState<string | null>(null);
   const [fileName, setFileName] = useState<string | null>(null);
-  const [adj, setAdj] = useState<Adjustments>(defaultAdj);
-  const dAdj = useDebounced(adj, 60);
+  const history = useHistory<EditState>(initialEdit, 'Defaults');
+  const { state: edit, commit, undo, redo, reset: resetHistory } = history;
+  const { stack, transform } = edit;
+  const dStack = useDebounced(stack, 60);
+  const editRef = useRef(edit);
+  editRef.current = edit;
+
+  const setStack = useCallback((next: OpStack, label?: string) => {
+    commit({ ...edit, stack: next }, label ? { label } : describeStackChange(stack, next));
+  }, [commit, edit, stack]);
+
+  const setTransform = useCallback((next: Transform) => {
+    commit({ ...edit, transform: next }, describeTransformChange(transform, next));
+  }, [commit, edit, transform]);
+
+  // Crop tool: while active the preview shows the uncropped frame and edits a draft rect
+  const [cropping, setCropping] = useState(false);
+  const [cropDraft, setCropDraft] = useState<CropRect>({ x: 0, y: 0, w: 1, h: 1 });
+  const [cropAspect, setCropAspect] = useState<number | null>(null);
+
+  // Mask painting for one operation at a time
+  const [maskEditId, setMaskEditId] = useState<string | null>(null);
+  const [maskTool, setMaskTool] = useState<MaskToolState>({ tool: 'brush', size: 10, hardness: 50, feather: 50, showOverlay: true });
+  const maskIndex = stack.findIndex(op => op.id === maskEditId && op.mask);
+  const maskOp = maskIndex >= 0 ? stack[maskIndex] : null;
 
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
-  const srcCanvasRef = useRef<HTMLCanvasElement | null>(null); // stores original (possibly downscaled)
-  const [imgDims, setImgDims] = useState<{ w: number; h: number } | null>(null);
+  const srcCanvasRef = useRef<HTMLCanvasElement | null>(null); // transformed preview of the original (possibly downscaled)
+  const fullCanvasRef = useRef<HTMLCanvasElement | null>(null); // stores original at full resolution
+  const [imgDims, setImgDims] = useState<{ w: number; h: number } | null>(null); // preview size, after transform
+  const [previewPlacement, setPreviewPlacement] = useState<Affine | null>(null); // preview pixels → mask units
+  const [exportScale, setExportScale] = useState(1); // export pixels per preview pixel
+  const [fullDims, setFullDims] = useState<{ w: number; h: number } | null>(null);
   const [working, setWorking] = useState(false);
+  const [progress, setProgress] = useState<PipelineProgress | null>(null);
+  const [exporting, setExporting] = useState(false);
   const [actionMsg, setActionMsg] = useState<string | null>(null);
 
   // Zoom state and container ref for fit-to-view calculations
@@ -39,131 +99,524 @@ export default function ImageEditor() {
   const [fitZoom, setFitZoom] = useState<number>(1);
   const [autoFit, setAutoFit] = useState<boolean>(true);
 
+  // Separate workers so a preview re-run never cancels an in-flight export
+  const previewRunnerRef = useRef<PipelineRunner | null>(null);
+  const exportRunnerRef = useRef<PipelineRunner | null>(null);
+  useEffect(() => {
+    previewRunnerRef.current = createPipelineRunner();
+    exportRunnerRef.current = createPipelineRunner();
+    return () => {
+      previewRunnerRef.current?.dispose();
+      exportRunnerRef.current?.dispose();
+      previewRunnerRef.current = null;
+      exportRunnerRef.current = null;
+    };
+  }, []);
+
+  // Histograms and clipping overlay, refreshed after each pipeline run
+  const [processed, setProcessed] = useState<ImageData | null>(null);
+  const [sourceHist, setSourceHist] = useState<Histograms | null>(null);
+  const [processedHist, setProcessedHist] = useState<Histograms | null>(null);
+  const [showClipping, setShowClipping] = useState(false);
+  const clipOverlay = useMemo(
+    () => (showClipping && processed ? clippingOverlay(processed) : null),
+    [showClipping, processed],
+  );
+
+  // Before/after comparison
+  const [compareMode, setCompareMode] = useState<CompareMode>('off');
+  const [split, setSplit] = useState(0.5);
+  const [holdOriginal, setHoldOriginal] = useState(false);
+  const [viewerBg, setViewerBg] = useState<ViewerBackground>('checker');
+  const [viewerBgColor, setViewerBgColor] = useState('#808080');
+  const [showInspector, setShowInspector] = useState(true);
+
+  // Metadata read from the loaded file and what to carry into exports
+  const [metadata, setMetadata] = useState<MetadataReport | null>(null);
+  const [metaLoading, setMetaLoading] = useState(false);
+  const [metaPlan, setMetaPlan] = useState<MetadataPlan>(emptyMetadataPlan);
+  const metaFileRef = useRef<File | null>(null);
+
+  // Export format and an estimate of the full-resolution file size
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('png');
+  const [exportQuality, setExportQuality] = useState(DEFAULT_EXPORT_QUALITY);
+  const [sizeEstimate, setSizeEstimate] = useState<number | null>(null);
+  const [estimating, setEstimating] = useState(false);
+
+  // Rendering backend for preview and export, plus the optional CPU/WebGL2 parity check
+  const [backendPref, setBackendPref] = useState<BackendPreference>(loadBackendPreference);
+  const [backendStatus, setBackendStatus] = useState<BackendStatus | null>(null);
+  const [dither, setDither] = useState(false);
+  // Colour space of the canvases and pipeline images, and where blur/noise run
+  const [p3Supported] = useState(displayP3Supported);
+  const [colorSpace, setColorSpace] = useState<PredefinedColorSpace>('srgb');
+  const [workingSpace, setWorkingSpace] = useState<WorkingSpace>('linear');
+  const [preserveAlpha, setPreserveAlpha] = useState(false);
+  const [parityMode, setParityMode] = useState(false);
+  const [parityTolerance, setParityTolerance] = useState(2);
+  const [parityReport, setParityReport] = useState<ParityReport | null>(null);
+  useEffect(() => saveBackendPreference(backendPref), [backendPref]);
+
   const clampZoom = useCallback((z: number) => Math.min(8, Math.max(0.1, z)), []);
+  // Wheel and pinch zoom from the viewer
+  const zoomTo = useCallback((z: number) => {
+    const c = clampZoom(z);
+    setAutoFit(false);
+    setZoom(c);
+    return c;
+  }, [clampZoom]);
+
+  // The open image's saved session (IndexedDB) and the recent sessions list
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [sessions, setSessions] = useState<SessionRecord[]>([]);
+  const refreshSessions = useCallback(() => {
+    listSessions().then(setSessions).catch(() => setSessions([]));
+  }, []);
+  // Error handler for a session storage call; `failure` says what didn't happen
+  const showSessionError = useCallback((failure: string) => (e: unknown) => {
+    setActionMsg(e instanceof Error ? `${failure}: ${e.message}` : failure);
+    setTimeout(() => setActionMsg(null), 2000);
+  }, []);
 
-  // Load image into offscreen canvas
-  const loadImage = useCallback((file: File) => {
-    if (!file.type.startsWith('image/')) return;
+  // Load image into offscreen canvas. A restored session brings its own edit and zoom;
+  // otherwise the image starts a new session.
+  const loadImage = useCallback((file: File, restored?: RestoredSession) => {
+    if (!isImageFile(file)) return;
     const url = URL.createObjectURL(file);
     setImageURL(url);
     setFileName(file.name);
-    setAutoFit(true);
+    setProcessed(null);
+    setCropping(false);
+    if (restored) {
+      resetHistory({ stack: restored.stack, transform: restored.transform }, 'Restored session');
+      setZoom(restored.view.zoom);
+      setAutoFit(restored.view.autoFit);
+      setSessionId(restored.id);
+    } else {
+      setAutoFit(true);
+      // Geometry belongs to the previous image; adjustments carry over
+      if (!isIdentityTransform(editRef.current.transform)) {
+        commit({ ...editRef.current, transform: IDENTITY_TRANSFORM }, { label: 'Reset transform for new image' });
+      }
+      setSessionId(null);
+      createSession(file, { stack: editRef.current.stack, transform: IDENTITY_TRANSFORM, view: { zoom: 1, autoFit: true } })
+        .then(id => {
+          if (metaFileRef.current === file) setSessionId(id);
+          refreshSessions();
+        })
+        .catch(showSessionError('Session not saved'));
+    }
+
+    metaFileRef.current = file;
+    setMetadata(null);
+    setMetaPlan(emptyMetadataPlan());
+    setMetaLoading(true);
+    file.arrayBuffer()
+      .then(buf => readMetadata(new Uint8Array(buf)))
+      .catch(() => null)
+      .then(report => {
+        if (metaFileRef.current !== file) return;
+        setMetadata(report);
+        setMetaLoading(false);
+      });
+  }, [commit, resetHistory, refreshSessions, showSessionError]);
+
+  const openSession = useCallback((id: string) => {
+    loadSession(id)
+      .then(s => {
+        if (s) loadImage(s.file, s);
+        else refreshSessions();
+      })
+      .catch(showSessionError('Could not open the session'));
+  }, [loadImage, refreshSessions, showSessionError]);
+
+  const removeSession = useCallback((id: string) => {
+    if (id === sessionId) setSessionId(null);
+    deleteSession(id).catch(showSessionError('Could not remove the session')).finally(refreshSessions);
+  }, [sessionId, refreshSessions, showSessionError]);
+
+  const clearStoredSessions = useCallback(() => {
+    setSessionId(null);
+    clearSessions().catch(showSessionError('Could not clear stored data')).finally(refreshSessions);
+  }, [refreshSessions, showSessionError]);
+
+  // Reopen the session that was open when the page was closed
+  const restoredRef = useRef(false);
+  useEffect(() => {
+    if (restoredRef.current) return;
+    restoredRef.current = true;
+    loadCurrentSession()
+      .then(s => { if (s && !metaFileRef.current) loadImage(s.file, s); })
+      .catch(showSessionError('Could not restore the last session'))
+      .finally(refreshSessions);
+  }, [loadImage, refreshSessions, showSessionError]);
+
+  // Save the edit and zoom as they change; the file itself was stored by createSession
+  useEffect(() => {
+    if (!sessionId) return;
+    const t = setTimeout(() => {
+      updateSession(sessionId, { stack, transform, view: { zoom, autoFit } }).catch(showSessionError('Session not saved'));
+    }, 500);
+    return () => clearTimeout(t);
+  }, [sessionId, stack, transform, zoom, autoFit, showSessionError]);
+
+  // Thumbnail of the processed preview for the recent sessions list
+  useEffect(() => {
+    if (!sessionId || !processed) return;
+    let cancelled = false;
+    const t = setTimeout(() => {
+      makeThumbnail(processed)
+        .then(thumbnail => updateSession(sessionId, { thumbnail }))
+        .then(() => { if (!cancelled) refreshSessions(); })
+        .catch(showSessionError('Session thumbnail not saved'));
+    }, 1000);
+    return () => {
+      cancelled = true;
+      clearTimeout(t);
+    };
+  }, [sessionId, processed, refreshSessions, showSessionError]);
+
+  // Every input source (picker, camera, drop, paste, URL) opens through prepareImageFile,
+  // so errors read the same whichever way the image arrived
+  const showInputError = useCallback((e: unknown) => {
+    setActionMsg(e instanceof Error ? e.message : 'Could not open the image');
+    setTimeout(() => setActionMsg(null), 4000);
   }, []);
 
-  const onDrop = useCallback((e: React.DragEvent) => {
+  const openImageFile = useCallback((file: File) => {
+    prepareImageFile(file).then(f => loadImage(f)).catch(showInputError);
+  }, [loadImage, showInputError]);
+
+  const openImageUrl = useCallback((url: string) => {
+    setActionMsg('Downloading image…');
+    fetchImageFile(url)
+      .then(prepareImageFile)
+      .then(f => {
+        setActionMsg(null);
+        loadImage(f);
+      })
+      .catch(showInputError);
+  }, [loadImage, showInputError]);
+
+  // A single image opens in the editor; several files or a folder go to the batch queue
+  const [batch, setBatch] = useState<BatchItem[]>([]);
+  const handleFiles = useCallback((files: DroppedFile[]) => {
+    if (files.length === 1 && !files[0].path.includes('/')) {
+      openImageFile(files[0].file);
+      return;
+    }
+    const images = files.filter(f => isImageFile(f.file));
+    if (images.length > 0) setBatch(list => [...list, ...images.map(createBatchItem)]);
+    else if (files.length > 0) showInputError(new ImageInputError('None of the dropped files are images'));
+  }, [openImageFile, showInputError]);
+
+  const onDrop = useCallback(async (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
-    const f = e.dataTransfer.files?.[0];
-    if (f) loadImage(f);
-  }, [loadImage]);
+    // Read before awaiting: the drag data is cleared once the event returns
+    const url = droppedImageUrl(e.dataTransfer);
+    const files = await collectDroppedFiles(e.dataTransfer);
+    if (files.length > 0) handleFiles(files);
+    else if (url) openImageUrl(url);
+    else showInputError(new ImageInputError('Nothing to open: drop image files, an image or an image link'));
+  }, [handleFiles, openImageUrl, showInputError]);
+
+  // Ctrl/Cmd+V pastes image data from the clipboard, or downloads a copied image URL.
+  // Text fields keep their native paste.
+  useEffect(() => {
+    const onPaste = (e: ClipboardEvent) => {
+      const t = e.target as HTMLElement | null;
+      if (t && (t.isContentEditable || (t instanceof HTMLInputElement && (t.type === 'text' || t.type === 'number')) || t instanceof HTMLTextAreaElement)) return;
+      if (!e.clipboardData) return;
+      e.preventDefault();
+      const [file] = clipboardImageFiles(e.clipboardData);
+      const url = file ? null : pastedImageUrl(e.clipboardData);
+      if (file) openImageFile(file);
+      else if (url) openImageUrl(url);
+      else showInputError(new ImageInputError('The clipboard has no image or image link'));
+    };
+    window.addEventListener('paste', onPaste);
+    return () => window.removeEventListener('paste', onPaste);
+  }, [openImageFile, openImageUrl, showInputError]);
 
   const onInputFile = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const f = e.target.files?.[0];
-    if (f) loadImage(f);
-  }, [loadImage]);
+    handleFiles(Array.from(e.target.files ?? []).map(file => ({ file, path: file.name })));
+    e.target.value = '';
+  }, [handleFiles]);
 
   const reset = useCallback(() => {
     setImageURL(null);
     setFileName(null);
-    setAdj(defaultAdj);
+    // The session stays in the recent list but isn't reopened on reload
+    setSessionId(null);
+    setCurrentSession(null).catch(showSessionError('Session not saved'));
+    metaFileRef.current = null;
+    setMetadata(null);
+    setMetaLoading(false);
+    setMetaPlan(emptyMetadataPlan());
+    setCropping(false);
+    setMaskEditId(null);
+    resetHistory(initialEdit());
     setImgDims(null);
+    setFullDims(null);
+    setProcessed(null);
+    setSourceHist(null);
+    setProcessedHist(null);
     setZoom(1);
     setFitZoom(1);
     setAutoFit(true);
-  }, []);
+  }, [resetHistory, showSessionError]);
+
+  // Ctrl/Cmd+Z undo, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redo. Text fields keep their native undo.
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const t = e.target as HTMLElement | null;
+      if (t && (t.isContentEditable || (t instanceof HTMLInputElement && (t.type === 'text' || t.type === 'number')) || t instanceof HTMLTextAreaElement)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) { e.preventDefault(); undo(); }
+      else if ((key === 'z' && e.shiftKey) || key === 'y') { e.preventDefault(); redo(); }
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [undo, redo]);
+
+  // Re-run the pipeline on the full-resolution original and encode it in the export format
+  const renderFullResolution = useCallback(async (): Promise<Blob> => {
+    const full = fullCanvasRef.current;
+    const runner = exportRunnerRef.current;
+    if (!full || !imgDims || !runner) throw new Error('No image loaded');
+    const { width: w, height: h } = full;
+    const base = full.getContext('2d')!.getImageData(0, 0, w, h);
+    // Ops are tuned on the transformed preview, so scale relative to the transformed output
+    const out = transformedSize(w, h, transform);
+    const processed = await runner.run(base, stack, { transform, scale: out.w / imgDims.w, backend: backendPref, dither, workingSpace, preserveAlpha });
+    return encodeImageData(processed, exportFormats[exportFormat].mime, exportQuality / 100);
+  }, [stack, transform, imgDims, exportFormat, exportQuality, backendPref, dither, workingSpace, preserveAlpha]);
 
   const copyToClipboard = useCallback(async () => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
+    setExporting(true);
     try {
-      const blob: Blob | null = await new Promise((resolve) => canvas.toBlob(resolve, 'image/png'));
-      if (!blob) throw new Error('Failed generating image blob');
-      const ClipboardItemCtor = (window as any).ClipboardItem;
-      if (!navigator.clipboard || !ClipboardItemCtor) throw new Error('Image clipboard not supported');
-      const item = new ClipboardItemCtor({ [blob.type]: blob });
+      if (!navigator.clipboard || typeof ClipboardItem === 'undefined') throw new Error('Image clipboard not supported');
+      // The clipboard only takes PNG; lossy exports are decoded again so their artifacts are kept
+      const png = renderFullResolution().then(async blob =>
+        blob.type === 'image/png' ? blob : encodeImageData(await decodeImageFile(blob, colorSpace), 'image/png'));
+      // Pass the blob promise so Safari keeps the user-activation for the write
+      const item = new ClipboardItem({ 'image/png': png });
       await navigator.clipboard.write([item]);
       setActionMsg('Copied image to clipboard');
-    } catch (e: any) {
-      setActionMsg(e?.message ? `Copy failed: ${e.message}` : 'Copy failed');
+    } catch (e: unknown) {
+      setActionMsg(e instanceof Error ? `Copy failed: ${e.message}` : 'Copy failed');
     } finally {
+      setExporting(false);
       setTimeout(() => setActionMsg(null), 2000);
     }
-  }, []);
+  }, [renderFullResolution, colorSpace]);
+
+  const downloadImage = useCallback(async () => {
+    setExporting(true);
+    try {
+      const { blob, dropped } = await embedMetadata(await renderFullResolution(), exportFormat, metadata, metaPlan);
+      downloadBlob(blob, `${fileName ? baseName(fileName) : 'image'}-enhanced.${exportFormats[exportFormat].ext}`);
+      if (dropped.length > 0) {
+        setActionMsg(`Not carried over: ${dropped.join(', ')}`);
+        setTimeout(() => setActionMsg(null), 2000);
+      }
+    } catch (e: unknown) {
+      setActionMsg(e instanceof Error ? `Download failed: ${e.message}` : 'Download failed');
+      setTimeout(() => setActionMsg(null), 2000);
+    } finally {
+      setExporting(false);
+    }
+  }, [fileName, renderFullResolution, metadata, metaPlan, exportFormat]);
+
+  // Encode the processed preview and scale its size by the full-resolution pixel count
+  const outDims = useMemo(() => (fullDims ? transformedSize(fullDims.w, fullDims.h, transform) : null), [fullDims, transform]);
+  useEffect(() => {
+    if (!processed || !outDims) {
+      setSizeEstimate(null);
+      return;
+    }
+    let cancelled = false;
+    setEstimating(true);
+    const t = setTimeout(() => {
+      encodeImageData(processed, exportFormats[exportFormat].mime, exportQuality / 100)
+        .then(blob => {
+          if (!cancelled) setSizeEstimate(Math.round(blob.size * (outDims.w * outDims.h) / (processed.width * processed.height)));
+        })
+        .catch(() => { if (!cancelled) setSizeEstimate(null); })
+        .finally(() => { if (!cancelled) setEstimating(false); });
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(t);
+    };
+  }, [processed, outDims, exportFormat, exportQuality]);
 
-  const downloadImage = useCallback(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const link = document.createElement('a');
-    const base = fileName ? fileName.replace(/\.[^.]+$/, '') : 'image';
-    link.download = `${base}-enhanced.png`;
-    link.href = canvas.toDataURL('image/png');
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-  }, [fileName]);
-
-  // Draw the source image to an offscreen canvas (downscale if large)
+  // Decode the source image; it's kept so it can be redrawn in another colour space
+  const [sourceImage, setSourceImage] = useState<HTMLImageElement | null>(null);
   useEffect(() => {
     if (!imageURL) return;
     const img = new Image();
     img.onload = () => {
-      const maxDim = 1600; // limit for performance
-      let w = img.width;
-      let h = img.height;
-      const scale = Math.min(1, maxDim / Math.max(w, h));
-      if (scale < 1) {
-        w = Math.round(w * scale);
-        h = Math.round(h * scale);
-      }
-      let srcCanvas = srcCanvasRef.current;
-      if (!srcCanvas) {
-        srcCanvas = document.createElement('canvas');
-        srcCanvasRef.current = srcCanvas;
-      }
-      srcCanvas.width = w;
-      srcCanvas.height = h;
-      const ctx = srcCanvas.getContext('2d')!;
-      ctx.clearRect(0, 0, w, h);
-      ctx.drawImage(img, 0, 0, w, h);
-      setImgDims({ w, h });
-      // initial paint to visible canvas
-      const vis = canvasRef.current;
-      if (vis) {
-        vis.width = w;
-        vis.height = h;
-        const vctx = vis.getContext('2d')!;
-        vctx.clearRect(0, 0, w, h);
-        vctx.drawImage(srcCanvas, 0, 0);
-      }
+      setSourceImage(img);
+      URL.revokeObjectURL(imageURL);
+    };
+    img.onerror = () => {
+      showInputError(new ImageInputError(decodeErrorMessage(metaFileRef.current?.type ?? '')));
       URL.revokeObjectURL(imageURL);
     };
     img.src = imageURL;
-  }, [imageURL]);
+  }, [imageURL, showInputError]);
+
+  // Draw the source image to an offscreen full-resolution canvas
+  useEffect(() => {
+    if (!sourceImage) return;
+    const { width: w, height: h } = sourceImage;
+    const fullCanvas = createCanvas(w, h, colorSpace);
+    fullCanvas.getContext('2d')!.drawImage(sourceImage, 0, 0);
+    fullCanvasRef.current = fullCanvas;
+    setFullDims({ w, h });
+  }, [sourceImage, colorSpace]);
+
+  // The preview proxy is the transformed original, downscaled to PREVIEW_MAX_DIM.
+  // While cropping it shows the whole frame so the crop rect can be adjusted.
+  const previewTransform = useMemo(
+    () => (cropping ? { ...transform, crop: null, resize: null } : transform),
+    [cropping, transform],
+  );
+  const dPreviewTransform = useDebounced(previewTransform, 60);
+  useEffect(() => {
+    const fullCanvas = fullCanvasRef.current;
+    if (!fullCanvas || !fullDims) return;
+    const out = transformedSize(fullDims.w, fullDims.h, dPreviewTransform);
+    const scale = Math.min(1, PREVIEW_MAX_DIM / Math.max(out.w, out.h));
+    let srcCanvas = srcCanvasRef.current;
+    if (!srcCanvas || canvasColorSpace(srcCanvas) !== colorSpace) {
+      srcCanvas = createCanvas(0, 0, colorSpace);
+      srcCanvasRef.current = srcCanvas;
+    }
+    drawTransformed(srcCanvas, fullCanvas, fullDims.w, fullDims.h, dPreviewTransform, scale);
+    const { width: w, height: h } = srcCanvas;
+    setSourceHist(computeHistograms(srcCanvas.getContext('2d')!.getImageData(0, 0, w, h)));
+    setImgDims({ w, h });
+    setPreviewPlacement(maskPlacement(fullDims.w, fullDims.h, dPreviewTransform, scale));
+    setExportScale(1 / scale);
+    // initial paint to visible canvas
+    const vis = canvasRef.current;
+    if (vis) {
+      vis.width = w;
+      vis.height = h;
+      const vctx = vis.getContext('2d', { colorSpace })!;
+      vctx.clearRect(0, 0, w, h);
+      vctx.drawImage(srcCanvas, 0, 0);
+    }
+  }, [fullDims, dPreviewTransform, colorSpace]);
+
+  // Crop tool
+  const originalAspect = fullDims ? frameAspect(fullDims.w, fullDims.h, transform) : 1;
+  const startCrop = useCallback(() => {
+    setCropDraft(transform.crop ?? { x: 0, y: 0, w: 1, h: 1 });
+    setCropAspect(null);
+    setCropping(true);
+    setMaskEditId(null);
+  }, [transform.crop]);
+  const applyCrop = useCallback(() => {
+    const full = cropDraft.x <= 0 && cropDraft.y <= 0 && cropDraft.w >= 1 && cropDraft.h >= 1;
+    setCropping(false);
+    setTransform({ ...transform, crop: full ? null : cropDraft });
+  }, [cropDraft, setTransform, transform]);
+  const changeCropAspect = useCallback((ratio: number | null) => {
+    setCropAspect(ratio);
+    if (ratio !== null) setCropDraft(fitCrop(ratio, originalAspect));
+  }, [originalAspect]);
+
+  // Masks: opening the editor on an unmasked op adds an empty mask
+  const setOpMask = useCallback((id: string, mask: Mask | undefined) => {
+    setStack(stack.map(op => (op.id === id ? { ...op, mask } : op)));
+  }, [setStack, stack]);
+  const editMask = useCallback((id: string) => {
+    if (id === maskEditId) {
+      setMaskEditId(null);
+      return;
+    }
+    const op = stack.find(o => o.id === id);
+    if (op && !op.mask) setOpMask(id, emptyMask());
+    setCropping(false);
+    setMaskEditId(id);
+  }, [maskEditId, setOpMask, stack]);
 
-  // Recompute when adjustments change
+  // Enter applies, Escape cancels the crop
   useEffect(() => {
-    if (!srcCanvasRef.current || !imgDims) return;
+    if (!cropping) return;
+    const onKey = (e: KeyboardEvent) => {
+      const t = e.target as HTMLElement | null;
+      if (t instanceof HTMLInputElement || t instanceof HTMLTextAreaElement) return;
+      if (e.key === 'Enter') { e.preventDefault(); applyCrop(); }
+      else if (e.key === 'Escape') { e.preventDefault(); setCropping(false); }
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [cropping, applyCrop]);
+
+  // Recompute in the worker when the operation stack changes; a newer run cancels the previous one
+  useEffect(() => {
+    const runner = previewRunnerRef.current;
+    if (!srcCanvasRef.current || !imgDims || !runner) {
+      setWorking(false);
+      setProgress(null);
+      return;
+    }
     const { w, h } = imgDims;
     const srcCtx = srcCanvasRef.current.getContext('2d')!;
     const base = srcCtx.getImageData(0, 0, w, h);
+    let cancelled = false;
     setWorking(true);
-    // Offload heavy work to next tick
-    requestAnimationFrame(() => {
-      try {
-        const processed = applyPipeline(base, dAdj);
+    setProgress(null);
+    const opts = {
+      histograms: true,
+      backend: backendPref,
+      dither,
+      workingSpace,
+      preserveAlpha,
+      maskPlacement: previewPlacement ?? undefined,
+      outputScale: exportScale,
+      parityTolerance: parityMode ? parityTolerance : undefined,
+      onProgress: (p: PipelineProgress) => { if (!cancelled) setProgress(p); },
+    };
+    runner.runWithResult(base, dStack, opts)
+      .then(({ image, histograms, backend, parity }) => {
         const vis = canvasRef.current;
         if (vis) {
           vis.width = w; vis.height = h;
-          const vctx = vis.getContext('2d')!;
-          vctx.putImageData(processed, 0, 0);
+          const vctx = vis.getContext('2d', { colorSpace })!;
+          vctx.putImageData(image, 0, 0);
         }
-      } finally {
+        setProcessed(image);
+        setProcessedHist(histograms ?? null);
+        setBackendStatus(backend ?? null);
+        setParityReport(parity ?? null);
+      })
+      .catch((e: unknown) => {
+        if (e instanceof PipelineCancelledError) return;
+        setActionMsg(e instanceof Error ? `Processing failed: ${e.message}` : 'Processing failed');
+        setTimeout(() => setActionMsg(null), 2000);
+      })
+      .finally(() => {
+        if (cancelled) return;
         setWorking(false);
-      }
-    });
-  }, [dAdj, imgDims]);
+        setProgress(null);
+      });
+    return () => {
+      cancelled = true;
+      runner.cancel();
+    };
+  }, [dStack, imgDims, previewPlacement, exportScale, backendPref, dither, workingSpace, preserveAlpha, colorSpace, parityMode, parityTolerance]);
 
   const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const cameraInputRef = useRef<HTMLInputElement | null>(null);
+  // `capture` opens the camera on phones and tablets; desktops would just show the file picker
+  const [canCapture] = useState(() => window.matchMedia?.('(pointer: coarse)').matches ?? false);
 
   const hasImage = useMemo(() => !!imgDims, [imgDims]);
 
@@ -174,7 +627,9 @@ export default function ImageEditor() {
       const el = containerRef.current;
       if (!el) return;
       const { clientWidth, clientHeight } = el;
-      const z = Math.min(clientWidth / imgDims.w, clientHeight / imgDims.h, 1);
+      // Side-by-side shows two panes, each getting half the width
+      const paneWidth = compareMode === 'side' ? (clientWidth - 8) / 2 : clientWidth;
+      const z = Math.min(paneWidth / imgDims.w, clientHeight / imgDims.h, 1);
       setFitZoom(z);
       if (autoFit) setZoom(z);
     };
@@ -182,7 +637,26 @@ export default function ImageEditor() {
     const onResize = () => calcFit();
     window.addEventListener('resize', onResize);
     return () => window.removeEventListener('resize', onResize);
-  }, [hasImage, imgDims, autoFit]);
+  }, [hasImage, imgDims, autoFit, compareMode]);
+
+  // Hold backslash to show the original
+  useEffect(() => {
+    const isTyping = (t: EventTarget | null) =>
+      t instanceof HTMLTextAreaElement || (t instanceof HTMLInputElement && (t.type === 'text' || t.type === 'number'));
+    const down = (e: KeyboardEvent) => {
+      if (e.key === '\\' && !e.repeat && !isTyping(e.target)) setHoldOriginal(true);
+    };
+    const up = (e: KeyboardEvent) => { if (e.key === '\\') setHoldOriginal(false); };
+    const blur = () => setHoldOriginal(false);
+    window.addEventListener('keydown', down);
+    window.addEventListener('keyup', up);
+    window.addEventListener('blur', blur);
+    return () => {
+      window.removeEventListener('keydown', down);
+      window.removeEventListener('keyup', up);
+      window.removeEventListener('blur', blur);
+    };
+  }, []);
 
   return (
     <div className="min-h-screen w-full bg-gray-50 text-gray-900 flex items-center justify-center">
@@ -190,40 +664,89 @@ export default function ImageEditor() {
         <h1 className="text-2xl font-semibold mb-6 text-center">Jason's Image Gen Fixer</h1>
 
         <div className="grid grid-cols-1 md:grid-cols-12 gap-4 items-start">
-          <div className="md:col-span-8">
+          <div className="md:col-span-8 space-y-4">
             <div
               onDrop={onDrop}
               onDragOver={(e) => { e.preventDefault(); e.dataTransfer.dropEffect = 'copy'; }}
               ref={containerRef}
-              className={`bg-white rounded-lg shadow p-3 overflow-auto min-h-[300px] relative ${hasImage ? 'flex items-start justify-start' : 'flex items-center justify-center'}`}
+              className={`bg-white rounded-lg shadow p-3 min-h-[300px] relative ${hasImage ? 'h-[70vh] overflow-hidden flex' : 'overflow-auto flex items-center justify-center'}`}
             >
-              {hasImage ? (
-                <div
-                  className="shrink-0"
-                  style={{ width: imgDims ? `${imgDims.w * zoom}px` : undefined, height: imgDims ? `${imgDims.h * zoom}px` : undefined }}
+              {hasImage && imgDims ? (
+                <Viewer
+                  key={colorSpace} // canvases get their colour space when first drawn to
+                  colorSpace={colorSpace}
+                  dims={imgDims}
+                  zoom={zoom}
+                  canvasRef={canvasRef}
+                  sourceRef={srcCanvasRef}
+                  mode={compareMode}
+                  split={split}
+                  onSplitChange={setSplit}
+                  showOriginal={holdOriginal}
+                  overlay={clipOverlay}
+                  background={viewerBg}
+                  backgroundColor={viewerBgColor}
+                  onZoomChange={zoomTo}
+                  processed={processed}
+                  inspector={showInspector}
                 >
-                  <canvas ref={canvasRef} style={{ width: '100%', height: '100%', display: 'block' }} />
-                </div>
+                  {cropping && (
+                    <CropOverlay rect={cropDraft} onChange={setCropDraft} aspect={cropAspect === null ? null : cropAspect / originalAspect} />
+                  )}
+                  {!cropping && maskOp?.mask && previewPlacement && (
+                    <MaskOverlay mask={maskOp.mask} onChange={(m) => setOpMask(maskOp.id, m)} tool={maskTool} dims={imgDims} placement={previewPlacement} zoom={zoom} />
+                  )}
+                </Viewer>
               ) : (
                 <div className="border-2 border-dashed border-gray-300 rounded-lg p-10 w-full h-full flex flex-col items-center justify-center hover:border-blue-400 transition-colors">
-                  <p className="mb-3">Drag and drop an image here</p>
-                  <button
-                    className="px-3 py-2 rounded bg-blue-600 text-white"
-                    onClick={() => fileInputRef.current?.click()}
-                  >
-                    Browse Files
-                  </button>
-                  <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={onInputFile} />
+                  <p className="mb-1">Drag and drop an image here, or paste one with Ctrl+V</p>
+                  <p className="mb-3 text-xs text-gray-500">Images and image links dragged from other tabs work too; drop several files or a folder to batch process them</p>
+                  <div className="flex gap-2">
+                    <button
+                      className="px-3 py-2 rounded bg-blue-600 text-white"
+                      onClick={() => fileInputRef.current?.click()}
+                    >
+                      Browse Files
+                    </button>
+                    {canCapture && (
+                      <button className="px-3 py-2 rounded border border-gray-300 hover:bg-gray-50" onClick={() => cameraInputRef.current?.click()}>
+                        Take Photo
+                      </button>
+                    )}
+                  </div>
+                  <input ref={fileInputRef} type="file" accept="image/*" multiple className="hidden" onChange={onInputFile} />
+                  <input ref={cameraInputRef} type="file" accept="image/*" capture="environment" className="hidden" onChange={onInputFile} />
                 </div>
               )}
             </div>
+            {batch.length > 0 && (
+              <BatchPanel
+                items={batch}
+                setItems={setBatch}
+                stack={stack}
+                format={exportFormat}
+                quality={exportQuality}
+                onOpen={loadImage}
+                backend={backendPref}
+                dither={dither}
+                workingSpace={workingSpace}
+                preserveAlpha={preserveAlpha}
+                colorSpace={colorSpace}
+              />
+            )}
           </div>
           <div className="md:col-span-4">
             <div className="bg-white rounded-lg shadow p-4 space-y-4">
               <div className="flex flex-col gap-1">
                 <div className="truncate min-w-0">
                   <p className="font-medium">{fileName ?? 'No image loaded'}</p>
-                  <p className="text-xs text-gray-500">{hasImage ? `${imgDims?.w}×${imgDims?.h}px` : 'Drop or browse an image'}</p>
+                  <p className="text-xs text-gray-500">
+                    {hasImage
+                      ? outDims && imgDims && (outDims.w !== imgDims.w || outDims.h !== imgDims.h)
+                        ? `${outDims.w}×${outDims.h}px (preview ${imgDims.w}×${imgDims.h}px)`
+                        : `${imgDims?.w}×${imgDims?.h}px`
+                      : 'Drop or browse an image'}
+                  </p>
                 </div>
               </div>
 
@@ -272,81 +795,177 @@ export default function ImageEditor() {
                     Fit
                   </button>
                 </div>
+                <label className="flex items-center gap-2 text-xs">
+                  <input type="checkbox" checked={showInspector} onChange={(e) => setShowInspector(e.target.checked)} />
+                  Pixel inspector
+                </label>
+                <p className="text-xs text-gray-500">Wheel or pinch to zoom at the pointer; hold Space or the middle button and drag to pan.</p>
+              </div>
+
+              <div className="flex flex-col gap-1">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">Compare</span>
+                  <div className="flex items-center rounded border border-gray-300 overflow-hidden text-xs">
+                    {([['off', 'Off'], ['split', 'Split'], ['side', 'Side by side']] as [CompareMode, string][]).map(([m, label]) => (
+                      <button
+                        key={m}
+                        type="button"
+                        className={`px-2 py-1 ${compareMode === m ? 'bg-blue-600 text-white' : 'hover:bg-gray-50'}`}
+                        onClick={() => setCompareMode(m)}
+                        disabled={!hasImage}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex justify-end">
+                  <button
+                    type="button"
+                    className={`px-2 py-1 text-xs rounded border select-none touch-none ${holdOriginal ? 'bg-gray-200 border-gray-400' : 'border-gray-300 hover:bg-gray-50'}`}
+                    onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); setHoldOriginal(true); }}
+                    onPointerUp={() => setHoldOriginal(false)}
+                    onPointerCancel={() => setHoldOriginal(false)}
+                    disabled={!hasImage}
+                    title="Press and hold (or hold \\) to show the original"
+                  >
+                    Hold for original
+                  </button>
+                </div>
+                <div className="flex items-center justify-between" title="Shown behind transparent pixels; exports keep their transparency">
+                  <span className="font-medium">Background</span>
+                  <div className="flex items-center gap-1">
+                    <div className="flex items-center rounded border border-gray-300 overflow-hidden text-xs">
+                      {([['checker', 'Checker'], ['white', 'White'], ['black', 'Black'], ['custom', 'Colour']] as [ViewerBackground, string][]).map(([b, label]) => (
+                        <button
+                          key={b}
+                          type="button"
+                          className={`px-2 py-1 ${viewerBg === b ? 'bg-blue-600 text-white' : 'hover:bg-gray-50'}`}
+                          onClick={() => setViewerBg(b)}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                    {viewerBg === 'custom' && (
+                      <input
+                        type="color"
+                        className="h-6 w-8 rounded border border-gray-300"
+                        value={viewerBgColor}
+                        onChange={(e) => setViewerBgColor(e.target.value)}
+                        aria-label="Background colour"
+                      />
+                    )}
+                  </div>
+                </div>
               </div>
 
-              <label className="flex items-center gap-2">
-                <input
-                  type="checkbox"
-                  className="size-4"
-                  checked={adj.autoWhiteBalance}
-                  onChange={(e) => setAdj(a => ({ ...a, autoWhiteBalance: e.target.checked }))}
+              <div className="pt-2 border-t">
+                <TransformPanel
+                  transform={transform}
+                  onChange={setTransform}
+                  srcDims={hasImage ? fullDims : null}
+                  cropping={cropping}
+                  onStartCrop={startCrop}
+                  onApplyCrop={applyCrop}
+                  onCancelCrop={() => setCropping(false)}
+                  cropAspect={cropAspect}
+                  onCropAspectChange={changeCropAspect}
+                  originalAspect={originalAspect}
                 />
-                <span className="font-medium">Auto White Balance</span>
-              </label>
-
-              <label className="flex items-center gap-2">
-                <input
-                  type="checkbox"
-                  className="size-4"
-                  checked={adj.autoColorEnhance}
-                  onChange={(e) => setAdj(a => ({ ...a, autoColorEnhance: e.target.checked }))}
+              </div>
+
+              <div className="pt-2 border-t">
+                <HistogramPanel
+                  source={sourceHist}
+                  processed={processedHist}
+                  showOverlay={showClipping}
+                  onShowOverlayChange={setShowClipping}
                 />
-                <span className="font-medium">Auto Color Enhance</span>
-              </label>
-
-              <Slider
-                label="Gaussian Blur (px)"
-                min={0}
-                max={10}
-                step={0.1}
-                value={adj.blurPx}
-                defaultValue={0}
-                onChange={(v) => setAdj(a => ({ ...a, blurPx: v }))}
-              />
+              </div>
 
-              <Slider
-                label="Noise (σ)"
-                min={0}
-                max={50}
-                step={1}
-                value={adj.noiseSigma}
-                defaultValue={0}
-                onChange={(v) => setAdj(a => ({ ...a, noiseSigma: v }))}
-              />
+              <div className="pt-2 border-t">
+                <MetadataPanel report={metadata} loading={metaLoading} plan={metaPlan} onPlanChange={setMetaPlan} format={exportFormat} />
+              </div>
 
               <div className="pt-2 border-t">
-                <p className="font-medium mb-2">Color Enhancement</p>
-                <Slider
-                  label="Brightness (%)"
-                  min={-100}
-                  max={100}
-                  step={1}
-                  value={adj.brightness}
-                  defaultValue={0}
-                  onChange={(v) => setAdj(a => ({ ...a, brightness: v }))}
-                />
-                <Slider
-                  label="Contrast (%)"
-                  min={-100}
-                  max={100}
-                  step={1}
-                  value={adj.contrast}
-                  defaultValue={0}
-                  onChange={(v) => setAdj(a => ({ ...a, contrast: v }))}
+                <SessionsPanel sessions={sessions} currentId={sessionId} onOpen={openSession} onDelete={removeSession} onClear={clearStoredSessions} />
+              </div>
+
+              <div className="pt-2 border-t">
+                <PresetsPanel stack={stack} onApply={(next, name) => setStack(next, `Apply preset "${name}"`)} />
+              </div>
+
+              {maskOp?.mask && (
+                <div className="pt-2 border-t">
+                  <MaskPanel
+                    opLabel={operationRegistry[maskOp.type]?.label ?? maskOp.type}
+                    mask={maskOp.mask}
+                    onChange={(m) => setOpMask(maskOp.id, m)}
+                    tool={maskTool}
+                    onToolChange={setMaskTool}
+                    spanMax={stack.length - 1 - maskIndex}
+                    onClose={() => setMaskEditId(null)}
+                  />
+                </div>
+              )}
+
+              <div className="pt-2 border-t">
+                <div className="flex items-center justify-between mb-2">
+                  <p className="font-medium">Operations</p>
+                  <button
+                    type="button"
+                    className="text-xs px-2 py-1 rounded border border-gray-300 hover:bg-gray-50"
+                    onClick={() => setStack(defaultStack(), 'Restore defaults')}
+                    title="Restore the default operation stack"
+                  >
+                    Defaults
+                  </button>
+                </div>
+                <OperationStack stack={stack} onChange={setStack} maskEditId={maskOp?.id ?? null} onEditMask={editMask} exportScale={exportScale} />
+              </div>
+
+              <div className="pt-2 border-t">
+                <RenderingPanel
+                  preference={backendPref}
+                  onPreferenceChange={setBackendPref}
+                  status={backendStatus}
+                  dither={dither}
+                  onDitherChange={setDither}
+                  workingSpace={workingSpace}
+                  onWorkingSpaceChange={setWorkingSpace}
+                  preserveAlpha={preserveAlpha}
+                  onPreserveAlphaChange={setPreserveAlpha}
+                  colorSpace={colorSpace}
+                  onColorSpaceChange={setColorSpace}
+                  p3Supported={p3Supported}
+                  parityMode={parityMode}
+                  onParityModeChange={setParityMode}
+                  tolerance={parityTolerance}
+                  onToleranceChange={setParityTolerance}
+                  report={parityReport}
                 />
-                <Slider
-                  label="Saturation (%)"
-                  min={-100}
-                  max={100}
-                  step={1}
-                  value={adj.saturation}
-                  defaultValue={0}
-                  onChange={(v) => setAdj(a => ({ ...a, saturation: v }))}
+              </div>
+
+              <div className="pt-2 border-t">
+                <HistoryPanel
+                  entries={history.entries}
+                  index={history.index}
+                  canUndo={history.canUndo}
+                  canRedo={history.canRedo}
+                  onUndo={undo}
+                  onRedo={redo}
+                  onJump={history.jumpTo}
                 />
               </div>
 
               <div className="flex items-center justify-between">
-                {working && <p className="text-xs text-gray-500">Processing…</p>}
+                {working && (
+                  <p className="text-xs text-gray-500">
+                    {progress ? `Processing… ${progress.stage} (${progress.index + 1}/${progress.total})` : 'Processing…'}
+                  </p>
+                )}
+                {exporting && <p className="text-xs text-gray-500">Exporting full resolution…</p>}
                 {actionMsg && <p className="text-xs text-gray-600">{actionMsg}</p>}
               </div>
 
@@ -357,22 +976,30 @@ export default function ImageEditor() {
                     Reset
                   </button>
                 </div>
-                <div className="flex flex-wrap gap-2">
+                <ExportOptions
+                  format={exportFormat}
+                  onFormatChange={setExportFormat}
+                  quality={exportQuality}
+                  onQualityChange={setExportQuality}
+                  estimate={sizeEstimate}
+                  estimating={estimating}
+                />
+                <div className="flex flex-wrap gap-2 mt-2">
                   <button
                     className="text-sm px-2 py-1 rounded border border-gray-300 hover:bg-gray-50 disabled:opacity-50"
                     onClick={copyToClipboard}
-                    disabled={!hasImage || working}
-                    title="Copy processed image to clipboard"
+                    disabled={!hasImage || working || exporting}
+                    title="Copy processed image to clipboard at original resolution"
                   >
                     Copy to Clipboard
                   </button>
                   <button
                     className="text-sm px-2 py-1 rounded border border-gray-300 hover:bg-gray-50 disabled:opacity-50"
                     onClick={downloadImage}
-                    disabled={!hasImage || working}
-                    title="Download processed image as PNG"
+                    disabled={!hasImage || working || exporting}
+                    title={`Download processed image as ${exportFormats[exportFormat].label} at original resolution`}
                   >
-                    Download PNG
+                    Download {exportFormats[exportFormat].label}
                   </button>
                 </div>
               </div>
@@ -383,95 +1010,3 @@ export default function ImageEditor() {
     </div>
   );
 }
-
-type SliderProps = {
-  label: string;
-  min: number;
-  max: number;
-  step?: number;
-  value: number;
-  defaultValue: number;
-  onChange: (v: number) => void;
-};
-
-function Slider({ label, min, max, step = 1, value, defaultValue, onChange }: SliderProps) {
-  const isDefault = value === defaultValue;
-  const displayValue = Number.isFinite(value)
-    ? (step < 1 ? Math.round(value * (1 / step)) / (1 / step) : Math.round(value))
-    : 0;
-
-  const [inputStr, setInputStr] = React.useState<string>(String(displayValue));
-
-  // Keep the text input in sync when external value changes
-  React.useEffect(() => {
-    setInputStr(String(displayValue));
-  }, [displayValue]);
-
-  const commit = React.useCallback((raw: string) => {
-    const n = parseFloat(raw);
-    if (Number.isNaN(n)) {
-      // Revert to current value on invalid input
-      setInputStr(String(displayValue));
-      return;
-    }
-    let v = n;
-    if (v < min) v = min;
-    if (v > max) v = max;
-    onChange(v);
-    setInputStr(String(step < 1 ? Math.round(v * (1 / step)) / (1 / step) : Math.round(v)));
-  }, [min, max, onChange, step, displayValue]);
-  return (
-    <div className="space-y-1">
-      <div className="flex items-center justify-between gap-2">
-        <label className="text-sm select-none">{label}</label>
-        <div className="flex items-center gap-2">
-          <input
-            type="number"
-            inputMode={step < 1 ? 'decimal' : 'numeric'}
-            step={step}
-            min={min}
-            max={max}
-            value={inputStr}
-            onChange={(e) => {
-              const s = e.target.value;
-              setInputStr(s);
-              const n = parseFloat(s);
-              if (!Number.isNaN(n)) {
-                let v = n;
-                if (v < min) v = min;
-                if (v > max) v = max;
-                onChange(v);
-              }
-            }}
-            onBlur={(e) => commit(e.target.value)}
-            onKeyDown={(e) => { if (e.key === 'Enter') (e.currentTarget as HTMLInputElement).blur(); }}
-            className="text-xs leading-none px-1.5 py-0.5 w-12 rounded border border-gray-300 text-right"
-            aria-label={`${label} numeric input`}
-          />
-          <button
-            type="button"
-            title="Reset to default"
-            aria-label={`Reset ${label} to ${defaultValue}`}
-            onClick={() => onChange(defaultValue)}
-            className={`text-xs leading-none px-1.5 py-0.5 rounded border transition-colors ${isDefault ? 'text-gray-400 border-gray-200' : 'text-gray-700 border-gray-300 hover:bg-gray-50'}`}
-          >
-            ↺
-          </button>
-        </div>
-      </div>
-      <input
-        type="range"
-        min={min}
-        max={max}
-        step={step}
-        value={Number.isFinite(value) ? value : 0}
-        onChange={(e) => onChange(parseFloat(e.target.value))}
-        className="w-full accent-blue-600"
-      />
-      <div className="flex justify-between text-[10px] text-gray-500">
-        <span>{min}</span>
-        <span>{max}</span>
-      </div>
-    </div>
-  );
-}
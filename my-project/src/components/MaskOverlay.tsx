@@ -0,0 +1,195 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { PointerEvent as ReactPointerEvent } from 'react';
+import type { Affine } from '../lib/geometry';
+import { invertAffine } from '../lib/geometry';
+import type { BrushStroke, Mask, MaskGradient } from '../lib/masks';
+import { placementScale, rasterizeMask } from '../lib/masks';
+import type { MaskToolState } from './MaskPanel';
+
+type Props = {
+  mask: Mask;
+  onChange: (mask: Mask) => void;
+  tool: MaskToolState;
+  dims: { w: number; h: number }; // preview size in pixels
+  placement: Affine; // preview pixels → mask units
+  zoom: number;
+};
+
+// The coverage overlay is rasterized at a reduced size and stretched; it only guides painting
+const OVERLAY_MAX_DIM = 512;
+const HANDLE_PX = 10; // grab distance for gradient handles, in screen pixels
+
+type Drag = 'new' | 'start' | 'end' | 'center' | 'rx' | 'ry';
+
+// Handles in mask units for the current gradient
+function gradientHandles(g: MaskGradient): [Drag, number, number][] {
+  return g.kind === 'linear'
+    ? [['start', g.x0, g.y0], ['end', g.x1, g.y1]]
+    : [['center', g.cx, g.cy], ['rx', g.cx + g.rx, g.cy], ['ry', g.cx, g.cy + g.ry]];
+}
+
+// Painting layer over the processed image for the mask being edited
+export default function MaskOverlay({ mask: committed, onChange, tool, dims, placement, zoom }: Props) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const [draft, setDraft] = useState<BrushStroke | null>(null);
+  // Gradient being dragged; like strokes it is committed once, on release
+  const [gradientDraft, setGradientDraft] = useState<MaskGradient | null>(null);
+  const mask = useMemo(() => (gradientDraft ? { ...committed, gradient: gradientDraft } : committed), [committed, gradientDraft]);
+  const [hover, setHover] = useState<[number, number] | null>(null);
+  // Mask units per preview pixel, and per longer side of the preview (brush sizes are relative to what's shown)
+  const unitsPerPixel = placementScale(placement);
+  const frameUnits = Math.max(dims.w, dims.h) * unitsPerPixel;
+
+  useEffect(() => {
+    const c = canvasRef.current;
+    if (!c) return;
+    const k = Math.min(1, OVERLAY_MAX_DIM / Math.max(dims.w, dims.h));
+    const w = Math.max(1, Math.round(dims.w * k)), h = Math.max(1, Math.round(dims.h * k));
+    c.width = w;
+    c.height = h;
+    if (!tool.showOverlay) return;
+    // Overlay pixels are larger than preview pixels
+    const sx = dims.w / w, sy = dims.h / h;
+    const cov = rasterizeMask(mask, w, h, placement.map((v, i) => v * (i < 2 ? sx : i < 4 ? sy : 1)) as Affine);
+    const img = new ImageData(w, h);
+    for (let p = 0, i = 0; p < cov.length; p++, i += 4) {
+      img.data[i] = 255;
+      img.data[i + 1] = 40;
+      img.data[i + 2] = 40;
+      img.data[i + 3] = cov[p] * 110;
+    }
+    c.getContext('2d')!.putImageData(img, 0, 0);
+  }, [mask, dims, placement, tool.showOverlay]);
+
+  const toMask = (e: { clientX: number; clientY: number }, box: DOMRect): [number, number] => {
+    const x = (e.clientX - box.left) / box.width * dims.w, y = (e.clientY - box.top) / box.height * dims.h;
+    const [a, b, c, d, tx, ty] = placement;
+    return [a * x + c * y + tx, b * x + d * y + ty];
+  };
+
+  const onPointerDown = (e: ReactPointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    const box = e.currentTarget.getBoundingClientRect();
+    const [x, y] = toMask(e, box);
+    const unitsPerPx = dims.w / box.width * unitsPerPixel;
+    let move: (p: [number, number]) => void;
+    let finish = () => {};
+
+    if (tool.tool === 'brush' || tool.tool === 'erase') {
+      const stroke: BrushStroke = { radius: tool.size / 200 * frameUnits, hardness: tool.hardness / 100, erase: tool.tool === 'erase', points: [x, y] };
+      setDraft(stroke);
+      move = ([px, py]) => {
+        const n = stroke.points.length;
+        // Skip points closer than a fraction of the radius; they don't change the shape
+        if (Math.hypot(px - stroke.points[n - 2], py - stroke.points[n - 1]) < stroke.radius * 0.15) return;
+        stroke.points = [...stroke.points, px, py];
+        setDraft({ ...stroke });
+      };
+      finish = () => {
+        setDraft(null);
+        onChange({ ...committed, strokes: [...committed.strokes, stroke] });
+      };
+    } else {
+      // Grab an existing handle of the same gradient kind, otherwise draw a new gradient
+      const g = mask.gradient?.kind === tool.tool ? mask.gradient : null;
+      const hit = g && gradientHandles(g).find(([, hx, hy]) => Math.hypot(hx - x, hy - y) < HANDLE_PX * unitsPerPx);
+      const drag: Drag = hit ? hit[0] : 'new';
+      const start = g;
+      let last: MaskGradient | null = null;
+      move = ([px, py]) => {
+        let next: MaskGradient | null = null;
+        if (tool.tool === 'linear') {
+          const base = start?.kind === 'linear' ? start : null;
+          if (drag === 'start' && base) next = { ...base, x0: px, y0: py };
+          else if (drag === 'end' && base) next = { ...base, x1: px, y1: py };
+          else next = { kind: 'linear', x0: x, y0: y, x1: px, y1: py };
+        } else {
+          const base = start?.kind === 'radial' ? start : null;
+          if (drag === 'center' && base) next = { ...base, cx: base.cx + px - x, cy: base.cy + py - y };
+          else if (drag === 'rx' && base) next = { ...base, rx: Math.max(0.005, Math.abs(px - base.cx)) };
+          else if (drag === 'ry' && base) next = { ...base, ry: Math.max(0.005, Math.abs(py - base.cy)) };
+          else {
+            const r = Math.max(0.005, Math.hypot(px - x, py - y));
+            next = { kind: 'radial', cx: x, cy: y, rx: r, ry: r, feather: tool.feather / 100 };
+          }
+        }
+        last = next;
+        setGradientDraft(next);
+      };
+      finish = () => {
+        setGradientDraft(null);
+        if (last) onChange({ ...committed, gradient: last });
+      };
+    }
+
+    // Other pointers are ignored; a cancel (e.g. the viewer starting a pinch) drops the edit
+    const id = e.pointerId;
+    const onMove = (ev: PointerEvent) => { if (ev.pointerId === id) move(toMask(ev, box)); };
+    const end = (ev: PointerEvent) => {
+      if (ev.pointerId !== id) return;
+      window.removeEventListener('pointermove', onMove);
+      window.removeEventListener('pointerup', end);
+      window.removeEventListener('pointercancel', end);
+      if (ev.type === 'pointerup') {
+        finish();
+      } else {
+        setDraft(null);
+        setGradientDraft(null);
+      }
+    };
+    window.addEventListener('pointermove', onMove);
+    window.addEventListener('pointerup', end);
+    window.addEventListener('pointercancel', end);
+  };
+
+  const brush = tool.tool === 'brush' || tool.tool === 'erase';
+  const g = mask.gradient?.kind === tool.tool ? mask.gradient : null;
+  const pts = (s: BrushStroke) => s.points.reduce((acc, v, i) => acc + (i % 2 ? `,${v} ` : `${v}`), '');
+  // Handles keep their on-screen size whatever the zoom; shapes are drawn in mask units
+  const handleR = unitsPerPixel / zoom * 5;
+
+  return (
+    <div
+      className="absolute inset-0 touch-none cursor-crosshair"
+      onPointerDown={onPointerDown}
+      onPointerMove={(e) => setHover(toMask(e, e.currentTarget.getBoundingClientRect()))}
+      onPointerLeave={() => setHover(null)}
+    >
+      <canvas ref={canvasRef} className="absolute inset-0 pointer-events-none" style={{ width: '100%', height: '100%' }} />
+      <svg
+        className="absolute inset-0 pointer-events-none overflow-visible"
+        width="100%"
+        height="100%"
+        viewBox={`0 0 ${dims.w} ${dims.h}`}
+        preserveAspectRatio="none"
+      >
+        <g transform={`matrix(${invertAffine(placement).join(' ')})`}>
+          {draft && (
+            <polyline
+              points={pts(draft)}
+              fill="none"
+              stroke={draft.erase ? 'white' : 'rgb(255,40,40)'}
+              strokeOpacity={0.5}
+              strokeWidth={draft.radius * 2}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            />
+          )}
+          {brush && hover && (
+            <circle cx={hover[0]} cy={hover[1]} r={tool.size / 200 * frameUnits} fill="none" stroke="white" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+          )}
+          {g?.kind === 'linear' && (
+            <line x1={g.x0} y1={g.y0} x2={g.x1} y2={g.y1} stroke="white" strokeWidth={1} strokeDasharray="4 3" vectorEffect="non-scaling-stroke" />
+          )}
+          {g?.kind === 'radial' && (
+            <ellipse cx={g.cx} cy={g.cy} rx={g.rx} ry={g.ry} fill="none" stroke="white" strokeWidth={1} strokeDasharray="4 3" vectorEffect="non-scaling-stroke" />
+          )}
+          {g && gradientHandles(g).map(([id, hx, hy]) => (
+            <circle key={id} cx={hx} cy={hy} r={handleR} fill="white" stroke="black" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+          ))}
+        </g>
+      </svg>
+    </div>
+  );
+}
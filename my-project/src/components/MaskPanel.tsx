@@ -0,0 +1,116 @@
+import type { Mask } from '../lib/masks';
+import { emptyMask } from '../lib/masks';
+import Slider from './Slider';
+
+export type MaskTool = 'brush' | 'erase' | 'linear' | 'radial';
+
+export type MaskToolState = {
+  tool: MaskTool;
+  size: number; // brush diameter, % of the image's longer side
+  hardness: number; // %
+  feather: number; // % of a new radial gradient's radius
+  showOverlay: boolean;
+};
+
+type Props = {
+  opLabel: string;
+  mask: Mask;
+  onChange: (mask: Mask | undefined) => void;
+  tool: MaskToolState;
+  onToolChange: (tool: MaskToolState) => void;
+  spanMax: number; // operations below the masked one
+  onClose: () => void;
+};
+
+const btn = 'text-xs px-2 py-1 rounded border border-gray-300 hover:bg-gray-50 disabled:opacity-50';
+
+const TOOLS: [MaskTool, string][] = [['brush', 'Brush'], ['erase', 'Erase'], ['linear', 'Linear'], ['radial', 'Radial']];
+
+// Tools for painting the mask of one operation; drawing happens in MaskOverlay
+export default function MaskPanel({ opLabel, mask, onChange, tool, onToolChange, spanMax, onClose }: Props) {
+  const set = (patch: Partial<MaskToolState>) => onToolChange({ ...tool, ...patch });
+  const g = mask.gradient;
+  const empty = !g && mask.strokes.length === 0;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <p className="font-medium truncate">Mask: {opLabel}</p>
+        <button type="button" className={btn} onClick={onClose}>Done</button>
+      </div>
+
+      <div className="flex items-center rounded border border-gray-300 overflow-hidden text-xs w-fit">
+        {TOOLS.map(([t, label]) => (
+          <button
+            key={t}
+            type="button"
+            className={`px-2 py-0.5 ${tool.tool === t ? 'bg-blue-600 text-white' : 'hover:bg-gray-50'}`}
+            onClick={() => set({ tool: t })}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {(tool.tool === 'brush' || tool.tool === 'erase') && (
+        <>
+          <Slider label="Size (%)" min={0.5} max={50} step={0.5} value={tool.size} defaultValue={10} onChange={(v) => set({ size: v })} />
+          <Slider label="Hardness (%)" min={0} max={100} value={tool.hardness} defaultValue={50} onChange={(v) => set({ hardness: v })} />
+        </>
+      )}
+      {tool.tool === 'radial' && (
+        <Slider
+          label="Feather (%)"
+          min={0}
+          max={100}
+          value={g?.kind === 'radial' ? Math.round(g.feather * 100) : tool.feather}
+          defaultValue={50}
+          onChange={(v) => {
+            set({ feather: v });
+            if (g?.kind === 'radial') onChange({ ...mask, gradient: { ...g, feather: v / 100 } });
+          }}
+        />
+      )}
+      <p className="text-xs text-gray-500">
+        {tool.tool === 'linear'
+          ? 'Drag on the image from full effect to none; drag the end points to adjust.'
+          : tool.tool === 'radial'
+            ? 'Drag out from the centre; drag the handles to move or reshape.'
+            : `Paint on the image to ${tool.tool === 'erase' ? 'hide' : 'apply'} ${opLabel} there.`}
+      </p>
+
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" className="size-4" checked={mask.invert} onChange={(e) => onChange({ ...mask, invert: e.target.checked })} />
+          Invert
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" className="size-4" checked={tool.showOverlay} onChange={(e) => set({ showOverlay: e.target.checked })} />
+          Show overlay
+        </label>
+      </div>
+
+      <label className="flex items-center justify-between gap-2 text-sm">
+        <span>Applies to</span>
+        <select
+          className="text-xs px-1 py-0.5 rounded border border-gray-300"
+          value={Math.min(mask.span, spanMax)}
+          onChange={(e) => onChange({ ...mask, span: Number(e.target.value) })}
+        >
+          <option value={0}>This operation</option>
+          {Array.from({ length: spanMax }, (_, i) => (
+            <option key={i + 1} value={i + 1}>This + next {i + 1}</option>
+          ))}
+        </select>
+      </label>
+
+      <div className="flex flex-wrap gap-1">
+        {g && <button type="button" className={btn} onClick={() => onChange({ ...mask, gradient: null })}>Remove gradient</button>}
+        <button type="button" className={btn} onClick={() => onChange({ ...emptyMask(), span: mask.span })} disabled={empty && !mask.invert}>
+          Clear
+        </button>
+        <button type="button" className={btn} onClick={() => onChange(undefined)}>Remove mask</button>
+      </div>
+    </div>
+  );
+}
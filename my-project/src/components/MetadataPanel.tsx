@@ -0,0 +1,138 @@
+import type { ExifTagName, FieldAction, ImageFormat, MetadataPlan, MetadataReport } from '../lib/metadata';
+import { emptyMetadataPlan, EXIF_TAGS, keepBlocker, planKeepingNonAi, replaceBlocker } from '../lib/metadata';
+
+type Props = {
+  report: MetadataReport | null;
+  loading: boolean;
+  plan: MetadataPlan;
+  onPlanChange: (plan: MetadataPlan) => void;
+  format: ImageFormat; // export format the plan is applied to
+};
+
+const btn = 'text-xs px-2 py-1 rounded border border-gray-300 hover:bg-gray-50 disabled:opacity-50';
+
+// Camera-style fields offered for writing; the rest of EXIF_TAGS stay keep/replace only
+const CUSTOM_TAGS: ExifTagName[] = ['Make', 'Model', 'LensModel', 'ExposureTime', 'FNumber', 'ISO', 'FocalLength', 'DateTimeOriginal', 'Artist', 'Copyright', 'Software'];
+
+const PLACEHOLDERS: Partial<Record<ExifTagName, string>> = {
+  ExposureTime: '1/125',
+  FNumber: '2.8',
+  ISO: '200',
+  FocalLength: '35',
+  DateTimeOriginal: 'YYYY:MM:DD HH:MM:SS',
+};
+
+const categoryLabel = { generation: 'Generation', provenance: 'Provenance', camera: 'Camera', software: 'Software', other: 'Other' } as const;
+
+export default function MetadataPanel({ report, loading, plan, onPlanChange, format }: Props) {
+  const fields = report?.fields ?? [];
+  const aiCount = fields.filter(f => f.ai).length;
+
+  const setAction = (id: string, action: FieldAction) =>
+    onPlanChange({ ...plan, actions: { ...plan.actions, [id]: action } });
+
+  const setCustom = (name: ExifTagName, value: string) =>
+    onPlanChange({ ...plan, custom: { ...plan.custom, [name]: value } });
+
+  const keptC2pa = plan.actions.c2pa && plan.actions.c2pa.mode !== 'strip';
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="font-medium">
+          Metadata{' '}
+          <span className="text-xs text-gray-500 font-normal">
+            {loading ? 'reading…' : `${fields.length} field${fields.length === 1 ? '' : 's'}${aiCount ? ` · ${aiCount} AI` : ''}`}
+          </span>
+        </p>
+        <div className="flex gap-1">
+          <button type="button" className={btn} onClick={() => onPlanChange({ ...emptyMetadataPlan(), custom: plan.custom })} disabled={!report}>
+            Strip all
+          </button>
+          <button
+            type="button"
+            className={btn}
+            onClick={() => report && onPlanChange({ ...planKeepingNonAi(report, format), custom: plan.custom })}
+            disabled={!report}
+            title="Keep fields that don't look AI-related"
+          >
+            Keep non-AI
+          </button>
+        </div>
+      </div>
+
+      {report && fields.length === 0 && <p className="text-xs text-gray-500">No metadata found in this file.</p>}
+
+      <ul className="space-y-1.5 max-h-64 overflow-y-auto">
+        {fields.map(f => {
+          const action = plan.actions[f.id] ?? { mode: 'strip' };
+          const blocker = keepBlocker(f, report!, format);
+          const replaceIssue = action.mode === 'replace' && !blocker ? replaceBlocker(f, report!, format, action.value ?? '') : null;
+          return (
+            <li key={f.id} className="rounded border border-gray-200 p-1.5 text-xs space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <span className="truncate font-medium" title={f.label}>
+                  {f.label}
+                  {f.ai && <span className="ml-1 px-1 rounded bg-red-100 text-red-700 text-[10px] font-normal">AI</span>}
+                  <span className="ml-1 text-[10px] text-gray-500 font-normal">{categoryLabel[f.category]}</span>
+                </span>
+                <select
+                  className="text-xs px-1 py-0.5 rounded border border-gray-300 shrink-0"
+                  value={blocker ? 'strip' : action.mode}
+                  onChange={(e) => setAction(f.id, { mode: e.target.value as FieldAction['mode'], value: action.value ?? f.value })}
+                  disabled={!!blocker}
+                  title={blocker ?? undefined}
+                  aria-label={`Export action for ${f.label}`}
+                >
+                  <option value="strip">Strip</option>
+                  <option value="keep">Keep</option>
+                  {f.replaceable && <option value="replace">Replace</option>}
+                </select>
+              </div>
+              {action.mode === 'replace' && !blocker ? (
+                <textarea
+                  className="w-full rounded border border-gray-300 px-1 py-0.5 font-mono text-[11px]"
+                  rows={2}
+                  value={action.value ?? ''}
+                  onChange={(e) => setAction(f.id, { mode: 'replace', value: e.target.value })}
+                />
+              ) : (
+                <p className="text-gray-600 font-mono text-[11px] whitespace-pre-wrap break-all line-clamp-3" title={f.value.slice(0, 2000)}>
+                  {f.value}
+                </p>
+              )}
+              {blocker && <p className="text-[10px] text-gray-500">Always removed: {blocker}</p>}
+              {replaceIssue && <p className="text-[10px] text-amber-700">Won't be written: {replaceIssue}</p>}
+            </li>
+          );
+        })}
+      </ul>
+
+      {keptC2pa && (
+        <p className="text-xs text-amber-700">Kept Content Credentials describe the original pixels and won't validate against the edited image.</p>
+      )}
+
+      <details className="text-xs">
+        <summary className="cursor-pointer select-none">Custom EXIF fields</summary>
+        <div className="grid grid-cols-2 gap-1 mt-1">
+          {CUSTOM_TAGS.map(name => {
+            const info = EXIF_TAGS.find(t => t.name === name)!;
+            return (
+              <label key={name} className="flex flex-col gap-0.5">
+                <span className="text-[11px] text-gray-600">{info.label}</span>
+                <input
+                  type="text"
+                  className="rounded border border-gray-300 px-1 py-0.5"
+                  value={plan.custom[name] ?? ''}
+                  placeholder={PLACEHOLDERS[name]}
+                  onChange={(e) => setCustom(name, e.target.value)}
+                />
+              </label>
+            );
+          })}
+        </div>
+        <p className="text-[11px] text-gray-500 mt-1">Written on top of kept fields. Applies to downloads; the clipboard always drops metadata.</p>
+      </details>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { useEffect, useRef } from 'react';
+import type { PointerEvent as ReactPointerEvent, RefObject } from 'react';
+
+type Props = {
+  imageRef: RefObject<HTMLCanvasElement | null>; // canvas shown in the thumbnail
+  painted: unknown; // changes whenever imageRef is repainted, to redraw the thumbnail
+  dims: { w: number; h: number };
+  zoom: number;
+  view: { left: number; top: number; width: number; height: number }; // scroll box of the pane, screen px
+  onNavigate: (x: number, y: number) => void; // centre the view on this preview pixel
+};
+
+const MAX_DIM = 160;
+
+// Thumbnail of the whole image with the visible area outlined; click or drag to move the view
+export default function Navigator({ imageRef, painted, dims, zoom, view, onNavigate }: Props) {
+  const thumbRef = useRef<HTMLCanvasElement | null>(null);
+  const k = MAX_DIM / Math.max(dims.w, dims.h);
+  const tw = Math.max(1, Math.round(dims.w * k)), th = Math.max(1, Math.round(dims.h * k));
+
+  useEffect(() => {
+    const src = imageRef.current, c = thumbRef.current;
+    if (!src || !c || src.width === 0) return;
+    c.width = tw;
+    c.height = th;
+    const ctx = c.getContext('2d')!;
+    ctx.clearRect(0, 0, tw, th);
+    ctx.drawImage(src, 0, 0, tw, th);
+  }, [imageRef, painted, tw, th]);
+
+  const navigate = (e: ReactPointerEvent<HTMLDivElement>) => {
+    const r = e.currentTarget.getBoundingClientRect();
+    onNavigate(((e.clientX - r.left) / r.width) * dims.w, ((e.clientY - r.top) / r.height) * dims.h);
+  };
+
+  // Visible area in thumbnail px
+  const s = k / zoom;
+  const rect = {
+    left: Math.max(0, view.left * s),
+    top: Math.max(0, view.top * s),
+    width: Math.min(tw, view.width * s),
+    height: Math.min(th, view.height * s),
+  };
+
+  return (
+    <div
+      className="absolute right-3 bottom-3 z-10 rounded shadow bg-black/60 p-1 touch-none cursor-pointer"
+      aria-label="Navigator"
+    >
+      <div
+        className="relative"
+        style={{ width: tw, height: th }}
+        onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); navigate(e); }}
+        onPointerMove={(e) => { if (e.currentTarget.hasPointerCapture(e.pointerId)) navigate(e); }}
+      >
+        <canvas ref={thumbRef} className="block" style={{ width: tw, height: th }} />
+        <div className="absolute border-2 border-red-500 pointer-events-none" style={rect} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,286 @@
+import { useState } from 'react';
+import type { ReactNode } from 'react';
+import type { Operation, OpParams, OpStack, OpType, ParamDescriptor, ParamValue } from '../lib/imageOps';
+import { createOperation, duplicateOperation, operationRegistry, operationTypes } from '../lib/imageOps';
+import CurveEditor from './CurveEditor';
+import Slider from './Slider';
+
+type Props = {
+  stack: OpStack;
+  onChange: (stack: OpStack) => void;
+  maskEditId?: string | null; // op whose mask is being painted
+  onEditMask?: (id: string) => void;
+  exportScale?: number; // export pixels per preview pixel
+};
+
+// Ordered list of operations; top runs first. Cards can be dragged to reorder.
+export default function OperationStack({ stack, onChange, maskEditId, onEditMask, exportScale = 1 }: Props) {
+  // Only the handle arms dragging, so sliders inside a card keep working
+  const [armedId, setArmedId] = useState<string | null>(null);
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [overId, setOverId] = useState<string | null>(null);
+  const [addType, setAddType] = useState<OpType>('noise');
+
+  const update = (id: string, fn: (op: Operation) => Operation) =>
+    onChange(stack.map(op => (op.id === id ? fn(op) : op)));
+
+  const moveBefore = (fromId: string, toId: string) => {
+    if (fromId === toId) return;
+    const from = stack.findIndex(op => op.id === fromId);
+    const to = stack.findIndex(op => op.id === toId);
+    if (from < 0 || to < 0) return;
+    const next = stack.slice();
+    const [moved] = next.splice(from, 1);
+    next.splice(to, 0, moved);
+    onChange(next);
+  };
+
+  const moveBy = (id: string, delta: number) => {
+    const from = stack.findIndex(op => op.id === id);
+    const to = from + delta;
+    if (from < 0 || to < 0 || to >= stack.length) return;
+    const next = stack.slice();
+    [next[from], next[to]] = [next[to], next[from]];
+    onChange(next);
+  };
+
+  const duplicate = (id: string) => {
+    const i = stack.findIndex(op => op.id === id);
+    if (i < 0) return;
+    const next = stack.slice();
+    next.splice(i + 1, 0, duplicateOperation(stack[i]));
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      {stack.length === 0 && <p className="text-xs text-gray-500">No operations. Add one below.</p>}
+      {stack.map((op, i) => {
+        const def = operationRegistry[op.type];
+        if (!def) return null;
+        return (
+          <div
+            key={op.id}
+            draggable={armedId === op.id}
+            onDragStart={(e) => {
+              setDragId(op.id);
+              e.dataTransfer.effectAllowed = 'move';
+              e.dataTransfer.setData('text/plain', op.id);
+            }}
+            onDragOver={(e) => {
+              if (!dragId) return;
+              e.preventDefault();
+              e.stopPropagation();
+              e.dataTransfer.dropEffect = 'move';
+              setOverId(op.id);
+            }}
+            onDrop={(e) => {
+              if (!dragId) return;
+              e.preventDefault();
+              e.stopPropagation();
+              moveBefore(dragId, op.id);
+              setArmedId(null);
+              setDragId(null);
+              setOverId(null);
+            }}
+            onDragEnd={() => { setArmedId(null); setDragId(null); setOverId(null); }}
+            className={`rounded border p-2 space-y-2 transition-colors ${overId === op.id && dragId !== op.id ? 'border-blue-400' : 'border-gray-200'} ${dragId === op.id ? 'opacity-50' : ''}`}
+          >
+            <div className="flex items-center gap-2">
+              <span
+                className="cursor-grab text-gray-400 select-none"
+                title="Drag to reorder"
+                onPointerDown={() => setArmedId(op.id)}
+                onPointerUp={() => setArmedId(null)}
+              >
+                ⋮⋮
+              </span>
+              <label className="flex items-center gap-2 min-w-0 flex-1">
+                <input
+                  type="checkbox"
+                  className="size-4"
+                  checked={op.enabled}
+                  onChange={(e) => update(op.id, o => ({ ...o, enabled: e.target.checked }))}
+                  title={op.enabled ? 'Bypass' : 'Enable'}
+                />
+                <span className={`font-medium truncate ${op.enabled ? '' : 'text-gray-400'}`}>{def.label}</span>
+                {op.mask && <span className="text-xs text-blue-600" title={op.mask.span ? `Masked with the next ${op.mask.span}` : 'Masked'}>◐</span>}
+              </label>
+              <div className="flex items-center gap-1">
+                {onEditMask && (
+                  <IconButton title={op.mask ? 'Edit mask' : 'Add mask'} onClick={() => onEditMask(op.id)} active={maskEditId === op.id}>◐</IconButton>
+                )}
+                <IconButton title="Move up" onClick={() => moveBy(op.id, -1)} disabled={i === 0}>↑</IconButton>
+                <IconButton title="Move down" onClick={() => moveBy(op.id, 1)} disabled={i === stack.length - 1}>↓</IconButton>
+                <IconButton title="Duplicate" onClick={() => duplicate(op.id)}>⧉</IconButton>
+                <IconButton title="Delete" onClick={() => onChange(stack.filter(o => o.id !== op.id))}>✕</IconButton>
+              </div>
+            </div>
+            {def.params.length > 0 && (
+              <div className={op.enabled ? '' : 'opacity-50'}>
+                <ParamControls
+                  params={def.params}
+                  values={op.params}
+                  onChange={(key, v) => update(op.id, o => ({ ...o, params: { ...o.params, [key]: v } }))}
+                />
+                {def.previewNote && exportScale > 1 && <p className="text-xs text-gray-500">{def.previewNote}</p>}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex items-center gap-2">
+        <select
+          className="text-sm px-1 py-1 rounded border border-gray-300 flex-1 min-w-0"
+          value={addType}
+          onChange={(e) => setAddType(e.target.value as OpType)}
+          aria-label="Operation to add"
+        >
+          {operationTypes.map(t => (
+            <option key={t} value={t}>{operationRegistry[t].label}</option>
+          ))}
+        </select>
+        <button
+          type="button"
+          className="text-sm px-2 py-1 rounded border border-gray-300 hover:bg-gray-50"
+          onClick={() => onChange([...stack, createOperation(addType)])}
+        >
+          Add
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Grouped params (e.g. per-channel Levels) get a tab strip showing one group at a time
+function ParamControls({ params, values, onChange }: { params: ParamDescriptor[]; values: OpParams; onChange: (key: string, v: ParamValue) => void }) {
+  const groups = [...new Set(params.map(d => d.group).filter((g): g is string => !!g))];
+  const [group, setGroup] = useState(groups[0]);
+  const visible = params.filter(d => !d.group || d.group === group);
+  return (
+    <>
+      {groups.length > 1 && (
+        <div className="flex items-center rounded border border-gray-300 overflow-hidden text-xs mb-1 w-fit">
+          {groups.map(g => (
+            <button
+              key={g}
+              type="button"
+              className={`px-2 py-0.5 ${g === group ? 'bg-blue-600 text-white' : 'hover:bg-gray-50'}`}
+              onClick={() => setGroup(g)}
+            >
+              {g}
+            </button>
+          ))}
+        </div>
+      )}
+      {visible.map(d => (
+        <ParamControl key={d.key} desc={d} value={values[d.key]} onChange={(v) => onChange(d.key, v)} />
+      ))}
+    </>
+  );
+}
+
+const CURVE_COLORS: Record<string, string> = { r: '#dc2626', g: '#16a34a', b: '#2563eb' };
+
+function ParamControl({ desc, value, onChange }: { desc: ParamDescriptor; value: ParamValue | undefined; onChange: (v: ParamValue) => void }) {
+  switch (desc.kind) {
+    case 'number':
+      return (
+        <Slider
+          label={desc.label}
+          min={desc.min}
+          max={desc.max}
+          step={desc.step}
+          value={typeof value === 'number' ? value : desc.default}
+          defaultValue={desc.default}
+          onChange={onChange}
+        />
+      );
+    case 'boolean':
+      return (
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            className="size-4"
+            checked={typeof value === 'boolean' ? value : desc.default}
+            onChange={(e) => onChange(e.target.checked)}
+          />
+          {desc.label}
+        </label>
+      );
+    case 'select':
+      return (
+        <label className="flex items-center justify-between gap-2 text-sm">
+          <span>{desc.label}</span>
+          <select
+            className="text-xs px-1 py-0.5 rounded border border-gray-300"
+            value={typeof value === 'string' ? value : desc.default}
+            onChange={(e) => onChange(e.target.value)}
+          >
+            {desc.options.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+          </select>
+        </label>
+      );
+    case 'curve':
+      return (
+        <CurveEditor
+          label={desc.label}
+          value={Array.isArray(value) ? value : desc.default}
+          onChange={onChange}
+          color={CURVE_COLORS[desc.key]}
+        />
+      );
+    case 'seed':
+      return <SeedInput label={desc.label} value={typeof value === 'number' ? value : desc.default} onChange={onChange} />;
+  }
+}
+
+function SeedInput({ label, value, onChange }: { label: string; value: number; onChange: (v: number) => void }) {
+  const [str, setStr] = useState(String(value));
+  const [prev, setPrev] = useState(value);
+  if (prev !== value) { // keep the text in sync with undo/redo and rerolls
+    setPrev(value);
+    setStr(String(value));
+  }
+  const commit = () => {
+    const n = Math.floor(Number(str));
+    if (Number.isFinite(n) && n >= 0 && n <= 0xffffffff) onChange(n);
+    else setStr(String(value));
+  };
+  return (
+    <div className="flex items-center justify-between gap-2 text-sm">
+      <span>{label}</span>
+      <div className="flex items-center gap-2">
+        <input
+          type="number"
+          inputMode="numeric"
+          min={0}
+          step={1}
+          value={str}
+          onChange={(e) => setStr(e.target.value)}
+          onBlur={commit}
+          onKeyDown={(e) => { if (e.key === 'Enter') (e.currentTarget as HTMLInputElement).blur(); }}
+          className="text-xs leading-none px-1.5 py-0.5 w-20 rounded border border-gray-300 text-right"
+          aria-label={`${label} numeric input`}
+        />
+        <IconButton title="New random seed" onClick={() => onChange(Math.floor(Math.random() * 1_000_000))}>🎲</IconButton>
+      </div>
+    </div>
+  );
+}
+
+function IconButton({ title, onClick, disabled, active, children }: { title: string; onClick: () => void; disabled?: boolean; active?: boolean; children: ReactNode }) {
+  return (
+    <button
+      type="button"
+      title={title}
+      aria-label={title}
+      onClick={onClick}
+      disabled={disabled}
+      className={`text-xs leading-none px-1.5 py-0.5 rounded border disabled:opacity-40 ${active ? 'bg-blue-600 border-blue-600 text-white' : 'border-gray-300 text-gray-700 hover:bg-gray-50'}`}
+    >
+      {children}
+    </button>
+  );
+}
@@ -0,0 +1,68 @@
+import type { RefObject } from 'react';
+import { rgbToHsv } from '../lib/imageOps';
+
+type Props = {
+  point: { x: number; y: number }; // preview pixel under the cursor
+  sourceRef: RefObject<HTMLCanvasElement | null>; // original preview proxy
+  processed: ImageData | null;
+};
+
+type Rgb = [number, number, number, number];
+
+function sourcePixel(canvas: HTMLCanvasElement | null, x: number, y: number): Rgb | null {
+  if (!canvas || x >= canvas.width || y >= canvas.height) return null;
+  const d = canvas.getContext('2d')!.getImageData(x, y, 1, 1).data;
+  return [d[0], d[1], d[2], d[3]];
+}
+
+function processedPixel(img: ImageData | null, x: number, y: number): Rgb | null {
+  if (!img || x >= img.width || y >= img.height) return null;
+  const i = (y * img.width + x) * 4;
+  return [img.data[i], img.data[i + 1], img.data[i + 2], img.data[i + 3]];
+}
+
+function Row({ label, px }: { label: string; px: Rgb | null }) {
+  if (!px) {
+    return (
+      <tr>
+        <td className="pr-2 text-gray-300">{label}</td>
+        <td colSpan={2} className="text-gray-400">–</td>
+      </tr>
+    );
+  }
+  const [r, g, b, a] = px;
+  const [h, s, v] = rgbToHsv(r, g, b);
+  return (
+    <tr>
+      <td className="pr-2 text-gray-300">{label}</td>
+      <td className="pr-3">
+        <span className="inline-block size-2.5 mr-1 align-middle border border-white/40" style={{ background: `rgb(${r} ${g} ${b})` }} />
+        {r} {g} {b}{a < 255 ? ` α${a}` : ''}
+      </td>
+      <td>{Math.round(h * 360)}° {Math.round(s * 100)}% {Math.round(v * 100)}%</td>
+    </tr>
+  );
+}
+
+// Coordinates and original vs processed values (RGB 0–255, HSV) of the hovered pixel
+export default function PixelInspector({ point, sourceRef, processed }: Props) {
+  const { x, y } = point;
+  return (
+    <div className="absolute left-2 bottom-2 z-10 pointer-events-none rounded bg-black/75 text-white text-[11px] px-2 py-1 tabular-nums">
+      <div className="text-gray-300">x {x}, y {y}</div>
+      <table>
+        <thead className="text-gray-400">
+          <tr>
+            <th />
+            <th className="text-left font-normal pr-3">RGB</th>
+            <th className="text-left font-normal">HSV</th>
+          </tr>
+        </thead>
+        <tbody>
+          <Row label="Original" px={sourcePixel(sourceRef.current, x, y)} />
+          <Row label="Processed" px={processedPixel(processed, x, y)} />
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+import { useEffect, useRef, useState } from 'react';
+import type { ChangeEvent } from 'react';
+import type { OpStack } from '../lib/imageOps';
+import type { Preset } from '../lib/presets';
+import {
+  builtInPresets,
+  loadUserPresets,
+  newPresetId,
+  parsePresetFile,
+  presetToStack,
+  saveUserPresets,
+  serializePresets,
+  stackToPresetOperations,
+} from '../lib/presets';
+
+type Props = {
+  stack: OpStack;
+  onApply: (stack: OpStack, presetName: string) => void;
+};
+
+const btn = 'text-xs px-2 py-1 rounded border border-gray-300 hover:bg-gray-50 disabled:opacity-50';
+
+function downloadText(text: string, filename: string) {
+  const url = URL.createObjectURL(new Blob([text], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export default function PresetsPanel({ stack, onApply }: Props) {
+  const [userPresets, setUserPresets] = useState<Preset[]>(loadUserPresets);
+  const [selectedId, setSelectedId] = useState<string>(builtInPresets[0].id);
+  const [name, setName] = useState('');
+  const [msg, setMsg] = useState<{ text: string; error?: boolean } | null>(null);
+  const importRef = useRef<HTMLInputElement | null>(null);
+
+  const all = [...builtInPresets, ...userPresets];
+  const selected = all.find(p => p.id === selectedId) ?? null;
+
+  useEffect(() => {
+    if (!msg) return;
+    const t = setTimeout(() => setMsg(null), 3000);
+    return () => clearTimeout(t);
+  }, [msg]);
+
+  const persist = (next: Preset[]) => {
+    setUserPresets(next);
+    try {
+      saveUserPresets(next);
+    } catch (e: unknown) {
+      setMsg({ text: e instanceof Error ? `Could not save presets: ${e.message}` : 'Could not save presets', error: true });
+    }
+  };
+
+  const saveNew = () => {
+    const n = name.trim();
+    if (!n) return;
+    const preset: Preset = { id: newPresetId(), name: n, operations: stackToPresetOperations(stack) };
+    persist([...userPresets, preset]);
+    setSelectedId(preset.id);
+    setName('');
+    setMsg({ text: `Saved "${n}"` });
+  };
+
+  const overwrite = () => {
+    if (!selected || selected.builtIn) return;
+    persist(userPresets.map(p => (p.id === selected.id ? { ...p, operations: stackToPresetOperations(stack) } : p)));
+    setMsg({ text: `Updated "${selected.name}"` });
+  };
+
+  const rename = () => {
+    const n = name.trim();
+    if (!selected || selected.builtIn || !n) return;
+    persist(userPresets.map(p => (p.id === selected.id ? { ...p, name: n } : p)));
+    setName('');
+  };
+
+  const remove = () => {
+    if (!selected || selected.builtIn) return;
+    persist(userPresets.filter(p => p.id !== selected.id));
+    setSelectedId(builtInPresets[0].id);
+  };
+
+  const exportPresets = (presets: Preset[], filename: string) => {
+    downloadText(serializePresets(presets), filename);
+  };
+
+  const onImportFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parsePresetFile(await file.text());
+      const added: Preset[] = imported.map(p => ({ id: newPresetId(), name: p.name, operations: p.operations }));
+      persist([...userPresets, ...added]);
+      if (added[0]) setSelectedId(added[0].id);
+      setMsg({ text: `Imported ${added.length} preset${added.length === 1 ? '' : 's'}` });
+    } catch (err: unknown) {
+      setMsg({ text: err instanceof Error ? `Import failed: ${err.message}` : 'Import failed', error: true });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="font-medium">Presets</p>
+      <div className="flex items-center gap-2">
+        <select
+          className="text-sm px-1 py-1 rounded border border-gray-300 flex-1 min-w-0"
+          value={selectedId}
+          onChange={(e) => setSelectedId(e.target.value)}
+          aria-label="Preset"
+        >
+          <optgroup label="Built-in">
+            {builtInPresets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </optgroup>
+          {userPresets.length > 0 && (
+            <optgroup label="My presets">
+              {userPresets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </optgroup>
+          )}
+        </select>
+        <button
+          type="button"
+          className={btn}
+          disabled={!selected}
+          onClick={() => selected && onApply(presetToStack(selected), selected.name)}
+          title="Replace the operation stack with this preset"
+        >
+          Apply
+        </button>
+      </div>
+      <div className="flex flex-wrap items-center gap-1">
+        <button type="button" className={btn} disabled={!selected || selected.builtIn} onClick={overwrite} title="Overwrite with the current stack">
+          Update
+        </button>
+        <button type="button" className={btn} disabled={!selected || selected.builtIn || !name.trim()} onClick={rename} title="Rename to the name below">
+          Rename
+        </button>
+        <button type="button" className={btn} disabled={!selected || selected.builtIn} onClick={remove}>
+          Delete
+        </button>
+        <button
+          type="button"
+          className={btn}
+          disabled={!selected}
+          onClick={() => selected && exportPresets([selected], `${selected.name.replace(/[^\w-]+/g, '_')}.json`)}
+          title="Export the selected preset as JSON"
+        >
+          Export
+        </button>
+        <button
+          type="button"
+          className={btn}
+          disabled={userPresets.length === 0}
+          onClick={() => exportPresets(userPresets, 'presets.json')}
+          title="Export all of my presets as JSON"
+        >
+          Export all
+        </button>
+        <button type="button" className={btn} onClick={() => importRef.current?.click()} title="Import presets from a JSON file">
+          Import…
+        </button>
+        <input ref={importRef} type="file" accept="application/json,.json" className="hidden" onChange={onImportFile} />
+      </div>
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') saveNew(); }}
+          placeholder="Preset name"
+          className="text-xs px-1.5 py-1 rounded border border-gray-300 flex-1 min-w-0"
+          aria-label="Preset name"
+        />
+        <button type="button" className={btn} disabled={!name.trim()} onClick={saveNew} title="Save the current stack as a new preset">
+          Save current
+        </button>
+      </div>
+      {msg && <p className={`text-xs ${msg.error ? 'text-red-600' : 'text-gray-600'}`}>{msg.text}</p>}
+    </div>
+  );
+}
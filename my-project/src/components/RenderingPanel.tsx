@@ -0,0 +1,146 @@
+import type { BackendPreference, BackendStatus, ParityReport, ParityStage } from '../lib/backend';
+import type { WorkingSpace } from '../lib/imageOps';
+import Slider from './Slider';
+
+type Props = {
+  preference: BackendPreference;
+  onPreferenceChange: (pref: BackendPreference) => void;
+  status: BackendStatus | null; // backend used for the last preview
+  dither: boolean;
+  onDitherChange: (on: boolean) => void;
+  workingSpace: WorkingSpace;
+  onWorkingSpaceChange: (space: WorkingSpace) => void;
+  preserveAlpha: boolean;
+  onPreserveAlphaChange: (on: boolean) => void;
+  colorSpace: PredefinedColorSpace;
+  onColorSpaceChange: (space: PredefinedColorSpace) => void;
+  p3Supported: boolean;
+  parityMode: boolean;
+  onParityModeChange: (on: boolean) => void;
+  tolerance: number;
+  onToleranceChange: (v: number) => void;
+  report: ParityReport | null;
+};
+
+const OPTIONS: [BackendPreference, string][] = [['auto', 'Auto'], ['cpu', 'CPU'], ['webgl', 'WebGL2']];
+const WORKING_SPACES: [WorkingSpace, string][] = [['linear', 'Linear light'], ['encoded', 'Gamma encoded']];
+const COLOR_SPACES: [PredefinedColorSpace, string][] = [['srgb', 'sRGB'], ['display-p3', 'Display P3']];
+
+function Segmented<T extends string>({ options, value, onChange, disabled }: { options: [T, string][]; value: T; onChange: (v: T) => void; disabled?: (v: T) => boolean }) {
+  return (
+    <div className="flex items-center rounded border border-gray-300 overflow-hidden text-xs">
+      {options.map(([v, label]) => (
+        <button
+          key={v}
+          type="button"
+          className={`px-2 py-1 disabled:opacity-50 ${value === v ? 'bg-blue-600 text-white' : 'hover:bg-gray-50'}`}
+          disabled={disabled?.(v)}
+          onClick={() => onChange(v)}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+type ParityResult = Extract<ParityReport, { ok: true }>;
+
+// The whole pipeline is judged on its own: small stage differences can still add up past the tolerance
+const parityPassed = (r: ParityResult) => r.total.pass && r.stages.every(s => s.pass);
+
+function parityFailures(r: ParityResult): string {
+  const failed = r.stages.filter(s => !s.pass).length;
+  return [failed > 0 ? `${failed} of ${r.stages.length} operations` : '', r.total.pass ? '' : 'the whole pipeline'].filter(Boolean).join(' and ');
+}
+
+function StageRow({ s }: { s: ParityStage }) {
+  return (
+    <tr className={s.pass ? '' : 'text-red-600'}>
+      <td className="pr-2 truncate max-w-[9rem]" title={s.gpu ? undefined : 'No shader for this operation; the WebGL2 backend runs it on the CPU'}>
+        {s.label}{s.gpu ? '' : ' *'}
+      </td>
+      <td className="pr-2 text-right">{s.maxDiff}</td>
+      <td className="pr-2 text-right">{s.meanDiff.toFixed(2)}</td>
+      <td className="pr-2 text-right">{s.overPct.toFixed(1)}%</td>
+      <td>{s.pass ? 'pass' : 'fail'}</td>
+    </tr>
+  );
+}
+
+// Backend selection, colour handling, output dithering and the CPU/WebGL2 parity check
+export default function RenderingPanel({ preference, onPreferenceChange, status, dither, onDitherChange, workingSpace, onWorkingSpaceChange, preserveAlpha, onPreserveAlphaChange, colorSpace, onColorSpaceChange, p3Supported, parityMode, onParityModeChange, tolerance, onToleranceChange, report }: Props) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="font-medium">Rendering</p>
+        <Segmented options={OPTIONS} value={preference} onChange={onPreferenceChange} />
+      </div>
+      {status && (
+        <p className="text-xs text-gray-500">
+          Preview rendered on {status.kind === 'webgl' ? 'WebGL2' : 'CPU'}
+          {status.fallback && <span className="text-amber-700"> (fallback: {status.fallback})</span>}
+        </p>
+      )}
+
+      <div className="flex items-center justify-between text-sm" title="Blur and noise on linear light keep edges and grain from darkening; exposure always uses linear light">
+        <span>Blur &amp; noise</span>
+        <Segmented options={WORKING_SPACES} value={workingSpace} onChange={onWorkingSpaceChange} />
+      </div>
+      <div className="flex items-center justify-between text-sm" title={p3Supported ? 'Colour space of the canvases, pipeline and exports; Display P3 keeps wide-gamut colours' : 'This browser\'s canvases only support sRGB'}>
+        <span>Colour space</span>
+        <Segmented options={COLOR_SPACES} value={colorSpace} onChange={onColorSpaceChange} disabled={(v) => v === 'display-p3' && !p3Supported} />
+      </div>
+
+      <label className="flex items-center gap-2 text-sm" title="Operations run at float precision; this adds faint noise when converting the result to 8-bit, hiding banding in smooth gradients">
+        <input type="checkbox" className="size-4" checked={dither} onChange={(e) => onDitherChange(e.target.checked)} />
+        Dither 8-bit output
+      </label>
+      <label className="flex items-center gap-2 text-sm" title="Blurs and lens effects still weight colour by alpha, but keep each pixel's transparency instead of spreading it">
+        <input type="checkbox" className="size-4" checked={preserveAlpha} onChange={(e) => onPreserveAlphaChange(e.target.checked)} />
+        Leave alpha untouched
+      </label>
+      <label className="flex items-center gap-2 text-sm">
+        <input type="checkbox" className="size-4" checked={parityMode} onChange={(e) => onParityModeChange(e.target.checked)} />
+        Parity test
+      </label>
+      {parityMode && (
+        <>
+          <Slider label="Tolerance (levels)" min={0} max={16} value={tolerance} defaultValue={2} onChange={onToleranceChange} />
+          {!report ? (
+            <p className="text-xs text-gray-500">Runs with the next preview update…</p>
+          ) : !report.ok ? (
+            <p className="text-xs text-red-600">Parity test failed to run: {report.error}</p>
+          ) : (
+            <div className="text-xs space-y-1">
+              <p className={parityPassed(report) ? 'text-green-700' : 'text-red-600'}>
+                {parityPassed(report)
+                  ? `All ${report.stages.length} operations and the whole pipeline within ±${report.tolerance}`
+                  : `Beyond ±${report.tolerance}: ${parityFailures(report)}`}
+              </p>
+              <table className="w-full tabular-nums">
+                <thead className="text-gray-500">
+                  <tr>
+                    <th className="text-left font-normal">Stage</th>
+                    <th className="text-right font-normal pr-2">Max</th>
+                    <th className="text-right font-normal pr-2">Mean</th>
+                    <th className="text-right font-normal pr-2">Over</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.stages.map((s, i) => <StageRow key={i} s={s} />)}
+                  <StageRow s={report.total} />
+                </tbody>
+              </table>
+              <p className="text-gray-500">
+                Whole pipeline: CPU {Math.round(report.cpuMs)} ms, WebGL2 {Math.round(report.gpuMs)} ms
+                {report.stages.some(s => !s.gpu) && ' · * runs on the CPU in both backends'}
+              </p>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import { useEffect, useState } from 'react';
+import type { SessionRecord } from '../lib/session';
+
+type Props = {
+  sessions: SessionRecord[];
+  currentId: string | null;
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+  onClear: () => void;
+};
+
+const btn = 'text-xs px-2 py-1 rounded border border-gray-300 hover:bg-gray-50 disabled:opacity-50';
+
+function formatTime(t: number): string {
+  const d = new Date(t);
+  return d.toDateString() === new Date().toDateString()
+    ? d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : d.toLocaleDateString();
+}
+
+// Object URLs for the stored thumbnails, revoked when the list changes
+function useThumbnailUrls(sessions: SessionRecord[]): Map<string, string> {
+  const [urls, setUrls] = useState<Map<string, string>>(new Map());
+  useEffect(() => {
+    const next = new Map<string, string>();
+    for (const s of sessions) if (s.thumbnail) next.set(s.id, URL.createObjectURL(s.thumbnail));
+    setUrls(next);
+    return () => next.forEach(u => URL.revokeObjectURL(u));
+  }, [sessions]);
+  return urls;
+}
+
+// Recently opened images saved in the browser; the current one is restored on reload
+export default function SessionsPanel({ sessions, currentId, onOpen, onDelete, onClear }: Props) {
+  const urls = useThumbnailUrls(sessions);
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="font-medium">Recent sessions</p>
+        <button
+          type="button"
+          className={btn}
+          disabled={sessions.length === 0}
+          onClick={() => { if (window.confirm('Remove all stored images and edits from this browser?')) onClear(); }}
+          title="Delete the stored images, edits and thumbnails"
+        >
+          Clear stored data
+        </button>
+      </div>
+      {sessions.length === 0 ? (
+        <p className="text-xs text-gray-500">Opened images and their edits are saved in this browser.</p>
+      ) : (
+        <ul className="space-y-1">
+          {sessions.map(s => (
+            <li key={s.id} className={`flex items-center gap-2 rounded p-1 ${s.id === currentId ? 'bg-blue-50' : 'hover:bg-gray-50'}`}>
+              <button type="button" className="flex items-center gap-2 flex-1 min-w-0 text-left" onClick={() => onOpen(s.id)} disabled={s.id === currentId}>
+                {urls.has(s.id) ? (
+                  <img src={urls.get(s.id)} alt="" className="size-10 object-contain rounded bg-gray-100 shrink-0" />
+                ) : (
+                  <div className="size-10 rounded bg-gray-100 shrink-0" />
+                )}
+                <span className="min-w-0">
+                  <span className="block text-xs truncate">{s.fileName}</span>
+                  <span className="block text-[11px] text-gray-500">{s.id === currentId ? 'Open' : formatTime(s.updatedAt)}</span>
+                </span>
+              </button>
+              <button
+                type="button"
+                className="text-xs px-1.5 text-gray-500 hover:text-red-600"
+                onClick={() => onDelete(s.id)}
+                aria-label={`Remove ${s.fileName}`}
+                title="Remove from recent sessions"
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import React from 'react';
+
+type SliderProps = {
+  label: string;
+  min: number;
+  max: number;
+  step?: number;
+  value: number;
+  defaultValue: number;
+  onChange: (v: number) => void;
+};
+
+export default function Slider({ label, min, max, step = 1, value, defaultValue, onChange }: SliderProps) {
+  const isDefault = value === defaultValue;
+  const displayValue = Number.isFinite(value)
+    ? (step < 1 ? Math.round(value * (1 / step)) / (1 / step) : Math.round(value))
+    : 0;
+
+  const [inputStr, setInputStr] = React.useState<string>(String(displayValue));
+
+  // Keep the text input in sync when external value changes
+  React.useEffect(() => {
+    setInputStr(String(displayValue));
+  }, [displayValue]);
+
+  const commit = React.useCallback((raw: string) => {
+    const n = parseFloat(raw);
+    if (Number.isNaN(n)) {
+      // Revert to current value on invalid input
+      setInputStr(String(displayValue));
+      return;
+    }
+    let v = n;
+    if (v < min) v = min;
+    if (v > max) v = max;
+    onChange(v);
+    setInputStr(String(step < 1 ? Math.round(v * (1 / step)) / (1 / step) : Math.round(v)));
+  }, [min, max, onChange, step, displayValue]);
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between gap-2">
+        <label className="text-sm select-none">{label}</label>
+        <div className="flex items-center gap-2">
+          <input
+            type="number"
+            inputMode={step < 1 ? 'decimal' : 'numeric'}
+            step={step}
+            min={min}
+            max={max}
+            value={inputStr}
+            onChange={(e) => {
+              const s = e.target.value;
+              setInputStr(s);
+              const n = parseFloat(s);
+              if (!Number.isNaN(n)) {
+                let v = n;
+                if (v < min) v = min;
+                if (v > max) v = max;
+                onChange(v);
+              }
+            }}
+            onBlur={(e) => commit(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') (e.currentTarget as HTMLInputElement).blur(); }}
+            className="text-xs leading-none px-1.5 py-0.5 w-12 rounded border border-gray-300 text-right"
+            aria-label={`${label} numeric input`}
+          />
+          <button
+            type="button"
+            title="Reset to default"
+            aria-label={`Reset ${label} to ${defaultValue}`}
+            onClick={() => onChange(defaultValue)}
+            className={`text-xs leading-none px-1.5 py-0.5 rounded border transition-colors ${isDefault ? 'text-gray-400 border-gray-200' : 'text-gray-700 border-gray-300 hover:bg-gray-50'}`}
+          >
+            ↺
+          </button>
+        </div>
+      </div>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={Number.isFinite(value) ? value : 0}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        className="w-full accent-blue-600"
+      />
+      <div className="flex justify-between text-[10px] text-gray-500">
+        <span>{min}</span>
+        <span>{max}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+import { useEffect, useState } from 'react';
+import type { ResizeTarget, Transform } from '../lib/geometry';
+import { flipCrop, IDENTITY_TRANSFORM, isIdentityTransform, MAX_OUTPUT_DIM, MAX_STRAIGHTEN, rotateCrop, transformedSize } from '../lib/geometry';
+import Slider from './Slider';
+
+type Props = {
+  transform: Transform;
+  onChange: (next: Transform) => void;
+  srcDims: { w: number; h: number } | null; // full-resolution original
+  cropping: boolean;
+  onStartCrop: () => void;
+  onApplyCrop: () => void;
+  onCancelCrop: () => void;
+  cropAspect: number | null; // pixel w/h, null = free
+  onCropAspectChange: (ratio: number | null) => void;
+  originalAspect: number; // of the rotated frame
+};
+
+const btn = 'text-xs px-2 py-1 rounded border border-gray-300 hover:bg-gray-50 disabled:opacity-50';
+
+const ASPECTS: { label: string; ratio: number }[] = [
+  { label: '1:1', ratio: 1 },
+  { label: '4:5', ratio: 4 / 5 },
+  { label: '16:9', ratio: 16 / 9 },
+];
+
+const sameRatio = (a: number | null, b: number | null) => a !== null && b !== null && Math.abs(a - b) < 1e-6;
+
+export default function TransformPanel({
+  transform: t, onChange, srcDims, cropping, onStartCrop, onApplyCrop, onCancelCrop, cropAspect, onCropAspectChange, originalAspect,
+}: Props) {
+  const disabled = !srcDims;
+  const out = srcDims ? transformedSize(srcDims.w, srcDims.h, t) : null;
+
+  const rotate = (clockwise: boolean) => onChange({
+    ...t,
+    rotate: ((t.rotate + (clockwise ? 1 : 3)) % 4) as Transform['rotate'],
+    crop: t.crop && rotateCrop(t.crop, clockwise),
+  });
+  const flip = (horizontal: boolean) => onChange({
+    ...t,
+    flipH: horizontal ? !t.flipH : t.flipH,
+    flipV: horizontal ? t.flipV : !t.flipV,
+    crop: t.crop && flipCrop(t.crop, horizontal),
+  });
+
+  // Resize input is edited locally and committed on Enter/blur
+  const [edge, setEdge] = useState<ResizeTarget['edge']>(t.resize?.edge ?? 'width');
+  const [px, setPx] = useState(t.resize ? String(t.resize.px) : '');
+  useEffect(() => {
+    setEdge(t.resize?.edge ?? 'width');
+    setPx(t.resize ? String(t.resize.px) : '');
+  }, [t.resize]);
+  const commitResize = (nextEdge = edge) => {
+    const n = Math.round(Number(px));
+    if (!px.trim() || !Number.isFinite(n) || n < 1) {
+      if (t.resize) onChange({ ...t, resize: null });
+      setPx('');
+      return;
+    }
+    const v = Math.min(MAX_OUTPUT_DIM, n);
+    if (t.resize?.edge !== nextEdge || t.resize.px !== v) onChange({ ...t, resize: { edge: nextEdge, px: v } });
+  };
+
+  // Portrait/landscape swap of the chosen preset
+  const swapped = cropAspect !== null && !ASPECTS.some(a => sameRatio(a.ratio, cropAspect)) && ASPECTS.some(a => sameRatio(1 / a.ratio, cropAspect));
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <p className="font-medium">Transform</p>
+        <button type="button" className={btn} onClick={() => onChange(IDENTITY_TRANSFORM)} disabled={disabled || cropping || isIdentityTransform(t)}>
+          Reset
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        <button type="button" className={btn} onClick={() => rotate(false)} disabled={disabled || cropping} title="Rotate 90° counter-clockwise">⟲ 90°</button>
+        <button type="button" className={btn} onClick={() => rotate(true)} disabled={disabled || cropping} title="Rotate 90° clockwise">⟳ 90°</button>
+        <button type="button" className={`${btn} ${t.flipH ? 'bg-gray-200' : ''}`} onClick={() => flip(true)} disabled={disabled || cropping}>⇆ Flip H</button>
+        <button type="button" className={`${btn} ${t.flipV ? 'bg-gray-200' : ''}`} onClick={() => flip(false)} disabled={disabled || cropping}>⇅ Flip V</button>
+      </div>
+
+      <Slider
+        label="Straighten (°)"
+        min={-MAX_STRAIGHTEN}
+        max={MAX_STRAIGHTEN}
+        step={0.1}
+        value={t.straighten}
+        defaultValue={0}
+        onChange={(v) => onChange({ ...t, straighten: Math.round(v * 10) / 10 })}
+      />
+
+      <div className="space-y-1">
+        <div className="flex items-center justify-between">
+          <span className="text-sm">Crop</span>
+          {cropping ? (
+            <span className="flex gap-1">
+              <button type="button" className={btn} onClick={onApplyCrop}>Apply</button>
+              <button type="button" className={btn} onClick={onCancelCrop}>Cancel</button>
+            </span>
+          ) : (
+            <span className="flex gap-1">
+              <button type="button" className={btn} onClick={onStartCrop} disabled={disabled}>{t.crop ? 'Edit crop' : 'Crop…'}</button>
+              {t.crop && <button type="button" className={btn} onClick={() => onChange({ ...t, crop: null })}>Clear</button>}
+            </span>
+          )}
+        </div>
+        {cropping && (
+          <div className="flex flex-wrap items-center gap-1">
+            <div className="flex items-center rounded border border-gray-300 overflow-hidden text-xs">
+              <button
+                type="button"
+                className={`px-2 py-0.5 ${cropAspect === null ? 'bg-blue-600 text-white' : 'hover:bg-gray-50'}`}
+                onClick={() => onCropAspectChange(null)}
+              >
+                Free
+              </button>
+              <button
+                type="button"
+                className={`px-2 py-0.5 ${sameRatio(cropAspect, originalAspect) ? 'bg-blue-600 text-white' : 'hover:bg-gray-50'}`}
+                onClick={() => onCropAspectChange(originalAspect)}
+              >
+                Original
+              </button>
+              {ASPECTS.map(a => {
+                const active = sameRatio(cropAspect, a.ratio) || sameRatio(cropAspect, 1 / a.ratio);
+                return (
+                  <button
+                    key={a.label}
+                    type="button"
+                    className={`px-2 py-0.5 ${active ? 'bg-blue-600 text-white' : 'hover:bg-gray-50'}`}
+                    onClick={() => onCropAspectChange(swapped ? 1 / a.ratio : a.ratio)}
+                  >
+                    {a.label}
+                  </button>
+                );
+              })}
+            </div>
+            <button
+              type="button"
+              className={btn}
+              onClick={() => cropAspect !== null && onCropAspectChange(1 / cropAspect)}
+              disabled={cropAspect === null || cropAspect === 1}
+              title="Swap portrait / landscape"
+            >
+              ⇄
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm">Resize</span>
+        <span className="flex items-center gap-1">
+          <select
+            className="text-xs px-1 py-0.5 rounded border border-gray-300"
+            value={edge}
+            onChange={(e) => {
+              const next = e.target.value as ResizeTarget['edge'];
+              setEdge(next);
+              if (t.resize) commitResize(next);
+            }}
+            disabled={disabled}
+            aria-label="Resize edge"
+          >
+            <option value="width">Width</option>
+            <option value="height">Height</option>
+          </select>
+          <input
+            type="number"
+            min={1}
+            max={MAX_OUTPUT_DIM}
+            className="text-xs px-1.5 py-0.5 w-16 rounded border border-gray-300 text-right"
+            value={px}
+            placeholder="px"
+            onChange={(e) => setPx(e.target.value)}
+            onBlur={() => commitResize()}
+            onKeyDown={(e) => { if (e.key === 'Enter') (e.currentTarget as HTMLInputElement).blur(); }}
+            disabled={disabled}
+            aria-label="Target size in pixels"
+          />
+        </span>
+      </div>
+
+      {out && srcDims && (
+        <p className="text-xs text-gray-500">
+          Output: {out.w} × {out.h} px{out.w !== srcDims.w || out.h !== srcDims.h ? ` (from ${srcDims.w} × ${srcDims.h})` : ''}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,369 @@
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import type { PointerEvent as ReactPointerEvent, ReactNode, RefObject } from 'react';
+import Navigator from './Navigator';
+import PixelInspector from './PixelInspector';
+
+export type CompareMode = 'off' | 'split' | 'side';
+// What shows through transparent pixels; 'custom' uses `backgroundColor`
+export type ViewerBackground = 'checker' | 'white' | 'black' | 'custom';
+
+// Checker squares stay the same size on screen at any zoom
+const CHECKER = 'repeating-conic-gradient(#d1d5db 0 25%, #ffffff 0 50%) 0 0 / 16px 16px';
+
+function backgroundStyle(bg: ViewerBackground, color: string): string {
+  if (bg === 'checker') return CHECKER;
+  return bg === 'custom' ? color : bg;
+}
+
+type Props = {
+  dims: { w: number; h: number };
+  colorSpace: PredefinedColorSpace; // of the source and processed canvases
+  zoom: number;
+  canvasRef: RefObject<HTMLCanvasElement | null>; // processed output, painted by the editor
+  sourceRef: RefObject<HTMLCanvasElement | null>; // original preview proxy
+  mode: CompareMode;
+  split: number; // 0..1, share of the width showing the original in split mode
+  onSplitChange: (split: number) => void;
+  showOriginal: boolean; // press-and-hold override
+  overlay?: ImageData | null; // drawn over the processed image, e.g. clipping warnings
+  background: ViewerBackground;
+  backgroundColor: string; // CSS colour for the 'custom' background
+  onZoomChange: (zoom: number) => number; // wheel and pinch zoom; returns the (clamped) zoom applied
+  processed: ImageData | null; // last frame painted to canvasRef, for the inspector and navigator
+  inspector: boolean; // show values of the pixel under the pointer
+  children?: ReactNode; // interactive layer over the processed image, e.g. the crop tool
+};
+
+// Zoom anchor: preview pixel (x, y) stays under point (vx, vy) of `pane`
+type Anchor = { pane: HTMLDivElement; x: number; y: number; vx: number; vy: number };
+type ScrollBox = { left: number; top: number; width: number; height: number };
+type Point = { x: number; y: number };
+
+// Safari's trackpad pinch (other browsers send ctrl+wheel)
+type GestureEvent = UIEvent & { scale: number; clientX: number; clientY: number };
+
+const isTyping = (t: EventTarget | null) =>
+  t instanceof HTMLElement && (t.isContentEditable || !!t.closest('input, textarea, select, button, a'));
+
+// Processed canvas with before/after comparison. The DOM structure is the same
+// in every mode so the processed canvas is never remounted (and never loses pixels).
+//
+// Navigation: the wheel (or a pinch) zooms around the pointer, space-drag,
+// middle-drag or a finger on the image pans, two fingers pinch and pan.
+export default function Viewer({ dims, colorSpace, zoom, canvasRef, sourceRef, mode, split, onSplitChange, showOriginal, overlay, background, backgroundColor, onZoomChange, processed, inspector, children }: Props) {
+  const overlayRef = useRef<HTMLCanvasElement | null>(null);
+  const markRef = useRef<HTMLCanvasElement | null>(null);
+  const sideRef = useRef<HTMLCanvasElement | null>(null);
+  const leftPaneRef = useRef<HTMLDivElement | null>(null);
+  const rightPaneRef = useRef<HTMLDivElement | null>(null);
+  const onZoomRef = useRef(onZoomChange);
+  onZoomRef.current = onZoomChange;
+
+  // Visible part of the processed pane. The ref is read when the zoom changes,
+  // before the browser clamps the scroll position to the new size.
+  const [box, setBox] = useState<ScrollBox>({ left: 0, top: 0, width: 0, height: 0 });
+  const boxRef = useRef(box);
+  const measure = useCallback(() => {
+    const pane = rightPaneRef.current;
+    if (!pane) return;
+    boxRef.current = { left: pane.scrollLeft, top: pane.scrollTop, width: pane.clientWidth, height: pane.clientHeight };
+    setBox(boxRef.current);
+  }, []);
+  useEffect(() => {
+    const pane = rightPaneRef.current;
+    if (!pane) return;
+    const ro = new ResizeObserver(measure);
+    ro.observe(pane);
+    return () => ro.disconnect();
+  }, [measure]);
+
+  // Keep the anchor (the pointer for wheel and pinch, otherwise the view centre) in place
+  const zoomRef = useRef(zoom); // zoom currently laid out
+  const targetRef = useRef<number | null>(null); // requested but not yet rendered, so fast wheel events accumulate
+  const anchorRef = useRef<Anchor | null>(null);
+  useLayoutEffect(() => {
+    const prev = zoomRef.current;
+    zoomRef.current = zoom;
+    const a = anchorRef.current;
+    anchorRef.current = null;
+    targetRef.current = null;
+    const pane = a?.pane ?? rightPaneRef.current;
+    if (prev === zoom || !pane) return;
+    const b = boxRef.current;
+    const { x, y, vx, vy } = a ?? { x: (b.left + b.width / 2) / prev, y: (b.top + b.height / 2) / prev, vx: b.width / 2, vy: b.height / 2 };
+    pane.scrollLeft = x * zoom - vx;
+    pane.scrollTop = y * zoom - vy;
+    measure();
+  }, [zoom, measure]);
+
+  const zoomBy = useCallback((pane: HTMLDivElement, clientX: number, clientY: number, factor: number) => {
+    const r = pane.getBoundingClientRect();
+    const vx = clientX - r.left, vy = clientY - r.top, z = zoomRef.current;
+    anchorRef.current = { pane, vx, vy, x: (pane.scrollLeft + vx) / z, y: (pane.scrollTop + vy) / z };
+    const applied = onZoomRef.current((targetRef.current ?? z) * factor);
+    targetRef.current = applied;
+    if (applied === z) anchorRef.current = null; // at a limit: nothing will re-render
+  }, []);
+
+  useEffect(() => {
+    const panes = [leftPaneRef.current, rightPaneRef.current].filter((p): p is HTMLDivElement => !!p);
+    const onWheel = (e: WheelEvent) => {
+      const pane = e.currentTarget as HTMLDivElement;
+      e.preventDefault();
+      const px = e.deltaMode === 1 ? 16 : e.deltaMode === 2 ? pane.clientHeight : 1;
+      // Trackpad pinches arrive as ctrl+wheel with small deltas
+      const rate = e.ctrlKey ? 0.01 : 0.002;
+      zoomBy(pane, e.clientX, e.clientY, Math.exp(-e.deltaY * px * rate));
+    };
+    let lastScale = 1;
+    const onGestureStart = (e: Event) => {
+      e.preventDefault();
+      lastScale = 1;
+    };
+    const onGestureChange = (e: Event) => {
+      const g = e as GestureEvent;
+      e.preventDefault();
+      zoomBy(e.currentTarget as HTMLDivElement, g.clientX, g.clientY, g.scale / lastScale);
+      lastScale = g.scale;
+    };
+    for (const p of panes) {
+      p.addEventListener('wheel', onWheel, { passive: false });
+      p.addEventListener('gesturestart', onGestureStart);
+      p.addEventListener('gesturechange', onGestureChange);
+    }
+    return () => {
+      for (const p of panes) {
+        p.removeEventListener('wheel', onWheel);
+        p.removeEventListener('gesturestart', onGestureStart);
+        p.removeEventListener('gesturechange', onGestureChange);
+      }
+    };
+  }, [zoomBy]);
+
+  // Holding space turns the pointer into a hand (unless a control has focus)
+  const [spaceHeld, setSpaceHeld] = useState(false);
+  useEffect(() => {
+    const down = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e.target)) return;
+      e.preventDefault(); // no page scroll
+      setSpaceHeld(true);
+    };
+    const up = (e: KeyboardEvent) => { if (e.code === 'Space') setSpaceHeld(false); };
+    const blur = () => setSpaceHeld(false);
+    window.addEventListener('keydown', down);
+    window.addEventListener('keyup', up);
+    window.addEventListener('blur', blur);
+    return () => {
+      window.removeEventListener('keydown', down);
+      window.removeEventListener('keyup', up);
+      window.removeEventListener('blur', blur);
+    };
+  }, []);
+
+  const [panning, setPanning] = useState(false);
+  const panRef = useRef<{ id: number; x: number; y: number } | null>(null);
+  const touchesRef = useRef(new Map<number, Point>());
+
+  // Capture phase, so panning and pinching take the pointer before the crop or mask tools see it
+  const onPanStart = (e: ReactPointerEvent<HTMLDivElement>) => {
+    const pane = e.currentTarget;
+    const touches = touchesRef.current;
+    if (e.pointerType === 'touch') {
+      touches.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      if (touches.size === 2) {
+        e.stopPropagation();
+        pane.setPointerCapture(e.pointerId);
+        // The first finger may have started a crop or mask drag; cancel it so the pinch doesn't also edit
+        for (const id of touches.keys()) {
+          if (id !== e.pointerId) window.dispatchEvent(new PointerEvent('pointercancel', { pointerId: id }));
+        }
+        panRef.current = null;
+        setPanning(false);
+        return;
+      }
+      if (!(e.target instanceof HTMLCanvasElement)) return; // a tool layer is under the finger
+    } else if (!(e.button === 1 || (e.button === 0 && spaceHeld))) {
+      return;
+    }
+    e.preventDefault(); // also stops middle-click autoscroll
+    e.stopPropagation();
+    pane.setPointerCapture(e.pointerId);
+    panRef.current = { id: e.pointerId, x: e.clientX, y: e.clientY };
+    setPanning(true);
+  };
+
+  const onPanMove = (e: ReactPointerEvent<HTMLDivElement>) => {
+    const pane = e.currentTarget;
+    const touches = touchesRef.current;
+    if (touches.has(e.pointerId) && touches.size === 2) {
+      const [a0, b0] = [...touches.values()];
+      touches.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      const [a1, b1] = [...touches.values()];
+      const d0 = Math.hypot(a0.x - b0.x, a0.y - b0.y), d1 = Math.hypot(a1.x - b1.x, a1.y - b1.y);
+      const mx = (a1.x + b1.x) / 2, my = (a1.y + b1.y) / 2;
+      pane.scrollLeft -= mx - (a0.x + b0.x) / 2;
+      pane.scrollTop -= my - (a0.y + b0.y) / 2;
+      if (d0 > 0) zoomBy(pane, mx, my, d1 / d0);
+      return;
+    }
+    if (touches.has(e.pointerId)) touches.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    const p = panRef.current;
+    if (!p || p.id !== e.pointerId) return;
+    pane.scrollLeft -= e.clientX - p.x;
+    pane.scrollTop -= e.clientY - p.y;
+    p.x = e.clientX;
+    p.y = e.clientY;
+  };
+
+  const onPanEnd = (e: ReactPointerEvent<HTMLDivElement>) => {
+    touchesRef.current.delete(e.pointerId);
+    if (panRef.current?.id === e.pointerId) {
+      panRef.current = null;
+      setPanning(false);
+    }
+  };
+
+  // Preview pixel under the pointer, for the inspector
+  const [hover, setHover] = useState<Point | null>(null);
+  const onHover = (e: ReactPointerEvent<HTMLDivElement>) => {
+    if (!inspector || e.pointerType === 'touch') return;
+    const r = e.currentTarget.getBoundingClientRect();
+    const x = Math.floor((e.clientX - r.left) / zoom), y = Math.floor((e.clientY - r.top) / zoom);
+    setHover(x >= 0 && y >= 0 && x < dims.w && y < dims.h ? { x, y } : null);
+  };
+
+  const navigate = (x: number, y: number) => {
+    const pane = rightPaneRef.current;
+    if (!pane) return;
+    pane.scrollLeft = x * zoom - pane.clientWidth / 2;
+    pane.scrollTop = y * zoom - pane.clientHeight / 2;
+  };
+  const overflows = dims.w * zoom > box.width + 1 || dims.h * zoom > box.height + 1;
+
+  // Copy the original into the comparison canvases whenever a new image is loaded
+  useEffect(() => {
+    const src = sourceRef.current;
+    if (!src) return;
+    for (const c of [overlayRef.current, sideRef.current]) {
+      if (!c) continue;
+      c.width = dims.w;
+      c.height = dims.h;
+      const ctx = c.getContext('2d', { colorSpace })!;
+      ctx.clearRect(0, 0, dims.w, dims.h);
+      ctx.drawImage(src, 0, 0);
+    }
+  }, [dims, sourceRef, colorSpace]);
+
+  useEffect(() => {
+    const c = markRef.current;
+    if (!c || !overlay) return;
+    c.width = overlay.width;
+    c.height = overlay.height;
+    c.getContext('2d')!.putImageData(overlay, 0, 0);
+  }, [overlay]);
+
+  // Mirror scroll position between the side-by-side panes
+  const onScroll = (from: HTMLDivElement | null, to: HTMLDivElement | null) => {
+    if (from === rightPaneRef.current) measure();
+    if (mode !== 'side' || !from || !to) return;
+    if (to.scrollLeft === from.scrollLeft && to.scrollTop === from.scrollTop) return;
+    to.scrollLeft = from.scrollLeft;
+    to.scrollTop = from.scrollTop;
+  };
+
+  const dragSplit = (e: ReactPointerEvent<HTMLDivElement>) => {
+    const box = e.currentTarget.parentElement!.getBoundingClientRect();
+    const move = (ev: PointerEvent) => {
+      onSplitChange(Math.min(1, Math.max(0, (ev.clientX - box.left) / box.width)));
+    };
+    const up = () => {
+      window.removeEventListener('pointermove', move);
+      window.removeEventListener('pointerup', up);
+    };
+    window.addEventListener('pointermove', move);
+    window.addEventListener('pointerup', up);
+    e.preventDefault();
+  };
+
+  const size = { width: `${dims.w * zoom}px`, height: `${dims.h * zoom}px` };
+  // On each image canvas (not the pane), so the split overlay hides the processed image's transparency too
+  const fill = { width: '100%', height: '100%', display: 'block', background: backgroundStyle(background, backgroundColor) };
+  const overlayVisible = showOriginal || mode === 'split';
+  const clip = showOriginal ? 'none' : `inset(0 ${(1 - split) * 100}% 0 0)`;
+  const pan = {
+    onPointerDownCapture: onPanStart,
+    onPointerMove: onPanMove,
+    onPointerUp: onPanEnd,
+    onPointerCancel: onPanEnd,
+    style: { touchAction: 'none', cursor: panning ? 'grabbing' : undefined },
+  };
+  // While space is held this covers the tools, so a drag pans instead of painting or cropping
+  const hand = spaceHeld && <div className={`absolute inset-0 z-20 ${panning ? 'cursor-grabbing' : 'cursor-grab'}`} />;
+
+  return (
+    <div className="flex gap-2 w-full h-full min-h-0">
+      <div
+        ref={leftPaneRef}
+        onScroll={() => onScroll(leftPaneRef.current, rightPaneRef.current)}
+        className={`flex-1 min-w-0 overflow-auto ${mode === 'side' ? '' : 'hidden'}`}
+        {...pan}
+      >
+        <div className="relative shrink-0" style={size} onPointerMove={onHover} onPointerLeave={() => setHover(null)}>
+          <canvas ref={sideRef} style={fill} />
+          <span className="absolute top-1 left-1 text-[10px] px-1 rounded bg-black/60 text-white">Original</span>
+          {hand}
+        </div>
+      </div>
+      <div className="relative flex-1 min-w-0 flex">
+        <div
+          ref={rightPaneRef}
+          onScroll={() => onScroll(rightPaneRef.current, leftPaneRef.current)}
+          className="flex-1 min-w-0 overflow-auto"
+          {...pan}
+        >
+          <div className="relative shrink-0" style={size} onPointerMove={onHover} onPointerLeave={() => setHover(null)}>
+            <canvas ref={canvasRef} style={fill} />
+            <canvas
+              ref={markRef}
+              className="absolute inset-0 pointer-events-none"
+              style={{ width: '100%', height: '100%', display: overlay ? 'block' : 'none' }}
+            />
+            <canvas
+              ref={overlayRef}
+              className="absolute inset-0 pointer-events-none"
+              style={{ ...fill, display: overlayVisible ? 'block' : 'none', clipPath: clip }}
+            />
+            {mode === 'split' && !showOriginal && (
+              <div
+                className="absolute top-0 bottom-0 w-4 -ml-2 cursor-ew-resize flex justify-center touch-none"
+                style={{ left: `${split * 100}%` }}
+                onPointerDown={dragSplit}
+                role="slider"
+                aria-label="Before/after split"
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={Math.round(split * 100)}
+                tabIndex={0}
+                onKeyDown={(e) => {
+                  if (e.key === 'ArrowLeft') onSplitChange(Math.max(0, split - 0.05));
+                  if (e.key === 'ArrowRight') onSplitChange(Math.min(1, split + 0.05));
+                }}
+              >
+                <div className="w-0.5 h-full bg-white shadow-[0_0_2px_rgba(0,0,0,0.8)]" />
+              </div>
+            )}
+            {(mode !== 'off' || showOriginal) && (
+              <span className="absolute top-1 right-1 text-[10px] px-1 rounded bg-black/60 text-white">
+                {showOriginal ? 'Original' : mode === 'split' ? 'Original | Processed' : 'Processed'}
+              </span>
+            )}
+            {children}
+            {hand}
+          </div>
+        </div>
+        {overflows && <Navigator imageRef={canvasRef} painted={processed} dims={dims} zoom={zoom} view={box} onNavigate={navigate} />}
+        {inspector && hover && <PixelInspector point={hover} sourceRef={sourceRef} processed={processed} />}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+// Pipeline backends: the CPU path in imageOps.ts and the WebGL2 one in webgl/.
+// Runs inside the pipeline worker. The GPU context is created on first use;
+// when it's missing, lost or fails mid-run the CPU path takes over.
+import type { OpStack, PipelineOptions } from './imageOps';
+import { activeOperations, applyPipeline, operationRegistry, runPipeline, toImageData } from './imageOps';
+import { applyTransform, isIdentityTransform } from './geometry';
+import type { GpuContext } from './webgl';
+import { createGpuContext, createWebGLExecutor, WebGLUnavailableError } from './webgl';
+
+export type BackendKind = 'cpu' | 'webgl';
+export type BackendPreference = 'auto' | BackendKind;
+
+export type BackendStatus = {
+  kind: BackendKind; // backend that produced the result
+  fallback?: string; // why the GPU wasn't used although it was preferred
+};
+
+export type ImageDiff = {
+  maxDiff: number; // largest channel difference, 0..255
+  meanDiff: number; // mean absolute channel difference
+  overPct: number; // % of pixels with a channel differing by more than the tolerance
+};
+
+export type ParityStage = ImageDiff & {
+  label: string;
+  gpu: boolean; // false when the op fell back to the CPU inside the WebGL backend
+  pass: boolean;
+};
+
+export type ParityReport =
+  | { ok: true; tolerance: number; stages: ParityStage[]; total: ParityStage; cpuMs: number; gpuMs: number }
+  | { ok: false; error: string };
+
+let gpu: GpuContext | null = null;
+let gpuError: string | null = null;
+
+function getGpu(): GpuContext | null {
+  if (gpu || gpuError) return gpu;
+  try {
+    gpu = createGpuContext();
+  } catch (e: unknown) {
+    gpuError = e instanceof Error ? e.message : String(e);
+  }
+  return gpu;
+}
+
+// A lost or broken context is dropped for the rest of the session
+function gpuFailed(e: unknown): string {
+  const reason = e instanceof Error ? e.message : String(e);
+  if (e instanceof WebGLUnavailableError) {
+    gpu?.dispose();
+    gpu = null;
+    gpuError = reason;
+  }
+  return reason;
+}
+
+export function runOnBackend(input: ImageData, stack: OpStack, opts: PipelineOptions, pref: BackendPreference): { image: ImageData; status: BackendStatus } {
+  if (pref !== 'cpu') {
+    const g = getGpu();
+    if (!g) return { image: applyPipeline(input, stack, opts), status: { kind: 'cpu', fallback: gpuError ?? 'WebGL2 is not available' } };
+    try {
+      return { image: runPipeline(input, stack, opts, createWebGLExecutor(g)), status: { kind: 'webgl' } };
+    } catch (e: unknown) {
+      const fallback = gpuFailed(e);
+      return { image: applyPipeline(input, stack, opts), status: { kind: 'cpu', fallback } };
+    }
+  }
+  return { image: applyPipeline(input, stack, opts), status: { kind: 'cpu' } };
+}
+
+export function diffImages(a: ImageData, b: ImageData, tolerance: number): ImageDiff {
+  if (a.width !== b.width || a.height !== b.height) return { maxDiff: 255, meanDiff: 255, overPct: 100 };
+  const x = a.data, y = b.data;
+  let max = 0, sum = 0, over = 0;
+  for (let i = 0; i < x.length; i += 4) {
+    let px = 0;
+    for (let c = 0; c < 4; c++) {
+      const d = Math.abs(x[i + c] - y[i + c]);
+      sum += d;
+      if (d > px) px = d;
+    }
+    if (px > tolerance) over++;
+    if (px > max) max = px;
+  }
+  const n = x.length / 4 || 1;
+  return { maxDiff: max, meanDiff: sum / (n * 4), overPct: (over / n) * 100 };
+}
+
+// Runs every active op on both backends from the same (CPU) input and compares
+// them, then times and compares the whole pipeline including masks
+export function runParityTest(input: ImageData, stack: OpStack, opts: PipelineOptions, tolerance: number): ParityReport {
+  const g = getGpu();
+  if (!g) return { ok: false, error: gpuError ?? 'WebGL2 is not available' };
+  const quiet: PipelineOptions = { ...opts, onProgress: undefined };
+  try {
+    const onCpu = new Set<string>();
+    const exec = createWebGLExecutor(g, op => onCpu.add(op.id));
+    const ctx = { scale: Math.max(1, opts.scale ?? 1), colorSpace: input.colorSpace, preserveAlpha: opts.preserveAlpha ?? false, linear: false, outputScale: Math.max(1, opts.outputScale ?? 1) };
+    let cur = opts.transform && !isIdentityTransform(opts.transform) ? applyTransform(input, opts.transform) : input;
+    const stages: ParityStage[] = activeOperations(stack).map(op => {
+      const def = operationRegistry[op.type];
+      const cpuOut = toImageData(def.apply(cur, op.params, ctx));
+      const loaded = exec.load(cur);
+      const applied = exec.apply(loaded, op, ctx);
+      const gpuOut = exec.read(applied, false);
+      g.release(loaded);
+      if (applied !== loaded) g.release(applied);
+      cur = cpuOut;
+      const d = diffImages(cpuOut, gpuOut, tolerance);
+      return { label: def.label, gpu: !onCpu.has(op.id), ...d, pass: d.maxDiff <= tolerance };
+    });
+
+    let t0 = performance.now();
+    const cpuImg = applyPipeline(input, stack, quiet);
+    const cpuMs = performance.now() - t0;
+    t0 = performance.now();
+    const gpuImg = runPipeline(input, stack, quiet, exec);
+    const gpuMs = performance.now() - t0;
+    const d = diffImages(cpuImg, gpuImg, tolerance);
+    // Judged like a stage: any pixel beyond the tolerance fails it
+    const total = { label: 'Whole pipeline', gpu: true, ...d, pass: d.maxDiff <= tolerance };
+    return { ok: true, tolerance, stages, total, cpuMs, gpuMs };
+  } catch (e: unknown) {
+    return { ok: false, error: gpuFailed(e) };
+  }
+}
+
+const PREFERENCE_KEY = 'ai-image-fixer.backend';
+
+export function loadBackendPreference(): BackendPreference {
+  try {
+    const v = localStorage.getItem(PREFERENCE_KEY);
+    return v === 'cpu' || v === 'webgl' ? v : 'auto';
+  } catch {
+    return 'auto';
+  }
+}
+
+export function saveBackendPreference(pref: BackendPreference) {
+  localStorage.setItem(PREFERENCE_KEY, pref);
+}
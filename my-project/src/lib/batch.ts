@@ -0,0 +1,42 @@
+// Batch queue model: many files processed with one stack and zipped together
+import type { DroppedFile } from './files';
+import { baseName, exportFormatForMime, exportFormats } from './imageIO';
+
+export type BatchStatus = 'queued' | 'processing' | 'done' | 'error';
+
+export type BatchItem = {
+  id: string;
+  file: File;
+  path: string;
+  thumbUrl: string; // object URL of the source file; revoke via releaseBatchItem
+  status: BatchStatus;
+  error?: string;
+  output?: Blob;
+};
+
+let nextId = 1;
+
+export function createBatchItem({ file, path }: DroppedFile): BatchItem {
+  return { id: `batch-${nextId++}`, file, path, thumbUrl: URL.createObjectURL(file), status: 'queued' };
+}
+
+export function releaseBatchItem(item: BatchItem) {
+  URL.revokeObjectURL(item.thumbUrl);
+}
+
+// "dir/a.jpg" -> "dir/a-enhanced.png", with a numeric suffix when names collide.
+// The extension follows each output's type, falling back to `fallbackExt`.
+export function uniqueOutputNames(items: BatchItem[], fallbackExt = 'png'): Map<string, string> {
+  const used = new Set<string>();
+  const names = new Map<string, string>();
+  for (const item of items) {
+    const format = item.output ? exportFormatForMime(item.output.type) : null;
+    const ext = format ? exportFormats[format].ext : fallbackExt;
+    const stem = `${baseName(item.path)}-enhanced`;
+    let name = `${stem}.${ext}`;
+    for (let n = 2; used.has(name.toLowerCase()); n++) name = `${stem}-${n}.${ext}`;
+    used.add(name.toLowerCase());
+    names.set(item.id, name);
+  }
+  return names;
+}
@@ -0,0 +1,97 @@
+// Colour maths shared by the operations: the sRGB transfer curve (Display P3
+// uses the same one) and OKLab, a perceptual space whose polar form (OKLCH)
+// lets saturation change without shifting hue or lightness. Values are 0..1.
+
+type Mat3 = [number, number, number, number, number, number, number, number, number];
+
+export function srgbToLinear(c: number): number {
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+export function linearToSrgb(c: number): number {
+  return c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+}
+
+// Slope of srgbToLinear at encoded value c: linear change per unit of encoded change
+export function srgbToLinearSlope(c: number): number {
+  return c <= 0.04045 ? 1 / 12.92 : (2.4 / 1.055) * Math.pow((c + 0.055) / 1.055, 1.4);
+}
+
+// Linear RGB → CIE XYZ (D65) for each canvas colour space
+const RGB_TO_XYZ: Record<PredefinedColorSpace, Mat3> = {
+  'srgb': [
+    0.4123907993, 0.3575843394, 0.1804807884,
+    0.2126390059, 0.7151686788, 0.0721923154,
+    0.0193308187, 0.1191947798, 0.9505321522,
+  ],
+  'display-p3': [
+    0.4865709486, 0.2656676932, 0.1982172852,
+    0.2289745641, 0.6917385218, 0.0792869141,
+    0, 0.0451133819, 1.0439443689,
+  ],
+};
+
+// OKLab's M1 (XYZ → cone response) and M2 (cube-rooted cone response → Lab)
+const XYZ_TO_LMS: Mat3 = [
+  0.8189330101, 0.3618667424, -0.1288597137,
+  0.0329845436, 0.9293118715, 0.0361456387,
+  0.0482003018, 0.2643662691, 0.6338517070,
+];
+const LMS_TO_LAB: Mat3 = [
+  0.2104542553, 0.7936177850, -0.0040720468,
+  1.9779984951, -2.4285922050, 0.4505937099,
+  0.0259040371, 0.7827717662, -0.8086757660,
+];
+const LAB_TO_LMS = invert(LMS_TO_LAB);
+
+function multiply(a: Mat3, b: Mat3): Mat3 {
+  const out = new Array<number>(9) as Mat3;
+  for (let r = 0; r < 3; r++) {
+    for (let c = 0; c < 3; c++) out[r * 3 + c] = a[r * 3] * b[c] + a[r * 3 + 1] * b[3 + c] + a[r * 3 + 2] * b[6 + c];
+  }
+  return out;
+}
+
+function invert(m: Mat3): Mat3 {
+  const [a, b, c, d, e, f, g, h, i] = m;
+  const A = e * i - f * h, B = f * g - d * i, C = d * h - e * g;
+  const det = a * A + b * B + c * C;
+  return [
+    A / det, (c * h - b * i) / det, (b * f - c * e) / det,
+    B / det, (a * i - c * g) / det, (c * d - a * f) / det,
+    C / det, (b * g - a * h) / det, (a * e - b * d) / det,
+  ];
+}
+
+function apply3(m: Mat3, x: number, y: number, z: number): [number, number, number] {
+  return [
+    m[0] * x + m[1] * y + m[2] * z,
+    m[3] * x + m[4] * y + m[5] * z,
+    m[6] * x + m[7] * y + m[8] * z,
+  ];
+}
+
+export type OklabSpace = { toLms: Mat3; fromLms: Mat3 };
+
+const oklabSpaces = new Map<PredefinedColorSpace, OklabSpace>();
+
+// Conversions between linear RGB in `space` and OKLab
+export function oklabSpace(space: PredefinedColorSpace): OklabSpace {
+  let s = oklabSpaces.get(space);
+  if (!s) {
+    const toLms = multiply(XYZ_TO_LMS, RGB_TO_XYZ[space]);
+    s = { toLms, fromLms: invert(toLms) };
+    oklabSpaces.set(space, s);
+  }
+  return s;
+}
+
+export function linearToOklab(r: number, g: number, b: number, space: OklabSpace): [number, number, number] {
+  const [l, m, s] = apply3(space.toLms, r, g, b);
+  return apply3(LMS_TO_LAB, Math.cbrt(l), Math.cbrt(m), Math.cbrt(s));
+}
+
+export function oklabToLinear(L: number, a: number, b: number, space: OklabSpace): [number, number, number] {
+  const [l, m, s] = apply3(LAB_TO_LMS, L, a, b);
+  return apply3(space.fromLms, l * l * l, m * m * m, s * s * s);
+}
@@ -0,0 +1,52 @@
+// Collects files from drag-and-drop, descending into dropped folders where the
+// browser exposes them (webkitGetAsEntry).
+
+export type DroppedFile = {
+  file: File;
+  path: string; // relative path including folders, e.g. "renders/a.png"
+};
+
+function readAllEntries(reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> {
+  return new Promise((resolve, reject) => {
+    const all: FileSystemEntry[] = [];
+    // readEntries returns results in chunks; keep reading until it returns none
+    const next = () => reader.readEntries((batch) => {
+      if (batch.length === 0) resolve(all);
+      else { all.push(...batch); next(); }
+    }, reject);
+    next();
+  });
+}
+
+async function walk(entry: FileSystemEntry, prefix: string, out: DroppedFile[]) {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    out.push({ file, path: prefix + file.name });
+  } else if (entry.isDirectory) {
+    const children = await readAllEntries((entry as FileSystemDirectoryEntry).createReader());
+    for (const child of children) await walk(child, `${prefix}${entry.name}/`, out);
+  }
+}
+
+export async function collectDroppedFiles(dt: DataTransfer): Promise<DroppedFile[]> {
+  const entries: FileSystemEntry[] = [];
+  for (const item of Array.from(dt.items ?? [])) {
+    if (item.kind !== 'file') continue;
+    const entry = item.webkitGetAsEntry?.();
+    if (entry) entries.push(entry);
+  }
+  // Entries must be grabbed synchronously; fall back to the flat list without them
+  if (entries.length === 0) {
+    return Array.from(dt.files ?? []).map(file => ({ file, path: file.name }));
+  }
+  const out: DroppedFile[] = [];
+  for (const entry of entries) await walk(entry, '', out);
+  return out;
+}
+
+// Some platforms report an empty MIME type, so fall back to the extension
+const IMAGE_EXT = /\.(png|jpe?g|webp|gif|bmp|avif|heic|heif|tiff?)$/i;
+
+export function isImageFile(file: File): boolean {
+  return file.type ? file.type.startsWith('image/') : IMAGE_EXT.test(file.name);
+}
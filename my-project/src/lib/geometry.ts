@@ -0,0 +1,218 @@
+// Non-destructive geometric transforms: 90° rotation, flips, straightening with
+// auto-crop, crop and resize. Everything is stored resolution-independently
+// (normalized crop, target size in full-resolution pixels) so the same
+// transform drives the preview proxy and the full-resolution export.
+
+export type QuarterTurns = 0 | 1 | 2 | 3; // clockwise
+
+export type CropRect = { x: number; y: number; w: number; h: number }; // 0..1 of the straightened frame
+
+export type ResizeTarget = { edge: 'width' | 'height'; px: number }; // aspect ratio is always kept
+
+export type Transform = {
+  rotate: QuarterTurns;
+  flipH: boolean; // applied after rotation, i.e. as seen on screen
+  flipV: boolean;
+  straighten: number; // degrees clockwise, -45..45
+  crop: CropRect | null;
+  resize: ResizeTarget | null;
+};
+
+export const IDENTITY_TRANSFORM: Transform = { rotate: 0, flipH: false, flipV: false, straighten: 0, crop: null, resize: null };
+
+export const MAX_STRAIGHTEN = 45;
+export const MAX_OUTPUT_DIM = 16384;
+
+export function isIdentityTransform(t: Transform): boolean {
+  return t.rotate === 0 && !t.flipH && !t.flipV && t.straighten === 0 && t.crop === null && t.resize === null;
+}
+
+// 2D affine map (x, y) -> (a·x + c·y + e, b·x + d·y + f), same layout as canvas setTransform
+export type Affine = [number, number, number, number, number, number];
+
+// p ∘ q: apply q first, then p
+function compose(p: Affine, q: Affine): Affine {
+  return [
+    p[0] * q[0] + p[2] * q[1],
+    p[1] * q[0] + p[3] * q[1],
+    p[0] * q[2] + p[2] * q[3],
+    p[1] * q[2] + p[3] * q[3],
+    p[0] * q[4] + p[2] * q[5] + p[4],
+    p[1] * q[4] + p[3] * q[5] + p[5],
+  ];
+}
+
+export function invertAffine([a, b, c, d, e, f]: Affine): Affine {
+  const det = a * d - b * c;
+  return [d / det, -b / det, -c / det, a / det, (c * f - d * e) / det, (b * e - a * f) / det];
+}
+
+const translate = (x: number, y: number): Affine => [1, 0, 0, 1, x, y];
+const scale = (sx: number, sy: number): Affine => [sx, 0, 0, sy, 0, 0];
+const rotation = (rad: number): Affine => [Math.cos(rad), Math.sin(rad), -Math.sin(rad), Math.cos(rad), 0, 0];
+
+// Size after quarter turns
+export function orientedSize(w: number, h: number, rotate: QuarterTurns): { w: number; h: number } {
+  return rotate % 2 === 1 ? { w: h, h: w } : { w, h };
+}
+
+// Largest centred rectangle with the frame's aspect ratio that fits inside the
+// frame rotated by `deg`, as a fraction of the frame size
+export function straightenScale(w: number, h: number, deg: number): number {
+  const t = Math.abs(deg) * Math.PI / 180;
+  if (t === 0) return 1;
+  const c = Math.cos(t), s = Math.sin(t);
+  return Math.min(w / (w * c + h * s), h / (w * s + h * c));
+}
+
+export type Geometry = {
+  width: number; // output size in pixels
+  height: number;
+  toSource: Affine; // output coordinates (pixel corners) -> source coordinates
+};
+
+// Output size and mapping for a source of srcW × srcH. `outScale` scales the
+// output, e.g. previewing at a fraction of the full-resolution result.
+export function transformGeometry(srcW: number, srcH: number, t: Transform, outScale = 1): Geometry {
+  const o = orientedSize(srcW, srcH, t.rotate);
+  const k = straightenScale(o.w, o.h, t.straighten);
+  const sw = o.w * k, sh = o.h * k;
+  const crop = t.crop ?? { x: 0, y: 0, w: 1, h: 1 };
+  const cw = crop.w * sw, ch = crop.h * sh;
+
+  let width = cw, height = ch;
+  if (t.resize) {
+    const f = t.resize.edge === 'width' ? t.resize.px / cw : t.resize.px / ch;
+    width = cw * f;
+    height = ch * f;
+  }
+  width = Math.max(1, Math.min(MAX_OUTPUT_DIM, Math.round(width * outScale)));
+  height = Math.max(1, Math.min(MAX_OUTPUT_DIM, Math.round(height * outScale)));
+
+  // Output -> crop rect in the straightened frame (centred coordinates)
+  let m: Affine = compose(translate(crop.x * sw - sw / 2, crop.y * sh - sh / 2), scale(cw / width, ch / height));
+  // Undo straightening: back into the oriented frame
+  m = compose(rotation(-t.straighten * Math.PI / 180), m);
+  m = compose(translate(o.w / 2, o.h / 2), m);
+  // Undo flips
+  if (t.flipH) m = compose([-1, 0, 0, 1, o.w, 0], m);
+  if (t.flipV) m = compose([1, 0, 0, -1, 0, o.h], m);
+  // Undo quarter turns (oriented -> source)
+  const turns: Record<QuarterTurns, Affine> = {
+    0: [1, 0, 0, 1, 0, 0],
+    1: [0, -1, 1, 0, 0, srcH], // sx = yo, sy = srcH - xo
+    2: [-1, 0, 0, -1, srcW, srcH],
+    3: [0, 1, -1, 0, srcW, 0], // sx = srcW - yo, sy = xo
+  };
+  m = compose(turns[t.rotate], m);
+  return { width, height, toSource: m };
+}
+
+// Output size for a source, e.g. to show the export dimensions
+export function transformedSize(srcW: number, srcH: number, t: Transform): { w: number; h: number } {
+  const g = transformGeometry(srcW, srcH, t);
+  return { w: g.width, h: g.height };
+}
+
+// Resamples `img` (bilinear, premultiplied by alpha; supersampled when shrinking)
+// into the transformed output
+export function applyTransform(img: ImageData, t: Transform, outScale = 1): ImageData {
+  if (isIdentityTransform(t) && outScale === 1) return img;
+  const { width, height, toSource: [a, b, c, d, e, f] } = transformGeometry(img.width, img.height, t, outScale);
+  const sw = img.width, sh = img.height;
+  const src = img.data;
+  const out = new ImageData(width, height);
+  const dst = out.data;
+
+  // Source pixels per output pixel decides how many samples each output pixel averages
+  const footprint = Math.max(Math.hypot(a, b), Math.hypot(c, d));
+  const n = Math.min(4, Math.max(1, Math.ceil(footprint)));
+  const inv = 1 / (n * n);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0, g = 0, bl = 0, al = 0;
+      for (let sy = 0; sy < n; sy++) {
+        for (let sx = 0; sx < n; sx++) {
+          const ox = x + (sx + 0.5) / n, oy = y + (sy + 0.5) / n;
+          // Source position relative to pixel centres, clamped to the edge
+          const px = Math.min(sw - 1, Math.max(0, a * ox + c * oy + e - 0.5));
+          const py = Math.min(sh - 1, Math.max(0, b * ox + d * oy + f - 0.5));
+          const x0 = Math.floor(px), y0 = Math.floor(py);
+          const x1 = Math.min(sw - 1, x0 + 1), y1 = Math.min(sh - 1, y0 + 1);
+          const tx = px - x0, ty = py - y0;
+          const i00 = (y0 * sw + x0) * 4, i10 = (y0 * sw + x1) * 4, i01 = (y1 * sw + x0) * 4, i11 = (y1 * sw + x1) * 4;
+          // Colour weights include alpha (premultiplied), so transparent pixels don't tint edges
+          const w00 = (1 - tx) * (1 - ty) * src[i00 + 3], w10 = tx * (1 - ty) * src[i10 + 3];
+          const w01 = (1 - tx) * ty * src[i01 + 3], w11 = tx * ty * src[i11 + 3];
+          r += src[i00] * w00 + src[i10] * w10 + src[i01] * w01 + src[i11] * w11;
+          g += src[i00 + 1] * w00 + src[i10 + 1] * w10 + src[i01 + 1] * w01 + src[i11 + 1] * w11;
+          bl += src[i00 + 2] * w00 + src[i10 + 2] * w10 + src[i01 + 2] * w01 + src[i11 + 2] * w11;
+          al += w00 + w10 + w01 + w11;
+        }
+      }
+      const di = (y * width + x) * 4;
+      const k = al > 0 ? 1 / al : 0;
+      dst[di] = r * k;
+      dst[di + 1] = g * k;
+      dst[di + 2] = bl * k;
+      dst[di + 3] = al * inv;
+    }
+  }
+  return out;
+}
+
+// Draws `source` transformed into `target` with the 2D canvas (fast path for the preview)
+export function drawTransformed(target: HTMLCanvasElement, source: CanvasImageSource, srcW: number, srcH: number, t: Transform, outScale = 1) {
+  const g = transformGeometry(srcW, srcH, t, outScale);
+  target.width = g.width;
+  target.height = g.height;
+  const ctx = target.getContext('2d')!;
+  ctx.clearRect(0, 0, g.width, g.height);
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.setTransform(...invertAffine(g.toSource));
+  ctx.drawImage(source, 0, 0);
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+}
+
+// Crop rect helpers ---------------------------------------------------------
+
+// Pixel aspect (w/h) of the straightened frame, used to convert aspect presets to normalized rects
+export function frameAspect(srcW: number, srcH: number, t: Pick<Transform, 'rotate'>): number {
+  const o = orientedSize(srcW, srcH, t.rotate);
+  return o.w / o.h;
+}
+
+// Largest rect of pixel aspect `ratio` inside `within`, centred on it
+export function fitCrop(ratio: number, frameRatio: number, within: CropRect = { x: 0, y: 0, w: 1, h: 1 }): CropRect {
+  const nr = ratio / frameRatio; // normalized w/h
+  let w = within.w, h = w / nr;
+  if (h > within.h) {
+    h = within.h;
+    w = h * nr;
+  }
+  return { x: within.x + (within.w - w) / 2, y: within.y + (within.h - h) / 2, w, h };
+}
+
+// Keeps the crop attached to the same image content when the frame is turned or flipped
+export function rotateCrop(c: CropRect, clockwise: boolean): CropRect {
+  return clockwise ? { x: 1 - c.y - c.h, y: c.x, w: c.h, h: c.w } : { x: c.y, y: 1 - c.x - c.w, w: c.h, h: c.w };
+}
+
+export function flipCrop(c: CropRect, horizontal: boolean): CropRect {
+  return horizontal ? { ...c, x: 1 - c.x - c.w } : { ...c, y: 1 - c.y - c.h };
+}
+
+// Human-readable summary of a transform change for history entries
+export function describeTransformChange(prev: Transform, next: Transform): { label: string; coalesceKey: string } {
+  if (prev.rotate !== next.rotate) return { label: `Rotate ${next.rotate * 90}°`, coalesceKey: 'transform:rotate' };
+  if (prev.flipH !== next.flipH) return { label: 'Flip horizontal', coalesceKey: 'transform:flipH' };
+  if (prev.flipV !== next.flipV) return { label: 'Flip vertical', coalesceKey: 'transform:flipV' };
+  if (prev.straighten !== next.straighten) return { label: `Straighten ${next.straighten}°`, coalesceKey: 'transform:straighten' };
+  if (prev.crop !== next.crop) return { label: next.crop ? 'Crop' : 'Clear crop', coalesceKey: 'transform:crop' };
+  if (prev.resize !== next.resize) {
+    return { label: next.resize ? `Resize ${next.resize.edge} to ${next.resize.px} px` : 'Clear resize', coalesceKey: 'transform:resize' };
+  }
+  return { label: 'Transform', coalesceKey: 'transform' };
+}
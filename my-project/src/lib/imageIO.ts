@@ -0,0 +1,111 @@
+// Browser-side decode/encode helpers shared by the editor and batch processing
+
+// Interactive editing happens on a proxy no larger than this
+export const PREVIEW_MAX_DIM = 1600;
+
+// Source px per preview px for an image of the given size (>= 1)
+export function previewScaleFor(w: number, h: number): number {
+  return Math.max(1, Math.max(w, h) / PREVIEW_MAX_DIM);
+}
+
+// A canvas's colour space is fixed by its first getContext call, so canvases
+// whose pixels are read or written go through these
+export function createCanvas(width: number, height: number, colorSpace: PredefinedColorSpace = 'srgb'): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext('2d', { colorSpace });
+  return canvas;
+}
+
+export function canvasColorSpace(canvas: HTMLCanvasElement): PredefinedColorSpace {
+  return canvas.getContext('2d')!.getContextAttributes().colorSpace ?? 'srgb';
+}
+
+// Whether canvases can hold Display P3 pixels (otherwise everything stays sRGB)
+export function displayP3Supported(): boolean {
+  try {
+    return canvasColorSpace(createCanvas(1, 1, 'display-p3')) === 'display-p3';
+  } catch {
+    return false;
+  }
+}
+
+// Formats only some browsers decode (e.g. AVIF in older Safari, HEIC outside Safari)
+export const LIMITED_SUPPORT_TYPES: Record<string, string> = {
+  'image/avif': 'AVIF',
+  'image/heic': 'HEIC',
+  'image/heif': 'HEIF',
+  'image/tiff': 'TIFF',
+};
+
+// The same message for every place an image fails to decode
+export function decodeErrorMessage(type: string): string {
+  const label = LIMITED_SUPPORT_TYPES[type];
+  return label ? `This browser can't decode ${label} images` : 'Could not decode image';
+}
+
+// Pixels are converted to `colorSpace` (wide-gamut sources keep their colours in Display P3)
+export async function decodeImageFile(file: Blob, colorSpace: PredefinedColorSpace = 'srgb'): Promise<ImageData> {
+  let bmp: ImageBitmap;
+  try {
+    bmp = await createImageBitmap(file);
+  } catch {
+    throw new Error(decodeErrorMessage(file.type));
+  }
+  try {
+    const canvas = createCanvas(bmp.width, bmp.height, colorSpace);
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(bmp, 0, 0);
+    return ctx.getImageData(0, 0, bmp.width, bmp.height);
+  } finally {
+    bmp.close();
+  }
+}
+
+export type ExportFormat = 'png' | 'jpeg' | 'webp';
+
+export const exportFormats: Record<ExportFormat, { label: string; mime: string; ext: string; lossy: boolean }> = {
+  png: { label: 'PNG', mime: 'image/png', ext: 'png', lossy: false },
+  jpeg: { label: 'JPEG', mime: 'image/jpeg', ext: 'jpg', lossy: true },
+  webp: { label: 'WebP', mime: 'image/webp', ext: 'webp', lossy: true },
+};
+
+export const DEFAULT_EXPORT_QUALITY = 90; // 1..100
+
+export function exportFormatForMime(mime: string): ExportFormat | null {
+  return (Object.keys(exportFormats) as ExportFormat[]).find(f => exportFormats[f].mime === mime) ?? null;
+}
+
+// quality is 0..1 and only used by lossy formats. The file is tagged with the
+// image's colour space.
+export async function encodeImageData(img: ImageData, type = 'image/png', quality?: number): Promise<Blob> {
+  const canvas = createCanvas(img.width, img.height, img.colorSpace);
+  canvas.getContext('2d')!.putImageData(img, 0, 0);
+  const blob: Blob | null = await new Promise((resolve) => canvas.toBlob(resolve, type, quality));
+  if (!blob) throw new Error('Failed generating image blob');
+  // Unsupported types silently fall back to PNG (e.g. WebP in older Safari)
+  if (blob.type !== type) throw new Error(`This browser can't encode ${type}`);
+  return blob;
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function baseName(fileName: string): string {
+  return fileName.replace(/\.[^./]+$/, '');
+}
+
+export function formatBytes(n: number): string {
+  if (n < 1024) return `${n} B`;
+  if (n < 1024 * 1024) return `${(n / 1024).toFixed(0)} KB`;
+  return `${(n / (1024 * 1024)).toFixed(1)} MB`;
+}
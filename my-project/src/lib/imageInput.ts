@@ -0,0 +1,149 @@
+// Input sources beyond the file picker: clipboard paste, dropped image URLs and
+// dragged <img> elements (fetched), with format sniffing so files with a
+// missing or wrong MIME type still open. Every source ends in prepareImageFile,
+// which is where "not an image" and "can't decode" errors come from.
+import { isImageFile } from './files';
+import { decodeErrorMessage, LIMITED_SUPPORT_TYPES } from './imageIO';
+
+export class ImageInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImageInputError';
+  }
+}
+
+const EXT_FOR_TYPE: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/bmp': 'bmp',
+  'image/avif': 'avif',
+  'image/heic': 'heic',
+  'image/heif': 'heif',
+  'image/tiff': 'tiff',
+  'image/svg+xml': 'svg',
+};
+
+// ISO-BMFF major brands of the still-image formats
+const AVIF_BRANDS = ['avif', 'avis'];
+const HEIC_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis'];
+const HEIF_BRANDS = ['mif1', 'msf1'];
+
+// Image type from the file's magic bytes, or null when unrecognised
+export async function sniffImageType(blob: Blob): Promise<string | null> {
+  const b = new Uint8Array(await blob.slice(0, 16).arrayBuffer());
+  const ascii = (from: number, to: number) => String.fromCharCode(...b.subarray(from, to));
+  if (b[0] === 0x89 && ascii(1, 4) === 'PNG') return 'image/png';
+  if (b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff) return 'image/jpeg';
+  if (ascii(0, 4) === 'GIF8') return 'image/gif';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'image/webp';
+  if (ascii(0, 2) === 'BM') return 'image/bmp';
+  if (ascii(0, 4) === 'II*\0' || ascii(0, 4) === 'MM\0*') return 'image/tiff';
+  if (ascii(4, 8) === 'ftyp') {
+    const brand = ascii(8, 12);
+    if (AVIF_BRANDS.includes(brand)) return 'image/avif';
+    if (HEIC_BRANDS.includes(brand)) return 'image/heic';
+    if (HEIF_BRANDS.includes(brand)) return 'image/heif';
+  }
+  return null;
+}
+
+// Checks that `file` is an image this browser can open and fixes its MIME type
+// from the content. Formats with patchy support are test-decoded here so the
+// error names the format instead of failing later.
+export async function prepareImageFile(file: File): Promise<File> {
+  const sniffed = await sniffImageType(file);
+  if (!sniffed && !isImageFile(file)) throw new ImageInputError(`${file.name || 'The file'} is not an image`);
+  const type = sniffed ?? file.type;
+  if (LIMITED_SUPPORT_TYPES[type]) {
+    try {
+      (await createImageBitmap(file)).close();
+    } catch {
+      throw new ImageInputError(decodeErrorMessage(type));
+    }
+  }
+  return type === file.type ? file : new File([file], file.name, { type, lastModified: file.lastModified });
+}
+
+// Clipboard images usually arrive as "image.png"; give them a recognisable name
+export function clipboardImageFiles(data: DataTransfer): File[] {
+  const files: File[] = [];
+  for (const item of Array.from(data.items)) {
+    if (item.kind !== 'file' || !item.type.startsWith('image/')) continue;
+    const file = item.getAsFile();
+    if (!file) continue;
+    const ext = EXT_FOR_TYPE[file.type] ?? 'png';
+    files.push(new File([file], `pasted-image.${ext}`, { type: file.type, lastModified: Date.now() }));
+  }
+  return files;
+}
+
+function asImageUrl(text: string): string | null {
+  const t = text.trim();
+  if (/^data:image\//i.test(t)) return t;
+  try {
+    const url = new URL(t);
+    return url.protocol === 'http:' || url.protocol === 'https:' || url.protocol === 'blob:' ? url.href : null;
+  } catch {
+    return null;
+  }
+}
+
+// A URL pasted as text, e.g. "Copy image address"
+export function pastedImageUrl(data: DataTransfer): string | null {
+  return asImageUrl(data.getData('text/plain'));
+}
+
+// An <img> dragged from another page carries its markup; prefer its src over
+// text/uri-list, which is the surrounding link's href when the image is linked.
+// Must be called during the drop event: the data is cleared afterwards.
+export function droppedImageUrl(data: DataTransfer): string | null {
+  const html = data.getData('text/html');
+  if (html) {
+    const img = new DOMParser().parseFromString(html, 'text/html').querySelector('img[src]');
+    const src = img && asImageUrl(img.getAttribute('src')!);
+    if (src) return src;
+  }
+  const uris = data.getData('text/uri-list').split(/\r?\n/).filter(l => l && !l.startsWith('#'));
+  return uris.length > 0 ? asImageUrl(uris[0]) : null;
+}
+
+function fileNameFor(url: URL, type: string): string {
+  let last = url.protocol === 'data:' ? '' : url.pathname.split('/').pop() ?? '';
+  try {
+    last = decodeURIComponent(last);
+  } catch {
+    // keep the encoded name
+  }
+  const ext = EXT_FOR_TYPE[type] ?? 'png';
+  if (!last) return `image.${ext}`;
+  return /\.[a-z0-9]{2,5}$/i.test(last) ? last : `${last}.${ext}`;
+}
+
+// Downloads an image URL (http(s), data: or same-page blob:) as a File. Other
+// sites only allow it when they send CORS headers; the error says so.
+export async function fetchImageFile(href: string): Promise<File> {
+  let url: URL;
+  try {
+    url = new URL(href);
+  } catch {
+    throw new ImageInputError('Not a valid image URL');
+  }
+  const host = url.protocol === 'data:' ? 'The data URL' : url.host || 'The page';
+  let res: Response;
+  try {
+    res = await fetch(url, { mode: 'cors', credentials: 'omit' });
+  } catch {
+    // fetch reports CORS refusals and network failures alike, as a bare TypeError
+    throw new ImageInputError(
+      `Could not download the image from ${url.host || 'that page'}: the site doesn't allow cross-origin requests (CORS) or is unreachable. ` +
+      'Copy the image and paste it here, or save it and open the file.',
+    );
+  }
+  if (!res.ok) throw new ImageInputError(`${host} returned HTTP ${res.status}${res.statusText ? ` ${res.statusText}` : ''}`);
+  const blob = await res.blob();
+  const type = (await sniffImageType(blob)) ?? blob.type;
+  if (!type.startsWith('image/')) throw new ImageInputError(`${host} didn't return an image${blob.type ? ` (got ${blob.type.split(';')[0]})` : ''}`);
+  return new File([blob], fileNameFor(url, type), { type, lastModified: Date.now() });
+}
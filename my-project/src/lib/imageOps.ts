@@ -1,9 +1,21 @@
 // Basic client-side image processing utilities
 // - Auto white balance (gray-world)
 // - Gaussian noise
-// - Gaussian blur (separable kernel)
-// - Color adjustments: brightness, contrast, saturation
+// - Blurs: Gaussian (exact kernel or box passes), lens/bokeh disc, motion
+// - Unsharp mask, clarity
+// - Color adjustments: exposure, brightness, contrast, saturation (HSL or OKLCH)
+// - Tone: Levels and Curves (per-channel LUTs)
+// - JPEG compression simulation (8×8 DCT quantization, chroma subsampling)
+// - Lens/camera effects: vignette, chromatic aberration, distortion, bloom/halation
+// - Operation registry + ordered operation stack pipeline, with optional masks
+//   and linear-light processing for physically-based ops
+import { linearToOklab, linearToSrgb, oklabSpace, oklabToLinear, srgbToLinear, srgbToLinearSlope } from './color';
+import type { Affine, Transform } from './geometry';
+import { applyTransform, IDENTITY_TRANSFORM, isIdentityTransform } from './geometry';
+import type { Mask } from './masks';
+import { blendMasked, describeMaskChange, maskPlacement, rasterizeMask } from './masks';
 
+// Legacy flat settings (pre operation stack). Still accepted and migrated via adjustmentsToStack.
 export type Adjustments = {
   autoWhiteBalance: boolean;
   autoColorEnhance: boolean;
@@ -14,30 +26,197 @@ export type Adjustments = {
   saturation: number; // -100..100 (%)
 };
 
+export const defaultAdjustments: Adjustments = {
+  autoWhiteBalance: false,
+  autoColorEnhance: false,
+  noiseSigma: 0,
+  blurPx: 0,
+  brightness: 0,
+  contrast: 0,
+  saturation: 0,
+};
+
+export type PipelineOptions = {
+  // Source pixels per preview pixel. Adjustments are tuned on the preview proxy,
+  // so pixel-size-dependent ops (blur sigma, noise grain) are scaled by this
+  // when rendering the full-resolution original.
+  scale?: number;
+  // Called before each stage runs (index is 0-based, total = number of active stages)
+  onProgress?: (p: PipelineProgress) => void;
+  // Geometry applied before the operations; `scale` then refers to the transformed output
+  transform?: Transform | null;
+  // Dither the final float → 8-bit conversion (see toImageData)
+  dither?: boolean;
+  // Keep the input's alpha channel: blurs and lens effects then only change
+  // colour (still weighted by alpha) instead of also spreading transparency
+  preserveAlpha?: boolean;
+  // 'linear' (default) runs physically-based ops (blur, noise) on linear light,
+  // so blurred edges and grain don't darken; 'encoded' runs them on the
+  // gamma-encoded values like every other op. Exposure is always linear.
+  workingSpace?: WorkingSpace;
+  // Maps pixels of the (transformed) input to mask units, for inputs that were
+  // transformed beforehand like the preview proxy. Derived from the input size
+  // and `transform` otherwise.
+  maskPlacement?: Affine;
+  // Export pixels per input pixel when rendering a downscaled preview, for ops
+  // tied to the output's pixel grid (JPEG blocks); 1 when rendering the output
+  outputScale?: number;
+};
+
+export type WorkingSpace = 'linear' | 'encoded';
+
+export type PipelineProgress = {
+  stage: string;
+  index: number;
+  total: number;
+};
+
 export function clamp(v: number, min = 0, max = 255): number {
   return v < min ? min : v > max ? max : v;
 }
 
-// GIMP-like auto white balance via per-channel auto levels with percentile clipping
-// We compute low/high per channel at clipPct (e.g., 0.5%) and remap linearly.
-export function applyAutoWhiteBalance(data: ImageData, clipPct = 0.005): ImageData {
-  const { data: buf, width, height } = data;
-  const n = width * height;
-  if (n === 0) return data;
-
-  // Build histograms per channel
-  const hr = new Uint32Array(256);
-  const hg = new Uint32Array(256);
-  const hb = new Uint32Array(256);
+// The pipeline carries this between operations so chained adjustments don't
+// quantize (and band) at every step. Channels are 0..255 like ImageData, clamped
+// but not rounded.
+export type FloatImage = { data: Float32Array; width: number; height: number };
+
+// Ops take either kind and return the kind they were given (JPEG is always 8-bit)
+export type PixelImage = ImageData | FloatImage;
+
+export function isFloatImage(img: PixelImage): img is FloatImage {
+  return img.data instanceof Float32Array;
+}
+
+export function toFloatImage(img: PixelImage): FloatImage {
+  if (isFloatImage(img)) return img;
+  return { data: Float32Array.from(img.data), width: img.width, height: img.height };
+}
+
+const DITHER_SEED = 0x5eed;
+
+// Final 8-bit conversion for display and export. Dithering adds up to ±½ level
+// of seeded noise before rounding, which breaks up banding in smooth gradients
+// while leaving exact levels (and renders) reproducible.
+export function toImageData(img: PixelImage, dither = false): ImageData {
+  if (!isFloatImage(img)) return img;
+  const out = new ImageData(img.width, img.height);
+  const src = img.data, dst = out.data;
+  if (!dither) {
+    dst.set(src);
+    return out;
+  }
+  const rng = createRng(DITHER_SEED);
+  for (let i = 0; i < src.length; i += 4) {
+    dst[i] = src[i] + rng() - 0.5;
+    dst[i + 1] = src[i + 1] + rng() - 0.5;
+    dst[i + 2] = src[i + 2] + rng() - 0.5;
+    dst[i + 3] = src[i + 3];
+  }
+  return out;
+}
+
+// Encoded ↔ linear light, keeping the 0..255 scale. The transfer curve is the
+// same for sRGB and Display P3 images.
+export function toLinearLight(img: FloatImage): FloatImage {
+  return mapColorChannels(img, v => 255 * srgbToLinear(v / 255));
+}
+
+export function fromLinearLight(img: FloatImage): FloatImage {
+  return mapColorChannels(img, v => clamp(255 * linearToSrgb(v / 255)));
+}
+
+function mapColorChannels(img: FloatImage, f: (v: number) => number): FloatImage {
+  const src = img.data;
+  const dst = new Float32Array(src.length);
+  for (let i = 0; i < src.length; i += 4) {
+    dst[i] = f(src[i]);
+    dst[i + 1] = f(src[i + 1]);
+    dst[i + 2] = f(src[i + 2]);
+    dst[i + 3] = src[i + 3];
+  }
+  return { data: dst, width: img.width, height: img.height };
+}
+
+// Empty image of the same kind and size
+function blankLike<T extends PixelImage>(img: T): T {
+  return (isFloatImage(img) ? { data: new Float32Array(img.data.length), width: img.width, height: img.height } : new ImageData(img.width, img.height)) as T;
+}
+
+// Counts are weighted by alpha: a half-transparent pixel counts half and a
+// fully transparent one (whose colour isn't visible) not at all
+export type Histograms = {
+  r: Float64Array;
+  g: Float64Array;
+  b: Float64Array;
+  luma: Float64Array; // Rec. 709 weights
+  total: number;
+  clippedHigh: number; // pixels with any channel at 255
+  clippedLow: number; // pixels with any channel at 0
+};
+
+// Float images are binned to the nearest level
+export function computeHistograms(data: PixelImage): Histograms {
+  const buf = data.data;
+  const r = new Float64Array(256);
+  const g = new Float64Array(256);
+  const b = new Float64Array(256);
+  const luma = new Float64Array(256);
+  let total = 0, clippedHigh = 0, clippedLow = 0;
   for (let i = 0; i < buf.length; i += 4) {
-    hr[buf[i]]++;
-    hg[buf[i + 1]]++;
-    hb[buf[i + 2]]++;
+    const wt = buf[i + 3] / 255;
+    if (wt === 0) continue;
+    const cr = Math.round(buf[i]), cg = Math.round(buf[i + 1]), cb = Math.round(buf[i + 2]);
+    r[cr] += wt;
+    g[cg] += wt;
+    b[cb] += wt;
+    luma[Math.round(0.2126 * cr + 0.7152 * cg + 0.0722 * cb)] += wt;
+    total += wt;
+    if (cr === 255 || cg === 255 || cb === 255) clippedHigh += wt;
+    if (cr === 0 || cg === 0 || cb === 0) clippedLow += wt;
   }
+  return { r, g, b, luma, total, clippedHigh, clippedLow };
+}
+
+// Overlay marking blown highlights (red) and crushed shadows (blue), faded with the
+// pixel's alpha; transparent elsewhere
+export function clippingOverlay(data: ImageData): ImageData {
+  const src = data.data;
+  const out = new ImageData(data.width, data.height);
+  const dst = out.data;
+  for (let i = 0; i < src.length; i += 4) {
+    // The colour of transparent pixels isn't visible, so neither is its clipping
+    const a = src[i + 3];
+    if (a === 0) continue;
+    const cr = src[i], cg = src[i + 1], cb = src[i + 2];
+    const mark = Math.round((200 * a) / 255);
+    if (cr === 255 || cg === 255 || cb === 255) {
+      dst[i] = 255; dst[i + 1] = 0; dst[i + 2] = 0; dst[i + 3] = mark;
+    } else if (cr === 0 || cg === 0 || cb === 0) {
+      dst[i] = 0; dst[i + 1] = 90; dst[i + 2] = 255; dst[i + 3] = mark;
+    }
+  }
+  return out;
+}
+
+// 256-entry tone tables; entries are fractional so float images aren't quantized
+export type Lut = Float32Array;
+export type RgbLuts = [Lut, Lut, Lut];
+
+// GIMP-like auto white balance via per-channel auto levels with percentile clipping
+// We compute low/high per channel at clipPct (e.g., 0.5%) and remap linearly.
+export function applyAutoWhiteBalance<T extends PixelImage>(data: T, clipPct = 0.005): T {
+  const luts = autoWhiteBalanceLuts(data, clipPct);
+  return luts ? applyLuts(data, ...luts) : data;
+}
+
+// The per-channel remapping LUTs of applyAutoWhiteBalance (null for an empty image)
+export function autoWhiteBalanceLuts(data: PixelImage, clipPct = 0.005): RgbLuts | null {
+  const { r: hr, g: hg, b: hb, total: n } = computeHistograms(data);
+  if (n === 0) return null;
 
   const clipN = Math.max(0, Math.min(n - 1, Math.round(n * clipPct)));
 
-  function lowHigh(hist: Uint32Array): [number, number] {
+  function lowHigh(hist: Float64Array): [number, number] {
     let lo = 0, hi = 255;
     // low
     let acc = 0;
@@ -60,8 +239,8 @@ export function applyAutoWhiteBalance(data: ImageData, clipPct = 0.005): ImageDa
   const [bLo, bHi] = lowHigh(hb);
 
   // Precompute LUTs
-  function makeLut(lo: number, hi: number): Uint8ClampedArray {
-    const lut = new Uint8ClampedArray(256);
+  function makeLut(lo: number, hi: number): Lut {
+    const lut = new Float32Array(256);
     const range = hi - lo || 1;
     for (let v = 0; v < 256; v++) {
       const t = ((v - lo) / range) * 255;
@@ -69,52 +248,123 @@ export function applyAutoWhiteBalance(data: ImageData, clipPct = 0.005): ImageDa
     }
     return lut;
   }
-  const lr = makeLut(rLo, rHi);
-  const lg = makeLut(gLo, gHi);
-  const lb = makeLut(bLo, bHi);
+  return [makeLut(rLo, rHi), makeLut(gLo, gHi), makeLut(bLo, bHi)];
+}
 
-  const out = new ImageData(width, height);
-  const dst = out.data;
-  for (let i = 0; i < buf.length; i += 4) {
-    dst[i] = lr[buf[i]];
-    dst[i + 1] = lg[buf[i + 1]];
-    dst[i + 2] = lb[buf[i + 2]];
-    dst[i + 3] = buf[i + 3];
-  }
-  return out;
+// Seeded PRNG (mulberry32) so grain is stable across re-renders and exports
+export function createRng(seed: number): () => number {
+  let t = seed >>> 0;
+  return () => {
+    t = (t + 0x6d2b79f5) >>> 0;
+    let r = Math.imul(t ^ (t >>> 15), 1 | t);
+    r = (r + Math.imul(r ^ (r >>> 7), 61 | r)) ^ r;
+    return ((r ^ (r >>> 14)) >>> 0) / 4294967296;
+  };
 }
 
 // Box-Muller transform for gaussian noise
-function gaussianRandom(mean = 0, stdDev = 1): number {
+function gaussianRandom(rng: () => number, mean = 0, stdDev = 1): number {
   let u = 0, v = 0;
-  while (u === 0) u = Math.random();
-  while (v === 0) v = Math.random();
+  while (u === 0) u = rng();
+  while (v === 0) v = rng();
   const mag = Math.sqrt(-2.0 * Math.log(u));
   const z0 = mag * Math.cos(2.0 * Math.PI * v);
   return z0 * stdDev + mean;
 }
 
-export function applyGaussianNoise(data: ImageData, sigma: number): ImageData {
+export type NoiseOptions = {
+  seed?: number;
+  grainPx?: number; // grain size in output pixels
+  monochrome?: boolean; // one offset for R, G and B (luminance grain)
+  shadows?: number; // strength multiplier at black (1 = uniform)
+  highlights?: number; // strength multiplier at white (1 = uniform)
+  // The data is linear light. sigma (and the shadows/highlights response) stay
+  // in encoded levels: each pixel's noise is scaled by the transfer curve's slope
+  // there, so the grain matches the encoded-space result and the mean is kept.
+  linear?: boolean;
+};
+
+// The noise is generated on a grid with one sample per grainPx output pixels
+// and, for grainPx > 1, sampled bilinearly, so each grain covers roughly
+// grainPx × grainPx pixels. The grid size depends only on w / grainPx, so the
+// same seed gives the same grain in the preview (grainPx = size) and in an
+// export at `scale` (grainPx = size × scale).
+export function applyGaussianNoise<T extends PixelImage>(data: T, sigma: number, opts: NoiseOptions = {}): T {
   if (sigma <= 0) return data;
-  const out = new ImageData(data.width, data.height);
+  const { seed = 1, monochrome = false, shadows = 1, highlights = 1, linear = false } = opts;
+  const grainPx = Math.max(1, opts.grainPx ?? 1);
+  const { width: w, height: h } = data;
+  const out = blankLike(data);
   const src = data.data; const dst = out.data;
-  for (let i = 0; i < src.length; i += 4) {
-    dst[i] = clamp(src[i] + gaussianRandom(0, sigma));
-    dst[i + 1] = clamp(src[i + 1] + gaussianRandom(0, sigma));
-    dst[i + 2] = clamp(src[i + 2] + gaussianRandom(0, sigma));
-    dst[i + 3] = src[i + 3];
+  const rng = createRng(seed);
+  const ch = monochrome ? 1 : 3;
+  const interp = grainPx > 1;
+
+  const gw = Math.ceil(w / grainPx) + 1;
+  const gh = Math.ceil(h / grainPx) + 1;
+  const grid = new Float32Array(gw * gh * ch);
+  // Bilinear interpolation averages neighbouring samples, which shrinks the
+  // std-dev by ~2/3 on average; compensate so the grain strength matches.
+  const amp = interp ? sigma * 1.5 : sigma;
+  for (let i = 0; i < grid.length; i++) grid[i] = gaussianRandom(rng, 0, amp);
+
+  const weighted = shadows !== 1 || highlights !== 1;
+  const n = new Float32Array(3);
+  const slope = new Float32Array([1, 1, 1]);
+  const enc = (v: number) => linearToSrgb(Math.max(0, v) / 255);
+  for (let y = 0; y < h; y++) {
+    const gy = y / grainPx;
+    const y0 = Math.floor(gy), fy = gy - y0;
+    for (let x = 0; x < w; x++) {
+      if (interp) {
+        const gx = x / grainPx;
+        const x0 = Math.floor(gx), fx = gx - x0;
+        const i00 = (y0 * gw + x0) * ch, i10 = i00 + ch;
+        const i01 = i00 + gw * ch, i11 = i01 + ch;
+        for (let c = 0; c < ch; c++) {
+          const top = grid[i00 + c] + (grid[i10 + c] - grid[i00 + c]) * fx;
+          const bot = grid[i01 + c] + (grid[i11 + c] - grid[i01 + c]) * fx;
+          n[c] = top + (bot - top) * fy;
+        }
+      } else {
+        const gi = (y * gw + x) * ch;
+        for (let c = 0; c < ch; c++) n[c] = grid[gi + c];
+      }
+      const di = (y * w + x) * 4;
+      const r = src[di], g = src[di + 1], b = src[di + 2];
+      // Encoded values 0..1
+      let er = r / 255, eg = g / 255, eb = b / 255;
+      if (linear) {
+        er = enc(r);
+        eg = enc(g);
+        eb = enc(b);
+        slope[0] = srgbToLinearSlope(er);
+        slope[1] = srgbToLinearSlope(eg);
+        slope[2] = srgbToLinearSlope(eb);
+      }
+      let k = 1;
+      if (weighted) {
+        // Piecewise-linear response: shadows at black, 1 at mid-grey, highlights at white
+        const l = 0.2126 * er + 0.7152 * eg + 0.0722 * eb;
+        k = l < 0.5 ? shadows + (1 - shadows) * l * 2 : 1 + (highlights - 1) * (l - 0.5) * 2;
+      }
+      dst[di] = clamp(r + n[0] * k * slope[0]);
+      dst[di + 1] = clamp(g + n[monochrome ? 0 : 1] * k * slope[1]);
+      dst[di + 2] = clamp(b + n[monochrome ? 0 : 2] * k * slope[2]);
+      dst[di + 3] = src[di + 3];
+    }
   }
   return out;
 }
 
 // Color adjustments
-export function applyBrightnessContrast(data: ImageData, brightnessPct: number, contrastPct: number): ImageData {
+export function applyBrightnessContrast<T extends PixelImage>(data: T, brightnessPct: number, contrastPct: number): T {
   // brightness in [-100,100] -> add term b (0..255)
   // contrast in [-100,100] -> factor f
   const b = (brightnessPct / 100) * 255;
   const c = contrastPct / 100;
   const f = (259 * (c + 1)) / (255 * (1 - c)); // standard contrast formula
-  const out = new ImageData(data.width, data.height);
+  const out = blankLike(data);
   const src = data.data; const dst = out.data;
   for (let i = 0; i < src.length; i += 4) {
     dst[i] = clamp(f * (src[i] - 128) + 128 + b);
@@ -166,11 +416,30 @@ function hslToRgb(h: number, s: number, l: number): [number, number, number] {
   return [r * 255, g * 255, b * 255];
 }
 
-export function applySaturation(data: ImageData, saturationPct: number): ImageData {
+// 'hsl' scales HSL saturation (classic, but shifts lightness and hue);
+// 'oklch' scales OKLCH chroma of the image's colour space, keeping perceived
+// lightness and hue. Out-of-gamut results are clipped per channel.
+export type SaturationMode = 'hsl' | 'oklch';
+
+export function applySaturation<T extends PixelImage>(data: T, saturationPct: number, mode: SaturationMode = 'hsl', colorSpace: PredefinedColorSpace = 'srgb'): T {
   if (saturationPct === 0) return data;
   const factor = 1 + saturationPct / 100; // >1 more saturated, <1 desaturated
-  const out = new ImageData(data.width, data.height);
+  const out = blankLike(data);
   const src = data.data; const dst = out.data;
+  if (mode === 'oklch') {
+    const space = oklabSpace(colorSpace);
+    const lin = (v: number) => srgbToLinear(v / 255);
+    const enc = (v: number) => clamp(255 * linearToSrgb(Math.max(0, v)));
+    for (let i = 0; i < src.length; i += 4) {
+      const [L, a, b] = linearToOklab(lin(src[i]), lin(src[i + 1]), lin(src[i + 2]), space);
+      const [nr, ng, nb] = oklabToLinear(L, a * factor, b * factor, space);
+      dst[i] = enc(nr);
+      dst[i + 1] = enc(ng);
+      dst[i + 2] = enc(nb);
+      dst[i + 3] = src[i + 3];
+    }
+    return out;
+  }
   for (let i = 0; i < src.length; i += 4) {
     const r = src[i], g = src[i + 1], b = src[i + 2];
     let [h, s, l] = rgbToHsl(r, g, b);
@@ -184,8 +453,9 @@ export function applySaturation(data: ImageData, saturationPct: number): ImageDa
   return out;
 }
 
-// HSV helpers (GIMP-like Color Enhance operates in HSV)
-function rgbToHsv(r: number, g: number, b: number): [number, number, number] {
+// HSV helpers (GIMP-like Color Enhance operates in HSV; the pixel inspector shows it).
+// h, s and v are 0..1.
+export function rgbToHsv(r: number, g: number, b: number): [number, number, number] {
   r /= 255; g /= 255; b /= 255;
   const max = Math.max(r, g, b), min = Math.min(r, g, b);
   const v = max;
@@ -224,31 +494,14 @@ function hsvToRgb(h: number, s: number, v: number): [number, number, number] {
 // Auto Color Enhance (GIMP-like): globally stretch HSV saturation to full range.
 // We compute a histogram of S over the image, optionally clip low/high percentiles
 // to avoid outliers, then linearly map S to [0,1] using those bounds.
-export function applyAutoColorEnhance(data: ImageData, clipPct = 0.005): ImageData {
-  const { width, height } = data;
-  const src = data.data;
-  const npx = width * height;
-  if (npx === 0) return data;
-
-  const hist = new Uint32Array(256);
-  for (let i = 0; i < src.length; i += 4) {
-    const r = src[i], g = src[i + 1], b = src[i + 2];
-    const s = rgbToHsv(r, g, b)[1];
-    const bin = Math.max(0, Math.min(255, Math.round(s * 255)));
-    hist[bin]++;
-  }
-
-  const clipN = Math.max(0, Math.min(npx - 1, Math.round(npx * clipPct)));
-  let acc = 0; let sLoBin = 0; let sHiBin = 255;
-  for (let i = 0; i < 256; i++) { acc += hist[i]; if (acc > clipN) { sLoBin = i; break; } }
-  acc = 0; for (let i = 255; i >= 0; i--) { acc += hist[i]; if (acc > clipN) { sHiBin = i; break; } }
-  if (sHiBin <= sLoBin) return data; // nothing to stretch
-
-  const sLo = sLoBin / 255;
-  const sHi = sHiBin / 255;
+export function applyAutoColorEnhance<T extends PixelImage>(data: T, clipPct = 0.005): T {
+  const bounds = saturationStretchBounds(data, clipPct);
+  if (!bounds) return data; // nothing to stretch
+  const [sLo, sHi] = bounds;
   const scale = 1 / (sHi - sLo);
+  const src = data.data;
 
-  const out = new ImageData(width, height);
+  const out = blankLike(data);
   const dst = out.data;
   for (let i = 0; i < src.length; i += 4) {
     const r = src[i], g = src[i + 1], b = src[i + 2];
@@ -262,10 +515,42 @@ export function applyAutoColorEnhance(data: ImageData, clipPct = 0.005): ImageDa
   return out;
 }
 
-// Gaussian blur via separable convolution
-function makeGaussianKernel(sigma: number): { kernel: Float32Array; radius: number } {
+// Clipped HSV saturation range [lo, hi] (0..1) that Auto Color Enhance stretches to [0, 1]
+export function saturationStretchBounds(data: PixelImage, clipPct = 0.005): [number, number] | null {
+  const src = data.data;
+
+  // Weighted by alpha like computeHistograms
+  const hist = new Float64Array(256);
+  let npx = 0;
+  for (let i = 0; i < src.length; i += 4) {
+    const wt = src[i + 3] / 255;
+    if (wt === 0) continue;
+    const r = src[i], g = src[i + 1], b = src[i + 2];
+    const s = rgbToHsv(r, g, b)[1];
+    const bin = Math.max(0, Math.min(255, Math.round(s * 255)));
+    hist[bin] += wt;
+    npx += wt;
+  }
+  if (npx === 0) return null;
+
+  const clipN = Math.max(0, Math.min(npx - 1, Math.round(npx * clipPct)));
+  let acc = 0; let sLoBin = 0; let sHiBin = 255;
+  for (let i = 0; i < 256; i++) { acc += hist[i]; if (acc > clipN) { sLoBin = i; break; } }
+  acc = 0; for (let i = 255; i >= 0; i--) { acc += hist[i]; if (acc > clipN) { sHiBin = i; break; } }
+  if (sHiBin <= sLoBin) return null;
+  return [sLoBin / 255, sHiBin / 255];
+}
+
+// Blurs work on float planes, one per channel, so multi-pass filters don't
+// round between passes. Gaussians up to GAUSSIAN_EXACT_SIGMA use the exact
+// separable kernel; larger ones three box passes per axis as running sums, which
+// cost the same per pixel whatever the radius.
+export const GAUSSIAN_EXACT_SIGMA = 4;
+
+// Normalized Gaussian kernel of radius ceil(3σ)
+export function makeGaussianKernel(sigma: number): { kernel: Float32Array; radius: number } {
   if (sigma <= 0.1) return { kernel: new Float32Array([1]), radius: 0 };
-  const radius = Math.max(1, Math.min(20, Math.ceil(sigma * 3)));
+  const radius = Math.max(1, Math.ceil(sigma * 3));
   const size = radius * 2 + 1;
   const kernel = new Float32Array(size);
   const sigma2 = sigma * sigma;
@@ -279,66 +564,1351 @@ function makeGaussianKernel(sigma: number): { kernel: Float32Array; radius: numb
   return { kernel, radius };
 }
 
-export function applyGaussianBlur(data: ImageData, sigmaPx: number): ImageData {
+// Radii of three successive box blurs whose combined variance matches σ²
+// (box widths as in Kutskir's "fastest Gaussian blur")
+export function gaussianBoxRadii(sigma: number): number[] {
+  const n = 3;
+  let wl = Math.floor(Math.sqrt((12 * sigma * sigma) / n + 1));
+  if (wl % 2 === 0) wl--;
+  const m = Math.round((12 * sigma * sigma - n * wl * wl - 4 * n * wl - 3 * n) / (-4 * wl - 4));
+  return Array.from({ length: n }, (_, i) => ((i < m ? wl : wl + 2) - 1) / 2);
+}
+
+function convolveRows(src: Float32Array, dst: Float32Array, w: number, h: number, kernel: Float32Array, radius: number) {
+  for (let y = 0; y < h; y++) {
+    const row = y * w;
+    for (let x = 0; x < w; x++) {
+      let s = 0;
+      for (let k = -radius; k <= radius; k++) s += src[row + Math.min(w - 1, Math.max(0, x + k))] * kernel[k + radius];
+      dst[row + x] = s;
+    }
+  }
+}
+
+function convolveColumns(src: Float32Array, dst: Float32Array, w: number, h: number, kernel: Float32Array, radius: number) {
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      let s = 0;
+      for (let k = -radius; k <= radius; k++) s += src[Math.min(h - 1, Math.max(0, y + k)) * w + x] * kernel[k + radius];
+      dst[y * w + x] = s;
+    }
+  }
+}
+
+// Box of 2r + 1 taps along rows with edge clamping, as a running sum
+function boxRows(src: Float32Array, dst: Float32Array, w: number, h: number, r: number) {
+  const n = 2 * r + 1;
+  for (let y = 0; y < h; y++) {
+    const row = y * w;
+    let s = 0;
+    for (let k = -r; k <= r; k++) s += src[row + Math.min(w - 1, Math.max(0, k))];
+    for (let x = 0; x < w; x++) {
+      dst[row + x] = s / n;
+      s += src[row + Math.min(w - 1, x + r + 1)] - src[row + Math.max(0, x - r)];
+    }
+  }
+}
+
+// Same down the columns, keeping one running sum per column so rows are read in order
+function boxColumns(src: Float32Array, dst: Float32Array, w: number, h: number, r: number) {
+  const n = 2 * r + 1;
+  const sums = new Float64Array(w);
+  for (let k = -r; k <= r; k++) {
+    const row = Math.min(h - 1, Math.max(0, k)) * w;
+    for (let x = 0; x < w; x++) sums[x] += src[row + x];
+  }
+  for (let y = 0; y < h; y++) {
+    const row = y * w;
+    const add = Math.min(h - 1, y + r + 1) * w, sub = Math.max(0, y - r) * w;
+    for (let x = 0; x < w; x++) {
+      dst[row + x] = sums[x] / n;
+      sums[x] += src[add + x] - src[sub + x];
+    }
+  }
+}
+
+// Gaussian blur of a single float plane
+function blurPlane(plane: Float32Array, w: number, h: number, sigma: number): Float32Array {
+  if (sigma <= 0.1) return plane;
+  const a = new Float32Array(plane.length);
+  const b = new Float32Array(plane.length);
+  if (sigma <= GAUSSIAN_EXACT_SIGMA) {
+    const { kernel, radius } = makeGaussianKernel(sigma);
+    convolveRows(plane, a, w, h, kernel, radius);
+    convolveColumns(a, b, w, h, kernel, radius);
+    return b;
+  }
+  const [r0, r1, r2] = gaussianBoxRadii(sigma);
+  boxRows(plane, a, w, h, r0);
+  boxRows(a, b, w, h, r1);
+  boxRows(b, a, w, h, r2);
+  boxColumns(a, b, w, h, r0);
+  boxColumns(b, a, w, h, r1);
+  boxColumns(a, b, w, h, r2);
+  return b;
+}
+
+// Lens (disc) blur of radius r with an antialiased rim. Each disc row is a
+// horizontal span read from per-row prefix sums, so the cost grows with r rather than r².
+function discPlane(plane: Float32Array, w: number, h: number, r: number): Float32Array {
+  if (r < 0.5) return plane;
+  const ri = Math.ceil(r);
+  // Rows padded by ri + 1 clamped samples on both sides; pw + 1 prefix entries each
+  const pw = w + 2 * ri + 2;
+  const prefix = new Float32Array((pw + 1) * h);
+  for (let y = 0; y < h; y++) {
+    const base = y * (pw + 1);
+    let s = 0;
+    for (let i = 0; i < pw; i++) {
+      s += plane[y * w + Math.min(w - 1, Math.max(0, i - ri - 1))];
+      prefix[base + i + 1] = s;
+    }
+  }
+  const out = new Float32Array(w * h);
+  let total = 0;
+  for (let dy = -ri; dy <= ri; dy++) {
+    // Half-width of this disc row, split into whole pixels and a fractional rim
+    const a = Math.sqrt(Math.max(0, r * r - dy * dy));
+    if (a <= 0 && dy !== 0) continue;
+    const whole = Math.min(ri, Math.floor(a)), frac = Math.min(1, a - whole);
+    total += 2 * whole + 1 + 2 * frac;
+    for (let y = 0; y < h; y++) {
+      const base = Math.min(h - 1, Math.max(0, y + dy)) * (pw + 1);
+      const row = y * w;
+      // Span [c - whole, c + whole] around the padded column c = x + ri + 1
+      let lo = base + ri + 1 - whole, hi = base + ri + 2 + whole;
+      for (let x = 0; x < w; x++, lo++, hi++) {
+        let s = prefix[hi] - prefix[lo];
+        if (frac > 0) s += frac * (prefix[lo] - prefix[lo - 1] + prefix[hi + 1] - prefix[hi]);
+        out[row + x] += s;
+      }
+    }
+  }
+  for (let i = 0; i < out.length; i++) out[i] /= total;
+  return out;
+}
+
+// Bilinear sample with edge clamping
+function samplePlane(plane: Float32Array, w: number, h: number, x: number, y: number): number {
+  x = Math.min(w - 1, Math.max(0, x));
+  y = Math.min(h - 1, Math.max(0, y));
+  const x0 = Math.floor(x), y0 = Math.floor(y);
+  const x1 = Math.min(w - 1, x0 + 1), y1 = Math.min(h - 1, y0 + 1);
+  const tx = x - x0, ty = y - y0;
+  const top = plane[y0 * w + x0] * (1 - tx) + plane[y0 * w + x1] * tx;
+  const bot = plane[y1 * w + x0] * (1 - tx) + plane[y1 * w + x1] * tx;
+  return top * (1 - ty) + bot * ty;
+}
+
+// Passes of the motion blur: each one averages the image with itself shifted by
+// ±offset along the direction, doubling the offset, which builds a box of
+// 2^n evenly spaced taps over `length` in n passes
+export function motionBlurOffsets(length: number): number[] {
+  if (length < 1) return [];
+  const n = Math.max(1, Math.ceil(Math.log2(length)));
+  const step = length / 2 ** n;
+  return Array.from({ length: n }, (_, k) => (step * 2 ** k) / 2);
+}
+
+function motionPlane(plane: Float32Array, w: number, h: number, length: number, angle: number): Float32Array {
+  const dx = Math.cos(angle), dy = -Math.sin(angle); // angle counter-clockwise, y down
+  let cur = plane;
+  for (const off of motionBlurOffsets(length)) {
+    const next = new Float32Array(w * h);
+    const ox = dx * off, oy = dy * off;
+    for (let y = 0; y < h; y++) {
+      for (let x = 0; x < w; x++) {
+        next[y * w + x] = (samplePlane(cur, w, h, x - ox, y - oy) + samplePlane(cur, w, h, x + ox, y + oy)) / 2;
+      }
+    }
+    cur = next;
+  }
+  return cur;
+}
+
+// Runs `filter` on a copy box-downsampled by `f` and upsamples the result bilinearly.
+// Used for large blurs, where the lost detail is blurred away anyway.
+function reducedPlane(plane: Float32Array, w: number, h: number, f: number, filter: (small: Float32Array, sw: number, sh: number) => Float32Array): Float32Array {
+  if (f <= 1) return filter(plane, w, h);
+  const sw = Math.ceil(w / f), sh = Math.ceil(h / f);
+  const small = new Float32Array(sw * sh);
+  const count = new Float32Array(sw * sh);
+  for (let y = 0; y < h; y++) {
+    const sy = Math.floor(y / f) * sw;
+    for (let x = 0; x < w; x++) {
+      small[sy + Math.floor(x / f)] += plane[y * w + x];
+      count[sy + Math.floor(x / f)]++;
+    }
+  }
+  for (let i = 0; i < small.length; i++) small[i] /= count[i];
+  const filtered = filter(small, sw, sh);
+  const out = new Float32Array(w * h);
+  for (let y = 0; y < h; y++) {
+    const fy = (y + 0.5) / f - 0.5;
+    for (let x = 0; x < w; x++) out[y * w + x] = samplePlane(filtered, sw, sh, (x + 0.5) / f - 0.5, fy);
+  }
+  return out;
+}
+
+// Large Gaussians are computed on a reduced copy (at least 4 px of sigma remain
+// per sample, so the result stays smooth)
+function blurPlaneReduced(plane: Float32Array, w: number, h: number, sigma: number): Float32Array {
+  const f = Math.max(1, Math.floor(sigma / 4));
+  return reducedPlane(plane, w, h, f, (s, sw, sh) => blurPlane(s, sw, sh, sigma / f));
+}
+
+function isOpaque(data: PixelImage): boolean {
+  const src = data.data;
+  for (let i = 3; i < src.length; i += 4) if (src[i] !== 255) return false;
+  return true;
+}
+
+// Colour from premultiplied colour and alpha (both 0..255 scale)
+function unpremultiply(v: number, a: number): number {
+  return a > 0 ? Math.min(255, (v * 255) / a) : 0;
+}
+
+// Applies a plane filter to each channel. Colour is filtered premultiplied by
+// alpha, so transparent pixels don't bleed their invisible colour into the
+// result; alpha is filtered too unless `preserveAlpha`.
+function filterChannels<T extends PixelImage>(data: T, filter: (plane: Float32Array, channel: number) => Float32Array, preserveAlpha = false): T {
+  const w = data.width, h = data.height;
+  const src = data.data;
+  const res0 = blankLike(data);
+  const out = res0.data;
+  const n = w * h;
+  const opaque = isOpaque(data);
+  let alpha: Float32Array | null = null; // filtered alpha, for unpremultiplying
+  if (!opaque) {
+    const a = new Float32Array(n);
+    for (let p = 0; p < n; p++) a[p] = src[p * 4 + 3];
+    alpha = filter(Float32Array.from(a), 3);
+    for (let p = 0, i = 3; p < n; p++, i += 4) out[i] = preserveAlpha ? src[i] : alpha[p];
+  } else {
+    for (let i = 3; i < src.length; i += 4) out[i] = 255;
+  }
+  const plane = new Float32Array(n);
+  for (let c = 0; c < 3; c++) {
+    let uniform = true;
+    for (let p = 0, i = c; p < n; p++, i += 4) {
+      plane[p] = opaque ? src[i] : (src[i] * src[p * 4 + 3]) / 255;
+      if (plane[p] !== plane[0]) uniform = false;
+    }
+    // A flat channel is unchanged by any of the blurs
+    const res = uniform ? plane : filter(plane, c);
+    if (alpha) for (let p = 0, i = c; p < n; p++, i += 4) out[i] = unpremultiply(res[p], alpha[p]);
+    else for (let p = 0, i = c; p < n; p++, i += 4) out[i] = res[p];
+  }
+  return res0;
+}
+
+export function applyGaussianBlur<T extends PixelImage>(data: T, sigmaPx: number, preserveAlpha = false): T {
   if (sigmaPx <= 0.1) return data;
-  const { kernel, radius } = makeGaussianKernel(sigmaPx);
+  return filterChannels(data, plane => blurPlane(plane, data.width, data.height, sigmaPx), preserveAlpha);
+}
+
+// Lens blur with a flat disc kernel. `highlights` (0..1) weights bright pixels
+// more, so point lights spread into bright discs as with a real lens.
+export function applyLensBlur<T extends PixelImage>(data: T, radius: number, highlights = 0, preserveAlpha = false): T {
+  if (radius < 0.5) return data;
+  const w = data.width, h = data.height;
+  // Keep the disc at most ~20 px on the working copy
+  const f = Math.max(1, Math.floor(radius / 10));
+  const gamma = 1 + 4 * highlights;
+  return filterChannels(data, (plane, c) => {
+    const boost = c < 3 && gamma > 1;
+    if (boost) for (let p = 0; p < plane.length; p++) plane[p] = 255 * (plane[p] / 255) ** gamma;
+    const res = reducedPlane(plane, w, h, f, (s, sw, sh) => discPlane(s, sw, sh, radius / f));
+    if (boost) for (let p = 0; p < res.length; p++) res[p] = 255 * (res[p] / 255) ** (1 / gamma);
+    return res;
+  }, preserveAlpha);
+}
+
+// Linear motion blur over `length` px centred on each pixel; angle in degrees
+// counter-clockwise from horizontal
+export function applyMotionBlur<T extends PixelImage>(data: T, length: number, angleDeg: number, preserveAlpha = false): T {
+  if (length < 1) return data;
+  const w = data.width, h = data.height;
+  // Very long blurs (full-resolution exports) run on a slightly reduced copy
+  const f = Math.max(1, Math.floor(length / 128));
+  const angle = (angleDeg * Math.PI) / 180;
+  return filterChannels(data, plane => reducedPlane(plane, w, h, f, (s, sw, sh) => motionPlane(s, sw, sh, length / f, angle)), preserveAlpha);
+}
+
+export type UnsharpOptions = {
+  amount: number; // 1 = add 100% of the detail
+  radius: number; // Gaussian sigma in px
+  threshold?: number; // 0..255, smaller differences are left alone (protects noise and flat areas)
+};
+
+// Classic unsharp mask, per channel: out = src + amount * (src - blur) where |src - blur| >= threshold
+export function applyUnsharpMask<T extends PixelImage>(data: T, opts: UnsharpOptions): T {
+  const { amount, radius, threshold = 0 } = opts;
+  if (amount <= 0 || radius <= 0.1) return data;
+  const blurred = applyGaussianBlur(data, radius).data;
+  const src = data.data;
+  const res = blankLike(data);
+  const out = res.data;
+  for (let i = 0; i < src.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      const diff = src[i + c] - blurred[i + c];
+      out[i + c] = Math.abs(diff) < threshold ? src[i + c] : clamp(src[i + c] + amount * diff);
+    }
+    out[i + 3] = src[i + 3];
+  }
+  return res;
+}
+
+// Clarity: large-radius local contrast on luminance, strongest in the midtones.
+// Negative amounts flatten local contrast (a softer, less "rendered" look).
+export function applyClarity<T extends PixelImage>(data: T, amount: number, radius: number): T {
+  if (amount === 0 || radius <= 0.1) return data;
   const w = data.width, h = data.height;
   const src = data.data;
-  const tmp = new Uint8ClampedArray(src.length);
-  const out = new Uint8ClampedArray(src.length);
+  const luma = new Float32Array(w * h);
+  for (let i = 0, p = 0; p < luma.length; i += 4, p++) {
+    luma[p] = 0.2126 * src[i] + 0.7152 * src[i + 1] + 0.0722 * src[i + 2];
+  }
+  // The local mean only counts visible pixels (premultiplied like the blurs)
+  let blurred: Float32Array;
+  if (isOpaque(data)) {
+    blurred = blurPlaneReduced(luma, w, h, radius);
+  } else {
+    const a = new Float32Array(w * h), pm = new Float32Array(w * h);
+    for (let p = 0; p < a.length; p++) { a[p] = src[p * 4 + 3]; pm[p] = (luma[p] * a[p]) / 255; }
+    const ba = blurPlaneReduced(a, w, h, radius);
+    blurred = blurPlaneReduced(pm, w, h, radius);
+    for (let p = 0; p < blurred.length; p++) blurred[p] = ba[p] > 0 ? unpremultiply(blurred[p], ba[p]) : luma[p];
+  }
+  const res = blankLike(data);
+  const out = res.data;
+  for (let i = 0, p = 0; p < luma.length; i += 4, p++) {
+    const l = luma[p];
+    const m = 2 * (l / 255) - 1;
+    const weight = 1 - m * m; // 0 at black and white, 1 at mid grey
+    const delta = amount * (l - blurred[p]) * weight;
+    out[i] = clamp(src[i] + delta);
+    out[i + 1] = clamp(src[i + 1] + delta);
+    out[i + 2] = clamp(src[i + 2] + delta);
+    out[i + 3] = src[i + 3];
+  }
+  return res;
+}
+
+// LUT-based tone operations (Levels, Curves)
+
+// Table value at a fractional level, interpolating between entries
+export function lutLookup(lut: Lut, v: number): number {
+  const i = Math.min(254, Math.max(0, Math.floor(v)));
+  return lut[i] + (lut[i + 1] - lut[i]) * (v - i);
+}
+
+export function applyLuts<T extends PixelImage>(data: T, lr: Lut, lg: Lut, lb: Lut): T {
+  const src = data.data;
+  const out = blankLike(data);
+  const dst = out.data;
+  if (!isFloatImage(data)) {
+    for (let i = 0; i < src.length; i += 4) {
+      dst[i] = lr[src[i]];
+      dst[i + 1] = lg[src[i + 1]];
+      dst[i + 2] = lb[src[i + 2]];
+      dst[i + 3] = src[i + 3];
+    }
+    return out;
+  }
+  for (let i = 0; i < src.length; i += 4) {
+    dst[i] = lutLookup(lr, src[i]);
+    dst[i + 1] = lutLookup(lg, src[i + 1]);
+    dst[i + 2] = lutLookup(lb, src[i + 2]);
+    dst[i + 3] = src[i + 3];
+  }
+  return out;
+}
+
+// outer(inner(v))
+function composeLuts(inner: Lut, outer: Lut): Lut {
+  const lut = new Float32Array(256);
+  for (let v = 0; v < 256; v++) lut[v] = lutLookup(outer, inner[v]);
+  return lut;
+}
+
+export type LevelsChannel = {
+  inBlack: number; // 0..255
+  inWhite: number; // 0..255
+  gamma: number; // midtone gamma, 1 = linear; >1 brightens
+  outBlack: number;
+  outWhite: number;
+};
+
+export type RgbChannels<T> = { master: T; r: T; g: T; b: T };
+
+export const IDENTITY_LEVELS: LevelsChannel = { inBlack: 0, inWhite: 255, gamma: 1, outBlack: 0, outWhite: 255 };
+
+export function levelsLut({ inBlack, inWhite, gamma, outBlack, outWhite }: LevelsChannel): Lut {
+  const lut = new Float32Array(256);
+  const range = Math.max(1, inWhite - inBlack);
+  const invGamma = 1 / Math.max(0.01, gamma);
+  for (let v = 0; v < 256; v++) {
+    let t = (v - inBlack) / range;
+    t = t < 0 ? 0 : t > 1 ? 1 : t;
+    lut[v] = outBlack + Math.pow(t, invGamma) * (outWhite - outBlack);
+  }
+  return lut;
+}
+
+// Per-channel levels are applied first, then the master levels
+// Exposure in stops: scales linear-light values by 2^ev, clipping at white.
+// Expects linear input (the pipeline linearizes for it, see OperationDef.linear).
+export function exposureLut(ev: number): Lut {
+  const gain = Math.pow(2, ev);
+  const lut = new Float32Array(256);
+  for (let v = 0; v < 256; v++) lut[v] = Math.min(255, v * gain);
+  return lut;
+}
+
+export function applyExposure<T extends PixelImage>(data: T, ev: number): T {
+  const lut = exposureLut(ev);
+  return applyLuts(data, lut, lut, lut);
+}
+
+export function applyLevels<T extends PixelImage>(data: T, levels: RgbChannels<LevelsChannel>): T {
+  return applyLuts(data, ...levelsLuts(levels));
+}
+
+export function levelsLuts(levels: RgbChannels<LevelsChannel>): RgbLuts {
+  const master = levelsLut(levels.master);
+  return [
+    composeLuts(levelsLut(levels.r), master),
+    composeLuts(levelsLut(levels.g), master),
+    composeLuts(levelsLut(levels.b), master),
+  ];
+}
+
+// Control points flattened as [x0, y0, x1, y1, ...] in 0..255 with ascending x
+export type CurvePoints = number[];
+
+export const IDENTITY_CURVE: CurvePoints = [0, 0, 255, 255];
+export const MAX_CURVE_POINTS = 16;
+
+// Monotone cubic (Fritsch–Carlson) through the control points, so the curve
+// never overshoots between points; flat beyond the first/last point.
+export function curveLut(points: CurvePoints): Lut {
+  const xs: number[] = [], ys: number[] = [];
+  for (let i = 0; i + 1 < points.length; i += 2) { xs.push(points[i]); ys.push(points[i + 1]); }
+  const lut = new Float32Array(256);
+  const n = xs.length;
+  if (n === 0) { for (let v = 0; v < 256; v++) lut[v] = v; return lut; }
+  if (n === 1) { lut.fill(ys[0]); return lut; }
+
+  const d: number[] = [];
+  for (let i = 0; i < n - 1; i++) d.push((ys[i + 1] - ys[i]) / Math.max(1e-6, xs[i + 1] - xs[i]));
+  const m: number[] = new Array(n);
+  m[0] = d[0];
+  m[n - 1] = d[n - 2];
+  for (let i = 1; i < n - 1; i++) m[i] = d[i - 1] * d[i] <= 0 ? 0 : (d[i - 1] + d[i]) / 2;
+  for (let i = 0; i < n - 1; i++) {
+    if (d[i] === 0) { m[i] = 0; m[i + 1] = 0; continue; }
+    const a = m[i] / d[i], b = m[i + 1] / d[i];
+    const h = a * a + b * b;
+    if (h > 9) {
+      const t = 3 / Math.sqrt(h);
+      m[i] = t * a * d[i];
+      m[i + 1] = t * b * d[i];
+    }
+  }
+
+  let seg = 0;
+  for (let v = 0; v < 256; v++) {
+    if (v <= xs[0]) { lut[v] = ys[0]; continue; }
+    if (v >= xs[n - 1]) { lut[v] = ys[n - 1]; continue; }
+    while (seg < n - 2 && v > xs[seg + 1]) seg++;
+    const hx = xs[seg + 1] - xs[seg];
+    const t = (v - xs[seg]) / hx;
+    const t2 = t * t, t3 = t2 * t;
+    lut[v] = (2 * t3 - 3 * t2 + 1) * ys[seg] + (t3 - 2 * t2 + t) * hx * m[seg]
+      + (-2 * t3 + 3 * t2) * ys[seg + 1] + (t3 - t2) * hx * m[seg + 1];
+  }
+  return lut;
+}
+
+// Per-channel curves are applied first, then the master (RGB) curve
+export function applyCurves<T extends PixelImage>(data: T, curves: RgbChannels<CurvePoints>): T {
+  return applyLuts(data, ...curvesLuts(curves));
+}
+
+export function curvesLuts(curves: RgbChannels<CurvePoints>): RgbLuts {
+  const master = curveLut(curves.master);
+  return [
+    composeLuts(curveLut(curves.r), master),
+    composeLuts(curveLut(curves.g), master),
+    composeLuts(curveLut(curves.b), master),
+  ];
+}
+
+// ---------------------------------------------------------------------------
+// JPEG compression simulation: a baseline JPEG encode/decode round trip
+// without the entropy coding, which is lossless and doesn't change pixels.
+
+export type ChromaSubsampling = '444' | '422' | '420';
+
+export type JpegOptions = {
+  quality: number; // 1..100, libjpeg scale
+  subsampling?: ChromaSubsampling;
+  generations?: number; // repeated re-encodes, as with re-uploads
+  outputScale?: number; // output px per image px, see applyJpegCompression
+};
 
-  // Horizontal pass
+// ITU-T T.81 Annex K tables, row-major
+const JPEG_LUMA_Q = [
+  16, 11, 10, 16, 24, 40, 51, 61, 12, 12, 14, 19, 26, 58, 60, 55,
+  14, 13, 16, 24, 40, 57, 69, 56, 14, 17, 22, 29, 51, 87, 80, 62,
+  18, 22, 37, 56, 68, 109, 103, 77, 24, 35, 55, 64, 81, 104, 113, 92,
+  49, 64, 78, 87, 103, 121, 120, 101, 72, 92, 95, 98, 112, 100, 103, 99,
+];
+const JPEG_CHROMA_Q = [
+  17, 18, 24, 47, 99, 99, 99, 99, 18, 21, 26, 66, 99, 99, 99, 99,
+  24, 26, 56, 99, 99, 99, 99, 99, 47, 66, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99,
+  99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99, 99,
+];
+
+// Same scaling as libjpeg's jpeg_quality_scaling
+function jpegQuantTable(base: number[], quality: number): Float32Array {
+  const q = Math.min(100, Math.max(1, Math.round(quality)));
+  const scale = q < 50 ? 5000 / q : 200 - q * 2;
+  return Float32Array.from(base, v => Math.min(255, Math.max(1, Math.floor((v * scale + 50) / 100))));
+}
+
+// Orthonormal 8-point DCT-II basis: T[u*8+x]; forward is T·f·Tᵀ, inverse Tᵀ·F·T
+const DCT_T = (() => {
+  const t = new Float32Array(64);
+  for (let u = 0; u < 8; u++) {
+    const c = u === 0 ? Math.SQRT1_2 : 1;
+    for (let x = 0; x < 8; x++) t[u * 8 + x] = 0.5 * c * Math.cos(((2 * x + 1) * u * Math.PI) / 16);
+  }
+  return t;
+})();
+
+// Quantizes every 8×8 block of a plane in place (dimensions are multiples of 8)
+function quantizePlane(plane: Float32Array, w: number, h: number, qt: Float32Array) {
+  const blk = new Float32Array(64);
+  const tmp = new Float32Array(64);
+  for (let by = 0; by < h; by += 8) {
+    for (let bx = 0; bx < w; bx += 8) {
+      for (let y = 0; y < 8; y++) for (let x = 0; x < 8; x++) blk[y * 8 + x] = plane[(by + y) * w + bx + x] - 128;
+      // rows, then columns
+      for (let y = 0; y < 8; y++) {
+        for (let u = 0; u < 8; u++) {
+          let s = 0;
+          for (let x = 0; x < 8; x++) s += DCT_T[u * 8 + x] * blk[y * 8 + x];
+          tmp[y * 8 + u] = s;
+        }
+      }
+      for (let u = 0; u < 8; u++) {
+        for (let v = 0; v < 8; v++) {
+          let s = 0;
+          for (let y = 0; y < 8; y++) s += DCT_T[v * 8 + y] * tmp[y * 8 + u];
+          const q = qt[v * 8 + u];
+          blk[v * 8 + u] = Math.round(s / q) * q;
+        }
+      }
+      for (let v = 0; v < 8; v++) {
+        for (let x = 0; x < 8; x++) {
+          let s = 0;
+          for (let u = 0; u < 8; u++) s += DCT_T[u * 8 + x] * blk[v * 8 + u];
+          tmp[v * 8 + x] = s;
+        }
+      }
+      for (let y = 0; y < 8; y++) {
+        for (let x = 0; x < 8; x++) {
+          let s = 0;
+          for (let v = 0; v < 8; v++) s += DCT_T[v * 8 + y] * tmp[v * 8 + x];
+          // Decoders output 8-bit samples
+          plane[(by + y) * w + bx + x] = clamp(Math.round(s + 128));
+        }
+      }
+    }
+  }
+}
+
+function jpegRoundTrip(src: Uint8ClampedArray, out: Uint8ClampedArray, w: number, h: number, lq: Float32Array, cq: Float32Array, sx: number, sy: number) {
+  // Pad to whole MCUs by repeating the last row/column, as encoders do
+  const pw = Math.ceil(w / (8 * sx)) * 8 * sx;
+  const ph = Math.ceil(h / (8 * sy)) * 8 * sy;
+  const Y = new Float32Array(pw * ph);
+  const Cb = new Float32Array(pw * ph);
+  const Cr = new Float32Array(pw * ph);
+  for (let y = 0; y < ph; y++) {
+    const row = Math.min(y, h - 1) * w;
+    for (let x = 0; x < pw; x++) {
+      const i = (row + Math.min(x, w - 1)) * 4;
+      const r = src[i], g = src[i + 1], b = src[i + 2];
+      const j = y * pw + x;
+      Y[j] = clamp(Math.round(0.299 * r + 0.587 * g + 0.114 * b));
+      Cb[j] = clamp(Math.round(-0.168736 * r - 0.331264 * g + 0.5 * b + 128));
+      Cr[j] = clamp(Math.round(0.5 * r - 0.418688 * g - 0.081312 * b + 128));
+    }
+  }
+  quantizePlane(Y, pw, ph, lq);
+
+  // Box-filtered chroma planes at the subsampled size
+  const cw = pw / sx, ch = ph / sy;
+  const sub = (plane: Float32Array) => {
+    if (sx === 1 && sy === 1) return plane;
+    const o = new Float32Array(cw * ch);
+    for (let y = 0; y < ch; y++) {
+      for (let x = 0; x < cw; x++) {
+        let s = 0;
+        for (let dy = 0; dy < sy; dy++) for (let dx = 0; dx < sx; dx++) s += plane[(y * sy + dy) * pw + x * sx + dx];
+        o[y * cw + x] = Math.round(s / (sx * sy));
+      }
+    }
+    return o;
+  };
+  const cb = sub(Cb), cr = sub(Cr);
+  quantizePlane(cb, cw, ch, cq);
+  quantizePlane(cr, cw, ch, cq);
+
+  // Centred bilinear upsampling, close to libjpeg's "fancy" upsampling
+  const sample = (plane: Float32Array, x: number, y: number) => {
+    if (sx === 1 && sy === 1) return plane[y * cw + x];
+    const fx = Math.min(cw - 1, Math.max(0, (x + 0.5) / sx - 0.5));
+    const fy = Math.min(ch - 1, Math.max(0, (y + 0.5) / sy - 0.5));
+    const x0 = Math.floor(fx), y0 = Math.floor(fy);
+    const x1 = Math.min(cw - 1, x0 + 1), y1 = Math.min(ch - 1, y0 + 1);
+    const tx = fx - x0, ty = fy - y0;
+    const top = plane[y0 * cw + x0] * (1 - tx) + plane[y0 * cw + x1] * tx;
+    const bot = plane[y1 * cw + x0] * (1 - tx) + plane[y1 * cw + x1] * tx;
+    return top * (1 - ty) + bot * ty;
+  };
   for (let y = 0; y < h; y++) {
     for (let x = 0; x < w; x++) {
-      let r = 0, g = 0, b = 0, a = 0;
-      for (let k = -radius; k <= radius; k++) {
-        const xx = Math.min(w - 1, Math.max(0, x + k));
-        const idx = (y * w + xx) * 4;
-        const kv = kernel[k + radius];
-        r += src[idx] * kv;
-        g += src[idx + 1] * kv;
-        b += src[idx + 2] * kv;
-        a += src[idx + 3] * kv;
+      const yy = Y[y * pw + x];
+      const u = sample(cb, x, y) - 128;
+      const v = sample(cr, x, y) - 128;
+      const i = (y * w + x) * 4;
+      out[i] = clamp(Math.round(yy + 1.402 * v));
+      out[i + 1] = clamp(Math.round(yy - 0.344136 * u - 0.714136 * v));
+      out[i + 2] = clamp(Math.round(yy + 1.772 * u));
+      out[i + 3] = src[i + 3];
+    }
+  }
+}
+
+// Most pixels a preview is upsampled to for simulating blocks at output size
+const JPEG_PREVIEW_MAX_PIXELS = 12_000_000;
+
+// Whole upsampling factor used to simulate `outputScale` on a w × h preview
+export function jpegSimulationFactor(w: number, h: number, outputScale: number): number {
+  const fit = Math.floor(Math.sqrt(JPEG_PREVIEW_MAX_PIXELS / Math.max(1, w * h)));
+  return Math.max(1, Math.min(Math.round(outputScale), fit));
+}
+
+// Blocks are 8 px of the output, as with a real encoder. A downscaled preview
+// (`outputScale` > 1) is upsampled towards output size, compressed there and
+// shrunk back, so its blocks aren't coarser than the export's.
+export function applyJpegCompression(data: ImageData, opts: JpegOptions): ImageData {
+  const { width: w, height: h } = data;
+  const out = new ImageData(w, h);
+  if (w === 0 || h === 0) return out;
+  const f = jpegSimulationFactor(w, h, opts.outputScale ?? 1);
+  if (f > 1) {
+    const big = applyJpegCompression(applyTransform(data, IDENTITY_TRANSFORM, f), { ...opts, outputScale: 1 });
+    return applyTransform(big, IDENTITY_TRANSFORM, 1 / f);
+  }
+  const lq = jpegQuantTable(JPEG_LUMA_Q, opts.quality);
+  const cq = jpegQuantTable(JPEG_CHROMA_Q, opts.quality);
+  const sub = opts.subsampling ?? '420';
+  const sx = sub === '444' ? 1 : 2;
+  const sy = sub === '420' ? 2 : 1;
+  const generations = Math.max(1, Math.round(opts.generations ?? 1));
+  jpegRoundTrip(data.data, out.data, w, h, lq, cq, sx, sy);
+  for (let g = 1; g < generations; g++) jpegRoundTrip(out.data, out.data, w, h, lq, cq, sx, sy);
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Lens and camera effects. Positions are normalized to the image (radius 1 at
+// the corners), so they look the same on the preview and the full-size export.
+
+export type VignetteOptions = {
+  amount: number; // -1 (black corners) .. 1 (white corners)
+  midpoint: number; // 0..1, normalized radius where the falloff starts
+  roundness: number; // -1 (rectangular) .. 0 (follows the frame) .. 1 (circular)
+};
+
+// Distance d = ‖((x − cx)·kx, (y − cy)·ky)‖ₚ · norm is 1 at the corners; the
+// falloff runs from d = start to d = 1
+export type VignetteModel = { cx: number; cy: number; kx: number; ky: number; p: number; norm: number; start: number };
+
+export function vignetteModel(w: number, h: number, { midpoint, roundness }: VignetteOptions): VignetteModel {
+  const cx = w / 2, cy = h / 2;
+  // Elliptical coordinates reach ±1 at the frame edges; circular ones share a
+  // radius that puts the corners at the same distance (√2)
+  const r = Math.hypot(cx, cy) / Math.SQRT2;
+  const circ = Math.max(0, roundness);
+  // Negative roundness turns the ellipse into a superellipse
+  const p = 2 + Math.max(0, -roundness) * 6;
+  return {
+    cx, cy,
+    kx: (1 - circ) / cx + circ / r,
+    ky: (1 - circ) / cy + circ / r,
+    p,
+    norm: Math.pow(2, -1 / p), // corner distance -> 1
+    start: Math.min(0.99, Math.max(0, midpoint)),
+  };
+}
+
+export function applyVignette<T extends PixelImage>(data: T, opts: VignetteOptions): T {
+  const { amount } = opts;
+  const w = data.width, h = data.height;
+  const src = data.data;
+  const out = blankLike(data);
+  const dst = out.data;
+  const { cx, cy, kx, ky, p, norm, start } = vignetteModel(w, h, opts);
+  for (let y = 0; y < h; y++) {
+    const v = Math.abs((y + 0.5 - cy) * ky);
+    for (let x = 0; x < w; x++) {
+      const u = Math.abs((x + 0.5 - cx) * kx);
+      const d = (p === 2 ? Math.sqrt(u * u + v * v) : Math.pow(Math.pow(u, p) + Math.pow(v, p), 1 / p)) * norm;
+      const t = Math.min(1, Math.max(0, (d - start) / (1 - start)));
+      const f = amount * t * t * (3 - 2 * t);
+      const i = (y * w + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        dst[i + c] = f < 0 ? src[i + c] * (1 + f) : src[i + c] + (255 - src[i + c]) * f;
       }
-      const di = (y * w + x) * 4;
-      tmp[di] = r;
-      tmp[di + 1] = g;
-      tmp[di + 2] = b;
-      tmp[di + 3] = a;
+      dst[i + 3] = src[i + 3];
     }
   }
+  return out;
+}
 
-  // Vertical pass
+// Resamples each channel radially around the centre: channel c at output
+// radius ρ (normalized, squared as r2) is read from radius ρ · factor(c, r2)
+// Colour is sampled premultiplied by alpha; alpha follows green unless `preserveAlpha`
+function remapRadial<T extends PixelImage>(data: T, factor: (c: number, r2: number) => number, preserveAlpha = false): T {
+  const w = data.width, h = data.height;
+  const opaque = isOpaque(data);
+  const orig = data.data;
+  let src: PixelImage['data'] = orig;
+  if (!opaque) {
+    src = Float32Array.from(orig);
+    for (let i = 0; i < src.length; i += 4) {
+      const a = src[i + 3] / 255;
+      src[i] *= a; src[i + 1] *= a; src[i + 2] *= a;
+    }
+  }
+  const out = blankLike(data);
+  const dst = out.data;
+  const cx = w / 2, cy = h / 2;
+  const hd = Math.hypot(cx, cy);
+  const sample = (sx: number, sy: number, c: number) => {
+    const px = Math.min(w - 1, Math.max(0, sx - 0.5));
+    const py = Math.min(h - 1, Math.max(0, sy - 0.5));
+    const x0 = Math.floor(px), y0 = Math.floor(py);
+    const x1 = Math.min(w - 1, x0 + 1), y1 = Math.min(h - 1, y0 + 1);
+    const tx = px - x0, ty = py - y0;
+    const top = src[(y0 * w + x0) * 4 + c] * (1 - tx) + src[(y0 * w + x1) * 4 + c] * tx;
+    const bot = src[(y1 * w + x0) * 4 + c] * (1 - tx) + src[(y1 * w + x1) * 4 + c] * tx;
+    return top * (1 - ty) + bot * ty;
+  };
   for (let y = 0; y < h; y++) {
+    const dy = y + 0.5 - cy;
     for (let x = 0; x < w; x++) {
-      let r = 0, g = 0, b = 0, a = 0;
-      for (let k = -radius; k <= radius; k++) {
-        const yy = Math.min(h - 1, Math.max(0, y + k));
-        const idx = (yy * w + x) * 4;
-        const kv = kernel[k + radius];
-        r += tmp[idx] * kv;
-        g += tmp[idx + 1] * kv;
-        b += tmp[idx + 2] * kv;
-        a += tmp[idx + 3] * kv;
+      const dx = x + 0.5 - cx;
+      const r2 = (dx * dx + dy * dy) / (hd * hd);
+      const i = (y * w + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        const f = factor(c, r2);
+        const sx = cx + dx * f, sy = cy + dy * f;
+        const v = sample(sx, sy, c);
+        dst[i + c] = opaque ? v : unpremultiply(v, sample(sx, sy, 3));
       }
-      const di = (y * w + x) * 4;
-      out[di] = r;
-      out[di + 1] = g;
-      out[di + 2] = b;
-      out[di + 3] = a;
+      const fa = factor(1, r2);
+      dst[i + 3] = preserveAlpha ? orig[i + 3] : sample(cx + dx * fa, cy + dy * fa, 3);
     }
   }
+  return out;
+}
+
+// Lateral chromatic aberration: red and blue are magnified relative to green
+// by a fraction of the radius (e.g. 0.002 = 0.2%), so fringes grow towards the corners
+export function applyChromaticAberration<T extends PixelImage>(data: T, red: number, blue: number, preserveAlpha = false): T {
+  if (red === 0 && blue === 0) return data;
+  const fr = 1 / (1 + red), fb = 1 / (1 + blue);
+  return remapRadial(data, (c) => (c === 0 ? fr : c === 2 ? fb : 1), preserveAlpha);
+}
 
-  return new ImageData(out, w, h);
+// Radial lens distortion, amount -1..1: negative bulges the centre (barrel),
+// positive pinches it (pincushion). The result is scaled so no area outside
+// the source shows at the edges.
+export function applyLensDistortion<T extends PixelImage>(data: T, amount: number, preserveAlpha = false): T {
+  if (amount === 0) return data;
+  const { k, zoom } = lensDistortionModel(data.width, data.height, amount);
+  return remapRadial(data, (_c, r2) => (1 + k * r2) / zoom, preserveAlpha);
 }
 
-export function applyPipeline(input: ImageData, adj: Adjustments): ImageData {
-  let img = input;
-  if (adj.autoWhiteBalance) img = applyAutoWhiteBalance(img);
-  if (adj.autoColorEnhance) img = applyAutoColorEnhance(img);
-  if (adj.noiseSigma > 0) img = applyGaussianNoise(img, adj.noiseSigma);
-  if (adj.brightness !== 0 || adj.contrast !== 0) img = applyBrightnessContrast(img, adj.brightness, adj.contrast);
-  if (adj.saturation !== 0) img = applySaturation(img, adj.saturation);
-  if (adj.blurPx > 0) img = applyGaussianBlur(img, adj.blurPx);
-  return img;
+// Source radius = ρ · (1 + k·ρ²) / zoom, with ρ normalized to the half diagonal
+export function lensDistortionModel(w: number, h: number, amount: number): { k: number; zoom: number } {
+  const k = -amount / 4; // monotonic for |k| < 1/3
+  const cx = w / 2, cy = h / 2;
+  const hd = Math.hypot(cx, cy);
+  // Zoom needed to keep every border pixel's source inside the frame
+  let zoom = 1;
+  const steps = 64;
+  for (let s = 0; s <= steps; s++) {
+    const t = s / steps;
+    for (const [dx, dy] of [[cx * (2 * t - 1), cy], [cx, cy * (2 * t - 1)]]) {
+      const f = 1 + k * (dx * dx + dy * dy) / (hd * hd);
+      zoom = Math.max(zoom, Math.abs(dx * f) / cx, Math.abs(dy * f) / cy);
+    }
+  }
+  return { k, zoom };
+}
+
+export type BloomOptions = {
+  amount: number; // 0..1
+  threshold: number; // 0..255 luminance where the glow starts
+  radius: number; // Gaussian sigma in px
+  halation?: boolean; // red-orange film halation instead of a neutral glow
+};
+
+const HALATION_TINT = [1, 0.35, 0.12];
+
+// Blurs the highlights above the threshold and screens them back over the image
+export function applyBloom<T extends PixelImage>(data: T, opts: BloomOptions): T {
+  const { amount, threshold, radius, halation = false } = opts;
+  if (amount <= 0 || radius <= 0.1) return data;
+  const w = data.width, h = data.height;
+  const src = data.data;
+  const n = w * h;
+  // Soft knee: highlights fade in over the 32 levels above the threshold
+  const knee = Math.max(1, Math.min(32, 255 - threshold));
+  const planes = halation ? 1 : 3;
+  const bright = Array.from({ length: planes }, () => new Float32Array(n));
+  for (let i = 0, p = 0; p < n; i += 4, p++) {
+    const l = 0.2126 * src[i] + 0.7152 * src[i + 1] + 0.0722 * src[i + 2];
+    // Weighted by alpha so invisible pixels don't glow
+    const t = Math.min(1, Math.max(0, (l - threshold) / knee)) * (src[i + 3] / 255);
+    if (t === 0) continue;
+    if (halation) bright[0][p] = l * t;
+    else for (let c = 0; c < 3; c++) bright[c][p] = src[i + c] * t;
+  }
+  const glow = bright.map(plane => blurPlaneReduced(plane, w, h, radius));
+  const res = blankLike(data);
+  const out = res.data;
+  for (let i = 0, p = 0; p < n; i += 4, p++) {
+    for (let c = 0; c < 3; c++) {
+      const g = (halation ? glow[0][p] * HALATION_TINT[c] : glow[c][p]) * amount;
+      out[i + c] = 255 - (255 - src[i + c]) * (255 - Math.min(255, g)) / 255;
+    }
+    out[i + 3] = src[i + 3];
+  }
+  return res;
+}
+
+// ---------------------------------------------------------------------------
+// Operation registry and stack
+
+export type OpType =
+  | 'autoWhiteBalance'
+  | 'autoColorEnhance'
+  | 'noise'
+  | 'exposure'
+  | 'brightnessContrast'
+  | 'saturation'
+  | 'blur'
+  | 'sharpen'
+  | 'clarity'
+  | 'levels'
+  | 'curves'
+  | 'jpeg'
+  | 'vignette'
+  | 'chromaticAberration'
+  | 'lensDistortion'
+  | 'bloom';
+
+export type ParamValue = number | boolean | string | CurvePoints;
+export type OpParams = Record<string, ParamValue>;
+
+type ParamBase = {
+  key: string;
+  label: string;
+  group?: string; // params sharing a group are shown together under a tab
+};
+
+export type ParamDescriptor = ParamBase & (
+  | { kind: 'number'; min: number; max: number; step: number; default: number }
+  | { kind: 'boolean'; default: boolean }
+  | { kind: 'select'; options: { value: string; label: string }[]; default: string }
+  | { kind: 'seed'; default: number } // non-negative integer
+  | { kind: 'curve'; default: CurvePoints }
+);
+
+export type OpContext = {
+  scale: number; // source px per preview px, see PipelineOptions.scale
+  colorSpace: PredefinedColorSpace; // of the pipeline's input
+  preserveAlpha: boolean; // see PipelineOptions.preserveAlpha
+  linear: boolean; // the op's input is linear light, see OperationDef.linear
+  outputScale: number; // export px per input px, see PipelineOptions.outputScale
+};
+
+export type OperationDef = {
+  type: OpType;
+  label: string;
+  params: ParamDescriptor[];
+  // Returns the kind of image it was given, except where the op is inherently 8-bit
+  apply: (img: PixelImage, p: OpParams, ctx: OpContext) => PixelImage;
+  // True when the params make the op a no-op, so the pipeline can skip it
+  isIdentity?: (p: OpParams) => boolean;
+  // Per-channel LUT form of pointwise ops, so other backends can apply them
+  // without reimplementing the op. `image` reads the op's input on demand.
+  luts?: (p: OpParams, image: () => PixelImage) => RgbLuts | null;
+  // Runs on linear-light values: 'always', or 'working' when the working space
+  // is linear (see PipelineOptions.workingSpace). The pipeline converts around it.
+  linear?: 'always' | 'working';
+  // Shown on the op's card while the preview is smaller than the export, for
+  // ops that only approximate the export's look there
+  previewNote?: string;
+};
+
+// One entry in the user's ordered stack
+export type Operation = {
+  id: string;
+  type: OpType;
+  params: OpParams;
+  enabled: boolean;
+  mask?: Mask; // limits the op (and optionally the following ones) to part of the image
+};
+
+export type OpStack = Operation[];
+
+const num = (p: OpParams, key: string) => Number(p[key]) || 0;
+const curve = (p: OpParams, key: string): CurvePoints => (Array.isArray(p[key]) ? p[key] : IDENTITY_CURVE);
+
+const CHANNELS = [['master', 'RGB'], ['r', 'Red'], ['g', 'Green'], ['b', 'Blue']] as const;
+
+function levelsParams(): ParamDescriptor[] {
+  return CHANNELS.flatMap(([ch, group]): ParamDescriptor[] => [
+    { kind: 'number', key: `${ch}InBlack`, label: 'Input black', group, min: 0, max: 254, step: 1, default: 0 },
+    { kind: 'number', key: `${ch}InWhite`, label: 'Input white', group, min: 1, max: 255, step: 1, default: 255 },
+    { kind: 'number', key: `${ch}Gamma`, label: 'Gamma', group, min: 0.1, max: 5, step: 0.01, default: 1 },
+    { kind: 'number', key: `${ch}OutBlack`, label: 'Output black', group, min: 0, max: 255, step: 1, default: 0 },
+    { kind: 'number', key: `${ch}OutWhite`, label: 'Output white', group, min: 0, max: 255, step: 1, default: 255 },
+  ]);
+}
+
+function levelsFromParams(p: OpParams): RgbChannels<LevelsChannel> {
+  const ch = (c: string): LevelsChannel => ({
+    inBlack: num(p, `${c}InBlack`),
+    inWhite: num(p, `${c}InWhite`),
+    gamma: num(p, `${c}Gamma`),
+    outBlack: num(p, `${c}OutBlack`),
+    outWhite: num(p, `${c}OutWhite`),
+  });
+  return { master: ch('master'), r: ch('r'), g: ch('g'), b: ch('b') };
+}
+
+function isIdentityCurve(points: CurvePoints): boolean {
+  for (let i = 0; i + 1 < points.length; i += 2) if (points[i] !== points[i + 1]) return false;
+  return points.length >= 4;
+}
+
+export const operationRegistry: Record<OpType, OperationDef> = {
+  autoWhiteBalance: {
+    type: 'autoWhiteBalance',
+    label: 'Auto White Balance',
+    params: [{ kind: 'number', key: 'clipPct', label: 'Clip (%)', min: 0, max: 5, step: 0.1, default: 0.5 }],
+    apply: (img, p) => applyAutoWhiteBalance(img, num(p, 'clipPct') / 100),
+    luts: (p, image) => autoWhiteBalanceLuts(image(), num(p, 'clipPct') / 100),
+  },
+  autoColorEnhance: {
+    type: 'autoColorEnhance',
+    label: 'Auto Color Enhance',
+    params: [{ kind: 'number', key: 'clipPct', label: 'Clip (%)', min: 0, max: 5, step: 0.1, default: 0.5 }],
+    apply: (img, p) => applyAutoColorEnhance(img, num(p, 'clipPct') / 100),
+  },
+  noise: {
+    type: 'noise',
+    label: 'Noise',
+    params: [
+      { kind: 'number', key: 'sigma', label: 'Noise (σ)', min: 0, max: 50, step: 1, default: 0 },
+      { kind: 'number', key: 'size', label: 'Grain size (px)', min: 1, max: 8, step: 0.5, default: 1 },
+      {
+        kind: 'select', key: 'mode', label: 'Type', default: 'color',
+        options: [{ value: 'color', label: 'Colour (per channel)' }, { value: 'mono', label: 'Monochrome (luminance)' }],
+      },
+      { kind: 'number', key: 'shadows', label: 'Shadows (%)', min: 0, max: 200, step: 5, default: 100 },
+      { kind: 'number', key: 'highlights', label: 'Highlights (%)', min: 0, max: 200, step: 5, default: 100 },
+      { kind: 'seed', key: 'seed', label: 'Seed', default: 1 },
+    ],
+    apply: (img, p, ctx) => applyGaussianNoise(img, num(p, 'sigma'), {
+      seed: num(p, 'seed'),
+      grainPx: Math.max(1, num(p, 'size')) * ctx.scale,
+      monochrome: p.mode === 'mono',
+      shadows: num(p, 'shadows') / 100,
+      highlights: num(p, 'highlights') / 100,
+      linear: ctx.linear,
+    }),
+    isIdentity: (p) => num(p, 'sigma') <= 0,
+    linear: 'working',
+  },
+  exposure: {
+    type: 'exposure',
+    label: 'Exposure',
+    params: [{ kind: 'number', key: 'ev', label: 'Exposure (EV)', min: -5, max: 5, step: 0.05, default: 0 }],
+    apply: (img, p) => applyExposure(img, num(p, 'ev')),
+    luts: (p) => {
+      const lut = exposureLut(num(p, 'ev'));
+      return [lut, lut, lut];
+    },
+    isIdentity: (p) => num(p, 'ev') === 0,
+    linear: 'always',
+  },
+  brightnessContrast: {
+    type: 'brightnessContrast',
+    label: 'Brightness/Contrast',
+    params: [
+      { kind: 'number', key: 'brightness', label: 'Brightness (%)', min: -100, max: 100, step: 1, default: 0 },
+      { kind: 'number', key: 'contrast', label: 'Contrast (%)', min: -100, max: 100, step: 1, default: 0 },
+    ],
+    apply: (img, p) => applyBrightnessContrast(img, num(p, 'brightness'), num(p, 'contrast')),
+    isIdentity: (p) => num(p, 'brightness') === 0 && num(p, 'contrast') === 0,
+  },
+  saturation: {
+    type: 'saturation',
+    label: 'Saturation',
+    params: [
+      { kind: 'number', key: 'saturation', label: 'Saturation (%)', min: -100, max: 100, step: 1, default: 0 },
+      {
+        kind: 'select', key: 'mode', label: 'Model', default: 'hsl',
+        options: [{ value: 'hsl', label: 'HSL' }, { value: 'oklch', label: 'OKLCH (perceptual)' }],
+      },
+    ],
+    apply: (img, p, ctx) => applySaturation(img, num(p, 'saturation'), p.mode === 'oklch' ? 'oklch' : 'hsl', ctx.colorSpace),
+    isIdentity: (p) => num(p, 'saturation') === 0,
+  },
+  blur: {
+    type: 'blur',
+    label: 'Blur',
+    params: [
+      {
+        kind: 'select',
+        key: 'mode',
+        label: 'Mode',
+        options: [
+          { value: 'gaussian', label: 'Gaussian' },
+          { value: 'lens', label: 'Lens (bokeh)' },
+          { value: 'motion', label: 'Motion' },
+        ],
+        default: 'gaussian',
+      },
+      // Gaussian σ, lens disc radius or motion length
+      { kind: 'number', key: 'sigma', label: 'Radius (px)', min: 0, max: 100, step: 0.1, default: 0 },
+      { kind: 'number', key: 'highlights', label: 'Bokeh highlights (%)', min: 0, max: 100, step: 1, default: 0 },
+      { kind: 'number', key: 'angle', label: 'Motion angle (°)', min: -90, max: 90, step: 1, default: 0 },
+    ],
+    apply: (img, p, ctx) => {
+      const r = num(p, 'sigma') * ctx.scale;
+      if (p.mode === 'lens') return applyLensBlur(img, r, num(p, 'highlights') / 100, ctx.preserveAlpha);
+      if (p.mode === 'motion') return applyMotionBlur(img, r, num(p, 'angle'), ctx.preserveAlpha);
+      return applyGaussianBlur(img, r, ctx.preserveAlpha);
+    },
+    isIdentity: (p) => num(p, 'sigma') <= 0,
+    linear: 'working',
+  },
+  sharpen: {
+    type: 'sharpen',
+    label: 'Unsharp Mask',
+    params: [
+      { kind: 'number', key: 'amount', label: 'Amount (%)', min: 0, max: 500, step: 5, default: 0 },
+      { kind: 'number', key: 'radius', label: 'Radius (px)', min: 0.2, max: 10, step: 0.1, default: 1 },
+      { kind: 'number', key: 'threshold', label: 'Threshold', min: 0, max: 255, step: 1, default: 0 },
+    ],
+    apply: (img, p, ctx) => applyUnsharpMask(img, {
+      amount: num(p, 'amount') / 100,
+      radius: num(p, 'radius') * ctx.scale,
+      threshold: num(p, 'threshold'),
+    }),
+    isIdentity: (p) => num(p, 'amount') <= 0,
+  },
+  clarity: {
+    type: 'clarity',
+    label: 'Clarity',
+    params: [
+      { kind: 'number', key: 'amount', label: 'Amount (%)', min: -100, max: 100, step: 1, default: 0 },
+      { kind: 'number', key: 'radius', label: 'Radius (px)', min: 2, max: 30, step: 1, default: 10 },
+    ],
+    apply: (img, p, ctx) => applyClarity(img, num(p, 'amount') / 100, num(p, 'radius') * ctx.scale),
+    isIdentity: (p) => num(p, 'amount') === 0,
+  },
+  levels: {
+    type: 'levels',
+    label: 'Levels',
+    params: levelsParams(),
+    apply: (img, p) => applyLevels(img, levelsFromParams(p)),
+    luts: (p) => levelsLuts(levelsFromParams(p)),
+    isIdentity: (p) => {
+      const l = levelsFromParams(p);
+      return [l.master, l.r, l.g, l.b].every(c =>
+        c.inBlack === 0 && c.inWhite === 255 && c.gamma === 1 && c.outBlack === 0 && c.outWhite === 255);
+    },
+  },
+  curves: {
+    type: 'curves',
+    label: 'Curves',
+    params: CHANNELS.map(([ch, group]): ParamDescriptor => ({ kind: 'curve', key: ch, label: `${group} curve`, group, default: IDENTITY_CURVE })),
+    apply: (img, p) => applyCurves(img, { master: curve(p, 'master'), r: curve(p, 'r'), g: curve(p, 'g'), b: curve(p, 'b') }),
+    luts: (p) => curvesLuts({ master: curve(p, 'master'), r: curve(p, 'r'), g: curve(p, 'g'), b: curve(p, 'b') }),
+    isIdentity: (p) => CHANNELS.every(([ch]) => isIdentityCurve(curve(p, ch))),
+  },
+  jpeg: {
+    type: 'jpeg',
+    label: 'JPEG Compression',
+    params: [
+      { kind: 'number', key: 'quality', label: 'Quality', min: 1, max: 100, step: 1, default: 75 },
+      {
+        kind: 'select', key: 'subsampling', label: 'Chroma subsampling', default: '420',
+        options: [{ value: '444', label: '4:4:4 (none)' }, { value: '422', label: '4:2:2' }, { value: '420', label: '4:2:0 (typical)' }],
+      },
+      { kind: 'number', key: 'generations', label: 'Generations', min: 1, max: 10, step: 1, default: 1 },
+    ],
+    apply: (img, p, ctx) => applyJpegCompression(toImageData(img), {
+      quality: num(p, 'quality'),
+      subsampling: p.subsampling as ChromaSubsampling,
+      generations: num(p, 'generations'),
+      outputScale: ctx.outputScale,
+    }),
+    previewNote: 'Blocks are 8×8 pixels of the export; the smaller preview only approximates them, so check an exported file for the exact artifacts.',
+  },
+  vignette: {
+    type: 'vignette',
+    label: 'Vignette',
+    params: [
+      { kind: 'number', key: 'amount', label: 'Amount (%)', min: -100, max: 100, step: 1, default: 0 },
+      { kind: 'number', key: 'midpoint', label: 'Midpoint (%)', min: 0, max: 100, step: 1, default: 50 },
+      { kind: 'number', key: 'roundness', label: 'Roundness', min: -100, max: 100, step: 1, default: 0 },
+    ],
+    apply: (img, p) => applyVignette(img, {
+      amount: num(p, 'amount') / 100,
+      midpoint: num(p, 'midpoint') / 100,
+      roundness: num(p, 'roundness') / 100,
+    }),
+    isIdentity: (p) => num(p, 'amount') === 0,
+  },
+  chromaticAberration: {
+    type: 'chromaticAberration',
+    label: 'Chromatic Aberration',
+    params: [
+      { kind: 'number', key: 'red', label: 'Red/cyan (‰ of radius)', min: -10, max: 10, step: 0.1, default: 0 },
+      { kind: 'number', key: 'blue', label: 'Blue/yellow (‰ of radius)', min: -10, max: 10, step: 0.1, default: 0 },
+    ],
+    apply: (img, p, ctx) => applyChromaticAberration(img, num(p, 'red') / 1000, num(p, 'blue') / 1000, ctx.preserveAlpha),
+    isIdentity: (p) => num(p, 'red') === 0 && num(p, 'blue') === 0,
+  },
+  lensDistortion: {
+    type: 'lensDistortion',
+    label: 'Lens Distortion',
+    params: [{ kind: 'number', key: 'amount', label: 'Barrel (−) / pincushion (+)', min: -100, max: 100, step: 1, default: 0 }],
+    apply: (img, p, ctx) => applyLensDistortion(img, num(p, 'amount') / 100, ctx.preserveAlpha),
+    isIdentity: (p) => num(p, 'amount') === 0,
+  },
+  bloom: {
+    type: 'bloom',
+    label: 'Bloom / Halation',
+    params: [
+      { kind: 'number', key: 'amount', label: 'Amount (%)', min: 0, max: 200, step: 1, default: 0 },
+      { kind: 'number', key: 'threshold', label: 'Threshold', min: 0, max: 254, step: 1, default: 200 },
+      { kind: 'number', key: 'radius', label: 'Radius (px)', min: 1, max: 50, step: 1, default: 12 },
+      {
+        kind: 'select', key: 'mode', label: 'Type', default: 'bloom',
+        options: [{ value: 'bloom', label: 'Bloom (neutral glow)' }, { value: 'halation', label: 'Halation (red film glow)' }],
+      },
+    ],
+    apply: (img, p, ctx) => applyBloom(img, {
+      amount: num(p, 'amount') / 100,
+      threshold: num(p, 'threshold'),
+      radius: num(p, 'radius') * ctx.scale,
+      halation: p.mode === 'halation',
+    }),
+    isIdentity: (p) => num(p, 'amount') <= 0,
+  },
+};
+
+export const operationTypes = Object.keys(operationRegistry) as OpType[];
+
+export function defaultParams(type: OpType): OpParams {
+  const params: OpParams = {};
+  for (const d of operationRegistry[type].params) params[d.key] = Array.isArray(d.default) ? d.default.slice() : d.default;
+  return params;
+}
+
+function newOpId(): string {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+export function createOperation(type: OpType, params: OpParams = {}, enabled = true): Operation {
+  return { id: newOpId(), type, params: { ...defaultParams(type), ...params }, enabled };
+}
+
+// Copy with a fresh id, e.g. to apply the same op twice
+export function duplicateOperation(op: Operation): Operation {
+  return { ...op, id: newOpId(), params: structuredClone(op.params) };
+}
+
+// Equivalent stack for the legacy flat settings, in the old hard-coded order
+export function adjustmentsToStack(adj: Adjustments): OpStack {
+  return [
+    createOperation('autoWhiteBalance', {}, adj.autoWhiteBalance),
+    createOperation('autoColorEnhance', {}, adj.autoColorEnhance),
+    createOperation('noise', { sigma: adj.noiseSigma }),
+    createOperation('brightnessContrast', { brightness: adj.brightness, contrast: adj.contrast }),
+    createOperation('saturation', { saturation: adj.saturation }),
+    createOperation('blur', { sigma: adj.blurPx }),
+  ];
+}
+
+export function defaultStack(): OpStack {
+  return adjustmentsToStack(defaultAdjustments);
+}
+
+// Human-readable summary of an edit, used for history entries. The key groups
+// repeated edits of the same control so a slider drag becomes one entry.
+export function describeStackChange(prev: OpStack, next: OpStack): { label: string; coalesceKey: string } {
+  const label = (op: Operation) => operationRegistry[op.type]?.label ?? op.type;
+  if (next.length > prev.length) {
+    const added = next.find(op => !prev.some(p => p.id === op.id));
+    return { label: added ? `Add ${label(added)}` : 'Add operation', coalesceKey: `add:${added?.id}` };
+  }
+  if (next.length < prev.length) {
+    const removed = prev.find(op => !next.some(n => n.id === op.id));
+    return { label: removed ? `Delete ${label(removed)}` : 'Delete operation', coalesceKey: `delete:${removed?.id}` };
+  }
+  for (let i = 0; i < next.length; i++) {
+    if (prev[i].id !== next[i].id) {
+      const moved = next.find((op, j) => prev[j]?.id !== op.id) ?? next[i];
+      return { label: `Reorder ${label(moved)}`, coalesceKey: `move:${moved.id}` };
+    }
+    const a = prev[i], b = next[i];
+    if (a.enabled !== b.enabled) {
+      return { label: `${b.enabled ? 'Enable' : 'Bypass'} ${label(b)}`, coalesceKey: `enabled:${b.id}:${b.enabled}` };
+    }
+    if (a.mask !== b.mask) {
+      const m = describeMaskChange(a.mask, b.mask);
+      return { label: `${label(b)}: ${m.label}`, coalesceKey: `${m.coalesceKey}:${b.id}` };
+    }
+    for (const k of Object.keys(b.params)) {
+      if (a.params[k] !== b.params[k]) {
+        const desc = operationRegistry[b.type]?.params.find(d => d.key === k);
+        const v = b.params[k];
+        const shown = typeof v === 'number' ? ` ${Math.round(v * 100) / 100}` : Array.isArray(v) ? '' : ` ${v}`;
+        const name = desc?.group && desc.kind !== 'curve' ? `${desc.group} ${desc.label.toLowerCase()}` : desc?.label ?? k;
+        return { label: `${label(b)}: ${name}${shown}`, coalesceKey: `param:${b.id}:${k}` };
+      }
+    }
+  }
+  return { label: 'Edit', coalesceKey: 'edit' };
+}
+
+// Storage-specific half of the pipeline. applyPipeline keeps float images in
+// memory; other backends (see webgl/) keep them elsewhere but share the stage
+// order, mask groups and progress reporting through runPipeline.
+export type PipelineExecutor<T> = {
+  load: (img: ImageData) => T;
+  // Final conversion to 8-bit
+  read: (img: T, dither: boolean) => ImageData;
+  apply: (img: T, op: Operation, ctx: OpContext) => T;
+  // Mixes `before` and `after` through the mask's coverage (`placement` maps
+  // pixels to mask units, see masks.ts)
+  blend: (before: T, after: T, mask: Mask, placement: Affine) => T;
+  // Encoded ↔ linear light (see OperationDef.linear)
+  toLinear: (img: T) => T;
+  toEncoded: (img: T) => T;
+  // Called once an intermediate image is no longer needed
+  release?: (img: T) => void;
+};
+
+const cpuExecutor: PipelineExecutor<FloatImage> = {
+  load: toFloatImage,
+  read: toImageData,
+  apply: (img, op, ctx) => toFloatImage(operationRegistry[op.type].apply(img, op.params, ctx)),
+  blend: (before, after, mask, placement) => blendMasked(before, after, rasterizeMask(mask, after.width, after.height, placement)),
+  toLinear: toLinearLight,
+  toEncoded: fromLinearLight,
+};
+
+// Enabled operations whose params aren't a no-op
+export function activeOperations(stack: OpStack): Operation[] {
+  return stack.filter((op) => {
+    const def = operationRegistry[op.type];
+    return op.enabled && def && !def.isIdentity?.(op.params);
+  });
+}
+
+export function applyPipeline(input: ImageData, stack: OpStack, opts: PipelineOptions = {}): ImageData {
+  return runPipeline(input, stack, opts, cpuExecutor);
+}
+
+// Whether an op runs on linear light under these options
+export function runsLinear(def: OperationDef, opts: PipelineOptions): boolean {
+  return def.linear === 'always' || (def.linear === 'working' && (opts.workingSpace ?? 'linear') === 'linear');
+}
+
+export function runPipeline<T>(input: ImageData, stack: OpStack, opts: PipelineOptions, exec: PipelineExecutor<T>): ImageData {
+  const ctx: OpContext = { scale: Math.max(1, opts.scale ?? 1), colorSpace: input.colorSpace, preserveAlpha: opts.preserveAlpha ?? false, linear: false, outputScale: Math.max(1, opts.outputScale ?? 1) };
+  const active = activeOperations(stack);
+
+  const transform = opts.transform && !isIdentityTransform(opts.transform) ? opts.transform : null;
+  const total = active.length + (transform ? 1 : 0);
+  let source = input;
+  if (transform) {
+    opts.onProgress?.({ stage: 'Transform', index: 0, total });
+    source = applyTransform(source, transform);
+  }
+  const placement = opts.maskPlacement ?? maskPlacement(input.width, input.height, transform);
+  // A masked op opens a group covering it and `span` following entries (even
+  // bypassed ones); the group's result is blended with its input at the end.
+  // Groups nest, an inner group never outlasting the outer one.
+  const groups: { start: T; linear: boolean; mask: Mask; end: number }[] = [];
+  const held = (t: T) => groups.some(g => g.start === t);
+  let img = exec.load(source);
+  const replace = (next: T) => {
+    if (next !== img && !held(img)) exec.release?.(img);
+    img = next;
+  };
+  // Consecutive linear-light ops share one conversion
+  let linear = false;
+  const setLinear = (on: boolean) => {
+    if (on === linear) return;
+    replace(on ? exec.toLinear(img) : exec.toEncoded(img));
+    linear = on;
+  };
+  let index = total - active.length;
+  stack.forEach((op, i) => {
+    if (op.mask) {
+      const outer = groups[groups.length - 1];
+      const end = Math.min(outer ? outer.end : Infinity, i + Math.max(0, Math.round(op.mask.span)));
+      groups.push({ start: img, linear, mask: op.mask, end });
+    }
+    if (active.includes(op)) {
+      const def = operationRegistry[op.type];
+      opts.onProgress?.({ stage: def.label, index: index++, total });
+      const lin = runsLinear(def, opts);
+      setLinear(lin);
+      replace(exec.apply(img, op, { ...ctx, linear: lin }));
+    }
+    while (groups.length > 0 && groups[groups.length - 1].end <= i) {
+      const g = groups.pop()!;
+      if (g.start === img) continue;
+      setLinear(g.linear);
+      const blended = exec.blend(g.start, img, g.mask, placement);
+      if (!held(g.start)) exec.release?.(g.start);
+      replace(blended);
+    }
+  });
+  setLinear(false);
+  const out = exec.read(img, opts.dither ?? false);
+  exec.release?.(img);
+  // Ops create ImageData in the default space; keep the input's (e.g. Display P3)
+  return out.colorSpace === input.colorSpace ? out : new ImageData(out.data, out.width, out.height, { colorSpace: input.colorSpace });
 }
@@ -0,0 +1,170 @@
+// Masks for local adjustments: soft brush strokes on top of an optional linear
+// or radial gradient. Positions and sizes are in units of the source image's
+// longer side, before any transform, so a mask stays on the content it was
+// painted over when the crop, rotation or flips change, and a mask painted on
+// the preview proxy rasterizes to the same place on the full-resolution export.
+import { IDENTITY_TRANSFORM, invertAffine, transformGeometry, type Affine, type Transform } from './geometry';
+import type { PixelImage } from './imageOps';
+
+export type BrushStroke = {
+  radius: number; // units of the longer side
+  hardness: number; // 0..1, share of the radius painted at full strength
+  erase: boolean;
+  points: number[]; // flattened [x0, y0, x1, y1, ...]
+};
+
+export type MaskGradient =
+  // 1 at the start point fading to 0 at the end point
+  | { kind: 'linear'; x0: number; y0: number; x1: number; y1: number }
+  // 1 inside the ellipse's inner (1 - feather) part, fading to 0 at its edge
+  | { kind: 'radial'; cx: number; cy: number; rx: number; ry: number; feather: number };
+
+export type Mask = {
+  gradient: MaskGradient | null;
+  strokes: BrushStroke[];
+  invert: boolean;
+  span: number; // following stack entries that share this mask (0 = only its own op)
+};
+
+export function emptyMask(): Mask {
+  return { gradient: null, strokes: [], invert: false, span: 0 };
+}
+
+// Maps pixels of the image a mask is applied to into mask units: `srcW` × `srcH`
+// is the source size, `t` and `outScale` how that image was derived from it
+export function maskPlacement(srcW: number, srcH: number, t: Transform | null = null, outScale = 1): Affine {
+  const d = Math.max(srcW, srcH);
+  const m = transformGeometry(srcW, srcH, t ?? IDENTITY_TRANSFORM, outScale).toSource;
+  return [m[0] / d, m[1] / d, m[2] / d, m[3] / d, m[4] / d, m[5] / d];
+}
+
+// Mask units per pixel (placements only rotate, flip and scale uniformly)
+export function placementScale(p: Affine): number {
+  return Math.sqrt(Math.abs(p[0] * p[3] - p[1] * p[2]));
+}
+
+const smooth = (t: number) => t * t * (3 - 2 * t);
+
+function rasterizeGradient(g: MaskGradient, out: Float32Array, w: number, h: number, [a, b, c, d, e, f]: Affine) {
+  if (g.kind === 'linear') {
+    const vx = g.x1 - g.x0, vy = g.y1 - g.y0;
+    const len2 = vx * vx + vy * vy;
+    for (let y = 0; y < h; y++) {
+      for (let x = 0; x < w; x++) {
+        const px = a * (x + 0.5) + c * (y + 0.5) + e - g.x0;
+        const py = b * (x + 0.5) + d * (y + 0.5) + f - g.y0;
+        const t = len2 > 0 ? Math.min(1, Math.max(0, (px * vx + py * vy) / len2)) : 0;
+        out[y * w + x] = 1 - smooth(t);
+      }
+    }
+    return;
+  }
+  const inner = 1 - Math.min(1, Math.max(0, g.feather));
+  const rx = Math.max(1e-6, g.rx), ry = Math.max(1e-6, g.ry);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const dx = (a * (x + 0.5) + c * (y + 0.5) + e - g.cx) / rx;
+      const dy = (b * (x + 0.5) + d * (y + 0.5) + f - g.cy) / ry;
+      const r = Math.sqrt(dx * dx + dy * dy);
+      out[y * w + x] = r <= inner ? 1 : r >= 1 ? 0 : 1 - smooth((r - inner) / (1 - inner));
+    }
+  }
+}
+
+// Coverage of one stroke (max over its segments, so overlapping segments don't
+// build up) written into `cov` within the returned pixel bounds
+function rasterizeStroke(s: BrushStroke, cov: Float32Array, w: number, h: number, placement: Affine): [number, number, number, number] | null {
+  const toPx = invertAffine(placement);
+  const r = Math.max(0.5, s.radius / placementScale(placement));
+  const hard = Math.min(1, Math.max(0, s.hardness)) * r;
+  if (s.points.length < 2) return null;
+  const pts: number[] = [];
+  for (let k = 0; k + 1 < s.points.length; k += 2) {
+    const mx = s.points[k], my = s.points[k + 1];
+    pts.push(toPx[0] * mx + toPx[2] * my + toPx[4], toPx[1] * mx + toPx[3] * my + toPx[5]);
+  }
+  let bx0 = w, by0 = h, bx1 = -1, by1 = -1;
+  const n = pts.length / 2;
+  for (let k = 0; k < Math.max(1, n - 1); k++) {
+    const ax = pts[2 * k], ay = pts[2 * k + 1];
+    const ex = n > 1 ? pts[2 * k + 2] : ax, ey = n > 1 ? pts[2 * k + 3] : ay;
+    const x0 = Math.max(0, Math.floor(Math.min(ax, ex) - r)), x1 = Math.min(w - 1, Math.ceil(Math.max(ax, ex) + r));
+    const y0 = Math.max(0, Math.floor(Math.min(ay, ey) - r)), y1 = Math.min(h - 1, Math.ceil(Math.max(ay, ey) + r));
+    if (x0 > x1 || y0 > y1) continue;
+    bx0 = Math.min(bx0, x0); by0 = Math.min(by0, y0); bx1 = Math.max(bx1, x1); by1 = Math.max(by1, y1);
+    const vx = ex - ax, vy = ey - ay;
+    const len2 = vx * vx + vy * vy;
+    for (let y = y0; y <= y1; y++) {
+      const py = y + 0.5 - ay;
+      for (let x = x0; x <= x1; x++) {
+        const px = x + 0.5 - ax;
+        const t = len2 > 0 ? Math.min(1, Math.max(0, (px * vx + py * vy) / len2)) : 0;
+        const dist = Math.hypot(px - t * vx, py - t * vy);
+        if (dist >= r) continue;
+        const a = dist <= hard ? 1 : 1 - smooth((dist - hard) / (r - hard));
+        const i = y * w + x;
+        if (a > cov[i]) cov[i] = a;
+      }
+    }
+  }
+  return bx1 < 0 ? null : [bx0, by0, bx1, by1];
+}
+
+// Mask coverage 0..1 per pixel for an image of w × h; without a placement the
+// image is taken to be the untransformed source
+export function rasterizeMask(mask: Mask, w: number, h: number, placement: Affine = maskPlacement(w, h)): Float32Array {
+  const out = new Float32Array(w * h);
+  if (mask.gradient) rasterizeGradient(mask.gradient, out, w, h, placement);
+  if (mask.strokes.length > 0) {
+    const cov = new Float32Array(w * h);
+    for (const s of mask.strokes) {
+      const box = rasterizeStroke(s, cov, w, h, placement);
+      if (!box) continue;
+      const [x0, y0, x1, y1] = box;
+      for (let y = y0; y <= y1; y++) {
+        for (let i = y * w + x0, end = y * w + x1; i <= end; i++) {
+          const a = cov[i];
+          if (a === 0) continue;
+          out[i] = s.erase ? out[i] * (1 - a) : Math.max(out[i], a);
+          cov[i] = 0;
+        }
+      }
+    }
+  }
+  if (mask.invert) for (let i = 0; i < out.length; i++) out[i] = 1 - out[i];
+  return out;
+}
+
+// Mixes `before` and `after` per pixel: coverage 1 keeps `after`, 0 keeps `before`
+export function blendMasked<T extends PixelImage>(before: T, after: T, coverage: Float32Array): T {
+  const a = before.data, b = after.data;
+  const res = (after.data instanceof Float32Array ? { data: new Float32Array(b.length), width: after.width, height: after.height } : new ImageData(after.width, after.height)) as T;
+  const out = res.data;
+  for (let p = 0, i = 0; p < coverage.length; p++, i += 4) {
+    const m = coverage[p];
+    out[i] = a[i] + (b[i] - a[i]) * m;
+    out[i + 1] = a[i + 1] + (b[i + 1] - a[i + 1]) * m;
+    out[i + 2] = a[i + 2] + (b[i + 2] - a[i + 2]) * m;
+    out[i + 3] = a[i + 3] + (b[i + 3] - a[i + 3]) * m;
+  }
+  return res;
+}
+
+// History label for a mask edit; each stroke gets its own entry
+export function describeMaskChange(prev: Mask | undefined, next: Mask | undefined): { label: string; coalesceKey: string } {
+  if (!prev) return { label: 'Add mask', coalesceKey: 'mask:add' };
+  if (!next) return { label: 'Remove mask', coalesceKey: 'mask:remove' };
+  if (next.strokes.length > prev.strokes.length) {
+    const s = next.strokes[next.strokes.length - 1];
+    return { label: s.erase ? 'Erase mask' : 'Paint mask', coalesceKey: `mask:stroke:${next.strokes.length}` };
+  }
+  if (next.gradient !== prev.gradient) {
+    return next.gradient
+      ? { label: `${next.gradient.kind === 'linear' ? 'Linear' : 'Radial'} gradient mask`, coalesceKey: 'mask:gradient' }
+      : { label: 'Remove gradient mask', coalesceKey: 'mask:gradient:remove' };
+  }
+  if (next.invert !== prev.invert) return { label: next.invert ? 'Invert mask' : 'Uninvert mask', coalesceKey: `mask:invert:${next.invert}` };
+  if (next.span !== prev.span) return { label: `Mask covers ${next.span + 1} operation${next.span ? 's' : ''}`, coalesceKey: 'mask:span' };
+  if (next.strokes.length < prev.strokes.length) return { label: 'Clear mask strokes', coalesceKey: 'mask:clear' };
+  return { label: 'Edit mask', coalesceKey: 'mask:edit' };
+}
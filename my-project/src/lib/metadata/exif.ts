@@ -0,0 +1,214 @@
+// EXIF (TIFF IFD) parsing and writing for the subset of tags we can round-trip.
+// Other tags are reported but can only be stripped.
+
+export type ExifTagName =
+  | 'ImageDescription'
+  | 'Make'
+  | 'Model'
+  | 'Software'
+  | 'DateTime'
+  | 'Artist'
+  | 'Copyright'
+  | 'ExposureTime'
+  | 'FNumber'
+  | 'ISO'
+  | 'DateTimeOriginal'
+  | 'FocalLength'
+  | 'UserComment'
+  | 'LensModel';
+
+export type ExifFields = Partial<Record<ExifTagName, string>>;
+
+type TagKind = 'ascii' | 'rational' | 'short' | 'comment';
+
+type TagInfo = { name: ExifTagName; tag: number; ifd: 'ifd0' | 'exif'; kind: TagKind; label: string };
+
+export const EXIF_TAGS: TagInfo[] = [
+  { name: 'ImageDescription', tag: 0x010e, ifd: 'ifd0', kind: 'ascii', label: 'Image description' },
+  { name: 'Make', tag: 0x010f, ifd: 'ifd0', kind: 'ascii', label: 'Camera make' },
+  { name: 'Model', tag: 0x0110, ifd: 'ifd0', kind: 'ascii', label: 'Camera model' },
+  { name: 'Software', tag: 0x0131, ifd: 'ifd0', kind: 'ascii', label: 'Software' },
+  { name: 'DateTime', tag: 0x0132, ifd: 'ifd0', kind: 'ascii', label: 'Modified' },
+  { name: 'Artist', tag: 0x013b, ifd: 'ifd0', kind: 'ascii', label: 'Artist' },
+  { name: 'Copyright', tag: 0x8298, ifd: 'ifd0', kind: 'ascii', label: 'Copyright' },
+  { name: 'ExposureTime', tag: 0x829a, ifd: 'exif', kind: 'rational', label: 'Exposure time' },
+  { name: 'FNumber', tag: 0x829d, ifd: 'exif', kind: 'rational', label: 'F-number' },
+  { name: 'ISO', tag: 0x8827, ifd: 'exif', kind: 'short', label: 'ISO' },
+  { name: 'DateTimeOriginal', tag: 0x9003, ifd: 'exif', kind: 'ascii', label: 'Taken' },
+  { name: 'FocalLength', tag: 0x920a, ifd: 'exif', kind: 'rational', label: 'Focal length (mm)' },
+  { name: 'UserComment', tag: 0x9286, ifd: 'exif', kind: 'comment', label: 'User comment' },
+  { name: 'LensModel', tag: 0xa434, ifd: 'exif', kind: 'ascii', label: 'Lens model' },
+];
+
+const EXIF_IFD_POINTER = 0x8769;
+const GPS_IFD_POINTER = 0x8825;
+
+// Names for tags we report but don't rewrite
+const OTHER_TAG_NAMES: Record<number, string> = {
+  0x927c: 'MakerNote',
+  0x9c9b: 'XPTitle',
+  0x9c9c: 'XPComment',
+  0x9c9d: 'XPAuthor',
+  0x9c9e: 'XPKeywords',
+  0x9c9f: 'XPSubject',
+  0xa430: 'CameraOwnerName',
+  0xa431: 'BodySerialNumber',
+  0xa435: 'LensSerialNumber',
+};
+
+export type ParsedExif = {
+  fields: ExifFields;
+  other: { name: string; value: string }[]; // reported only
+  hasGps: boolean;
+};
+
+const TYPE_SIZE: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+// `tiff` starts at the TIFF header ("II*\0" or "MM\0*")
+export function parseExif(tiff: Uint8Array): ParsedExif {
+  const out: ParsedExif = { fields: {}, other: [], hasGps: false };
+  if (tiff.length < 8) return out;
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const le = tiff[0] === 0x49;
+  if (!le && tiff[0] !== 0x4d) return out;
+  const u16 = (o: number) => view.getUint16(o, le);
+  const u32 = (o: number) => view.getUint32(o, le);
+  const latin1 = new TextDecoder('latin1');
+  const utf16 = new TextDecoder(le ? 'utf-16le' : 'utf-16be');
+
+  const readIfd = (offset: number, ifd: 'ifd0' | 'exif', seen: Set<number>) => {
+    if (offset <= 0 || offset + 2 > tiff.length || seen.has(offset)) return;
+    seen.add(offset);
+    const count = u16(offset);
+    for (let i = 0; i < count; i++) {
+      const e = offset + 2 + i * 12;
+      if (e + 12 > tiff.length) return;
+      const tag = u16(e), type = u16(e + 2), n = u32(e + 4);
+      const size = (TYPE_SIZE[type] ?? 1) * n;
+      const dataAt = size <= 4 ? e + 8 : u32(e + 8);
+      if (dataAt + size > tiff.length) continue;
+      const bytes = tiff.subarray(dataAt, dataAt + size);
+
+      if (tag === EXIF_IFD_POINTER) { readIfd(u32(e + 8), 'exif', seen); continue; }
+      if (tag === GPS_IFD_POINTER) { out.hasGps = true; continue; }
+
+      const info = EXIF_TAGS.find(t => t.tag === tag && t.ifd === ifd);
+      let value: string | null = null;
+      if (type === 2) value = latin1.decode(bytes).replace(/\0+$/, '');
+      else if (type === 3) value = String(u16(dataAt));
+      else if (type === 4) value = String(u32(dataAt));
+      else if (type === 5 && n >= 1) {
+        const num = u32(dataAt), den = u32(dataAt + 4) || 1;
+        value = info?.name === 'ExposureTime' && num > 0 && num < den ? `1/${Math.round(den / num)}` : String(Math.round((num / den) * 100) / 100);
+      } else if (type === 7 && tag === 0x9286 && bytes.length >= 8) {
+        const charset = latin1.decode(bytes.subarray(0, 8));
+        const body = bytes.subarray(8);
+        value = (charset.startsWith('UNICODE') ? utf16.decode(body) : new TextDecoder().decode(body)).replace(/\0+$/, '');
+      } else if (type === 1 && tag >= 0x9c9b && tag <= 0x9c9f) {
+        value = new TextDecoder('utf-16le').decode(bytes).replace(/\0+$/, '');
+      }
+
+      if (info && value !== null) out.fields[info.name] = value.trim();
+      else if (OTHER_TAG_NAMES[tag]) out.other.push({ name: OTHER_TAG_NAMES[tag], value: value ?? `${size} bytes` });
+    }
+  };
+
+  readIfd(u32(4), 'ifd0', new Set());
+  return out;
+}
+
+function parseRational(s: string): [number, number] | null {
+  const frac = s.match(/^\s*(\d+)\s*\/\s*(\d+)\s*$/);
+  if (frac) return [Number(frac[1]), Math.max(1, Number(frac[2]))];
+  const v = parseFloat(s);
+  if (!Number.isFinite(v) || v < 0) return null;
+  const den = 1000;
+  return [Math.round(v * den), den];
+}
+
+type Entry = { tag: number; type: number; count: number; data: Uint8Array };
+
+function encodeEntry(info: TagInfo, value: string): Entry | null {
+  const enc = new TextEncoder();
+  switch (info.kind) {
+    case 'ascii': {
+      const bytes = new Uint8Array(value.length + 1);
+      for (let i = 0; i < value.length; i++) bytes[i] = value.charCodeAt(i) < 256 ? value.charCodeAt(i) : 0x3f;
+      return { tag: info.tag, type: 2, count: bytes.length, data: bytes };
+    }
+    case 'rational': {
+      const r = parseRational(value);
+      if (!r) return null;
+      const data = new Uint8Array(8);
+      const dv = new DataView(data.buffer);
+      dv.setUint32(0, r[0], true);
+      dv.setUint32(4, r[1], true);
+      return { tag: info.tag, type: 5, count: 1, data };
+    }
+    case 'short': {
+      const v = parseInt(value, 10);
+      if (!Number.isFinite(v) || v < 0 || v > 65535) return null;
+      const data = new Uint8Array(2);
+      new DataView(data.buffer).setUint16(0, v, true);
+      return { tag: info.tag, type: 3, count: 1, data };
+    }
+    case 'comment': {
+      const text = enc.encode(value);
+      const data = new Uint8Array(8 + text.length);
+      data.set([0x41, 0x53, 0x43, 0x49, 0x49, 0, 0, 0]); // "ASCII\0\0\0"; UTF-8 is what readers decode in practice
+      data.set(text, 8);
+      return { tag: info.tag, type: 7, count: data.length, data };
+    }
+  }
+}
+
+// Little-endian TIFF with IFD0 and, when needed, an Exif sub-IFD. Returns null if there's nothing to write.
+export function buildExif(fields: ExifFields): Uint8Array | null {
+  const ifd0: Entry[] = [];
+  const exif: Entry[] = [];
+  for (const info of EXIF_TAGS) {
+    const v = fields[info.name];
+    if (v === undefined || v === '') continue;
+    const entry = encodeEntry(info, v);
+    if (entry) (info.ifd === 'ifd0' ? ifd0 : exif).push(entry);
+  }
+  if (ifd0.length === 0 && exif.length === 0) return null;
+  if (exif.length > 0) ifd0.push({ tag: EXIF_IFD_POINTER, type: 4, count: 1, data: new Uint8Array(4) });
+  ifd0.sort((a, b) => a.tag - b.tag);
+  exif.sort((a, b) => a.tag - b.tag);
+
+  const ifdSize = (n: number) => 2 + n * 12 + 4;
+  const extSize = (list: Entry[]) => list.reduce((s, e) => s + (e.data.length > 4 ? e.data.length + (e.data.length & 1) : 0), 0);
+  const ifd0At = 8;
+  const ifd0DataAt = ifd0At + ifdSize(ifd0.length);
+  const exifAt = ifd0DataAt + extSize(ifd0);
+  const exifDataAt = exifAt + (exif.length ? ifdSize(exif.length) : 0);
+  const total = exifDataAt + extSize(exif);
+
+  const buf = new Uint8Array(total);
+  const dv = new DataView(buf.buffer);
+  buf.set([0x49, 0x49, 0x2a, 0x00]);
+  dv.setUint32(4, ifd0At, true);
+
+  const writeIfd = (list: Entry[], at: number, dataAt: number) => {
+    dv.setUint16(at, list.length, true);
+    let extra = dataAt;
+    list.forEach((e, i) => {
+      const p = at + 2 + i * 12;
+      dv.setUint16(p, e.tag, true);
+      dv.setUint16(p + 2, e.type, true);
+      dv.setUint32(p + 4, e.count, true);
+      if (e.tag === EXIF_IFD_POINTER) dv.setUint32(p + 8, exifAt, true);
+      else if (e.data.length <= 4) buf.set(e.data, p + 8);
+      else {
+        dv.setUint32(p + 8, extra, true);
+        buf.set(e.data, extra);
+        extra += e.data.length + (e.data.length & 1);
+      }
+    });
+    dv.setUint32(at + 2 + list.length * 12, 0, true); // no next IFD
+  };
+  writeIfd(ifd0, ifd0At, ifd0DataAt);
+  if (exif.length) writeIfd(exif, exifAt, exifDataAt);
+  return buf;
+}
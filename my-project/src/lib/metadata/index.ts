@@ -0,0 +1,272 @@
+// Inspect metadata in PNG / JPEG / WebP files (AI-generation parameters, EXIF,
+// XMP, C2PA) and decide per field what ends up in the exported file.
+import type { ExifFields, ExifTagName } from './exif';
+import { buildExif, EXIF_TAGS, parseExif } from './exif';
+import {
+  fitsJpegSegment,
+  isJpeg,
+  jpegCommentPayload,
+  jpegExifPayload,
+  jpegTextPayload,
+  jpegXmpPayload,
+  readJpegMetadata,
+  writeJpegMetadata,
+} from './jpeg';
+import { isPng, readPngMetadata, writePngMetadata } from './png';
+import type { ImageFormat, OutputMetadata, RawMetadata } from './types';
+import { emptyRawMetadata } from './types';
+import { isWebp, readWebpMetadata, writeWebpMetadata } from './webp';
+
+export type { ExifFields, ExifTagName } from './exif';
+export { EXIF_TAGS } from './exif';
+export type { ImageFormat } from './types';
+
+export type MetaCategory = 'generation' | 'provenance' | 'camera' | 'software' | 'other';
+
+export type MetaField = {
+  id: string;
+  label: string;
+  value: string;
+  category: MetaCategory;
+  ai: boolean; // looks like it was written by an image generator
+  replaceable: boolean; // value can be edited before export
+  stripOnly?: string; // reason the field can't be carried over
+};
+
+export type MetadataReport = {
+  format: ImageFormat | null;
+  fields: MetaField[];
+  raw: RawMetadata;
+  exif: ExifFields;
+};
+
+export type FieldAction = { mode: 'keep' | 'strip' | 'replace'; value?: string };
+
+export type MetadataPlan = {
+  actions: Record<string, FieldAction>; // by field id; missing means strip
+  custom: ExifFields; // written on top of kept EXIF fields
+};
+
+export const emptyMetadataPlan = (): MetadataPlan => ({ actions: {}, custom: {} });
+
+// PNG text keywords written by generators (A1111/Forge, ComfyUI, InvokeAI, NovelAI, Fooocus, ...)
+const GENERATION_KEYS = new Set([
+  'parameters', 'prompt', 'workflow', 'negative_prompt', 'dream', 'sd-metadata', 'invokeai_metadata',
+  'invokeai_graph', 'generation_data', 'fooocus_scheme',
+]);
+
+const AI_PATTERN = /Steps: \d+|Sampler:|CFG scale|Negative prompt|ComfyUI|class_type|Stable Diffusion|NovelAI|Midjourney|DALL[·-]?E|Firefly|Imagen|trainedAlgorithmicMedia|compositeWithTrainedAlgorithmicMedia|InvokeAI|Fooocus|AUTOMATIC1111|sd-webui|Flux|SDXL/i;
+
+const CAMERA_TAGS: ExifTagName[] = ['Make', 'Model', 'LensModel', 'ExposureTime', 'FNumber', 'ISO', 'FocalLength', 'DateTimeOriginal'];
+
+function looksJson(s: string): boolean {
+  return /^\s*[[{]/.test(s);
+}
+
+function textLabel(key: string, value: string): string {
+  const k = key.toLowerCase();
+  if (k === 'workflow' && looksJson(value)) return 'ComfyUI workflow';
+  if (k === 'prompt' && looksJson(value) && value.includes('class_type')) return 'ComfyUI prompt graph';
+  if (k === 'parameters') return 'Generation parameters';
+  return key;
+}
+
+// Generator and AI markers from a C2PA manifest store without a full JUMBF/CBOR parse
+function describeC2pa(parts: Uint8Array[]): { value: string; ai: boolean } {
+  const text = parts.map(p => new TextDecoder('latin1').decode(p)).join('');
+  const generators = [...text.matchAll(/claim_generator(?:_info)?.{1,12}?([\x20-\x7e]{3,80})/g)]
+    .map(m => m[1].replace(/^[^A-Za-z0-9]+/, ''))
+    .filter((g, i, all) => g && all.indexOf(g) === i);
+  const ai = /trainedAlgorithmicMedia/.test(text) || generators.some(g => AI_PATTERN.test(g));
+  const size = parts.reduce((n, p) => n + p.length, 0);
+  return { value: `${generators.length ? generators.join(', ') : 'Content Credentials manifest'} (${(size / 1024).toFixed(1)} KB)`, ai };
+}
+
+function describeXmp(xmp: string): string {
+  const pick = (name: string) => xmp.match(new RegExp(`${name}(?:="([^"]*)"|>([^<]*)<)`))?.slice(1).find(Boolean);
+  const bits = [
+    pick('xmp:CreatorTool') && `CreatorTool: ${pick('xmp:CreatorTool')}`,
+    pick('Iptc4xmpExt:DigitalSourceType') && `DigitalSourceType: ${pick('Iptc4xmpExt:DigitalSourceType')!.replace(/^.*\//, '')}`,
+  ].filter(Boolean);
+  return bits.length ? bits.join('\n') : `${xmp.length} characters`;
+}
+
+export function describeMetadata(raw: RawMetadata): MetadataReport {
+  const fields: MetaField[] = [];
+  raw.text.forEach((t, i) => {
+    const key = t.key.toLowerCase();
+    const ai = GENERATION_KEYS.has(key) || AI_PATTERN.test(t.value);
+    fields.push({
+      id: `text:${i}`,
+      label: textLabel(t.key, t.value),
+      value: t.value,
+      category: ai ? 'generation' : key === 'software' ? 'software' : 'other',
+      ai,
+      replaceable: true,
+    });
+  });
+
+  const exif = raw.exif ? parseExif(raw.exif) : null;
+  if (exif) {
+    for (const info of EXIF_TAGS) {
+      const value = exif.fields[info.name];
+      if (value === undefined) continue;
+      fields.push({
+        id: `exif:${info.name}`,
+        label: `EXIF ${info.label}`,
+        value,
+        category: CAMERA_TAGS.includes(info.name) ? 'camera' : info.name === 'Software' ? 'software' : 'other',
+        ai: AI_PATTERN.test(value),
+        replaceable: true,
+      });
+    }
+    exif.other.forEach((o, i) => fields.push({
+      id: `exif-other:${i}`,
+      label: `EXIF ${o.name}`,
+      value: o.value,
+      category: 'other',
+      ai: AI_PATTERN.test(o.value),
+      replaceable: false,
+      stripOnly: 'Not rewritten on export',
+    }));
+    if (exif.hasGps) {
+      fields.push({ id: 'exif-gps', label: 'EXIF GPS location', value: 'Present', category: 'camera', ai: false, replaceable: false, stripOnly: 'Not rewritten on export' });
+    }
+  }
+
+  if (raw.xmp !== null) {
+    const ai = AI_PATTERN.test(raw.xmp);
+    fields.push({ id: 'xmp', label: 'XMP packet', value: describeXmp(raw.xmp), category: ai ? 'provenance' : 'other', ai, replaceable: false });
+  }
+  if (raw.c2pa.length > 0) {
+    const { value, ai } = describeC2pa(raw.c2pa);
+    fields.push({ id: 'c2pa', label: 'C2PA Content Credentials', value, category: 'provenance', ai, replaceable: false });
+  }
+  raw.comments.forEach((c, i) => fields.push({
+    id: `comment:${i}`,
+    label: 'Comment',
+    value: c,
+    category: AI_PATTERN.test(c) ? 'generation' : 'other',
+    ai: AI_PATTERN.test(c),
+    replaceable: true,
+  }));
+  if (raw.icc) {
+    fields.push({ id: 'icc', label: 'ICC colour profile', value: 'Embedded', category: 'other', ai: false, replaceable: false, stripOnly: 'Pixels are converted to sRGB on export' });
+  }
+
+  return { format: raw.format, fields, raw, exif: exif?.fields ?? {} };
+}
+
+export async function readMetadata(data: Uint8Array): Promise<MetadataReport> {
+  let raw: RawMetadata;
+  if (isPng(data)) raw = await readPngMetadata(data);
+  else if (isJpeg(data)) raw = readJpegMetadata(data);
+  else if (isWebp(data)) raw = readWebpMetadata(data);
+  else raw = emptyRawMetadata(null);
+  return describeMetadata(raw);
+}
+
+const TOO_LARGE_FOR_JPEG = 'Too large for a JPEG metadata segment (64 KB)';
+
+// JPEG payload of a text, comment or XMP field with `value` in place of its own, if given
+function jpegFieldPayload(field: MetaField, report: MetadataReport, value: string | null): Uint8Array | null {
+  const [kind, key] = field.id.split(':');
+  if (kind === 'text') {
+    const t = report.raw.text[Number(key)];
+    return jpegTextPayload(t.key, value ?? t.value);
+  }
+  if (kind === 'comment') return jpegCommentPayload(value ?? report.raw.comments[Number(key)]);
+  if (kind === 'xmp' && report.raw.xmp !== null) return jpegXmpPayload(report.raw.xmp);
+  return null;
+}
+
+// Why a field can't be kept in the given output format, if it can't
+export function keepBlocker(field: MetaField, report: MetadataReport, format: ImageFormat): string | null {
+  if (field.stripOnly) return field.stripOnly;
+  if (field.id === 'c2pa' && report.format !== format) return `Manifest can't be moved into a ${format.toUpperCase()} file`;
+  if ((field.id.startsWith('text:') || field.id.startsWith('comment:')) && format === 'webp') return 'WebP has no text fields';
+  if (format === 'jpeg') {
+    const payload = jpegFieldPayload(field, report, null);
+    if (payload && !fitsJpegSegment(payload)) return TOO_LARGE_FOR_JPEG;
+  }
+  return null;
+}
+
+// Why a replacement value can't be written in the given output format, if it can't
+export function replaceBlocker(field: MetaField, report: MetadataReport, format: ImageFormat, value: string): string | null {
+  if (format !== 'jpeg') return null;
+  const payload = jpegFieldPayload(field, report, value);
+  return payload && !fitsJpegSegment(payload) ? TOO_LARGE_FOR_JPEG : null;
+}
+
+// Keep-everything-except-AI plan: a common starting point
+export function planKeepingNonAi(report: MetadataReport, format: ImageFormat): MetadataPlan {
+  const actions: Record<string, FieldAction> = {};
+  for (const f of report.fields) {
+    if (!f.ai && f.category !== 'generation' && f.category !== 'provenance' && !keepBlocker(f, report, format)) actions[f.id] = { mode: 'keep' };
+  }
+  return { actions, custom: {} };
+}
+
+// Resolves the plan into what gets written; returns labels of kept fields that had to be dropped
+export function buildOutputMetadata(report: MetadataReport, plan: MetadataPlan, format: ImageFormat): { meta: OutputMetadata; dropped: string[] } {
+  const meta: OutputMetadata = { text: [], exif: null, xmp: null, c2pa: [], comments: [] };
+  const dropped: string[] = [];
+  const exif: ExifFields = {};
+
+  for (const f of report.fields) {
+    const action = plan.actions[f.id];
+    if (!action || action.mode === 'strip') continue;
+    if (keepBlocker(f, report, format)) {
+      dropped.push(f.label);
+      continue;
+    }
+    const value = action.mode === 'replace' && f.replaceable ? action.value ?? '' : null;
+    if (value !== null && replaceBlocker(f, report, format, value)) {
+      dropped.push(f.label);
+      continue;
+    }
+    const [kind, key] = f.id.split(':');
+    if (kind === 'text') {
+      const t = report.raw.text[Number(key)];
+      meta.text.push({ key: t.key, value: value ?? t.value });
+    } else if (kind === 'comment') {
+      meta.comments.push(value ?? report.raw.comments[Number(key)]);
+    } else if (kind === 'exif') {
+      exif[key as ExifTagName] = value ?? report.exif[key as ExifTagName];
+    } else if (kind === 'xmp') {
+      meta.xmp = report.raw.xmp;
+    } else if (kind === 'c2pa') {
+      meta.c2pa = report.raw.c2pa;
+    }
+  }
+  for (const [k, v] of Object.entries(plan.custom)) {
+    if (v && v.trim()) exif[k as ExifTagName] = v.trim();
+  }
+  meta.exif = buildExif(exif);
+  if (format === 'jpeg' && meta.exif && !fitsJpegSegment(jpegExifPayload(meta.exif))) {
+    dropped.push('EXIF');
+    meta.exif = null;
+  }
+  return { meta, dropped };
+}
+
+export function writeMetadata(data: Uint8Array, format: ImageFormat, meta: OutputMetadata): Uint8Array {
+  switch (format) {
+    case 'png': return writePngMetadata(data, meta);
+    case 'jpeg': return writeJpegMetadata(data, meta);
+    case 'webp': return writeWebpMetadata(data, meta);
+  }
+}
+
+export const formatMime: Record<ImageFormat, string> = { png: 'image/png', jpeg: 'image/jpeg', webp: 'image/webp' };
+
+// Rewrites an encoded export blob with the metadata chosen in `plan`
+export async function embedMetadata(blob: Blob, format: ImageFormat, report: MetadataReport | null, plan: MetadataPlan): Promise<{ blob: Blob; dropped: string[] }> {
+  const { meta, dropped } = buildOutputMetadata(report ?? describeMetadata(emptyRawMetadata(null)), plan, format);
+  if (!meta.exif && !meta.xmp && meta.text.length === 0 && meta.comments.length === 0 && meta.c2pa.length === 0) {
+    return { blob, dropped };
+  }
+  const out = writeMetadata(new Uint8Array(await blob.arrayBuffer()), format, meta);
+  return { blob: new Blob([out as BlobPart], { type: formatMime[format] }), dropped };
+}
@@ -0,0 +1,101 @@
+// JPEG marker segment reader/writer for APP1 (EXIF, XMP), APP11 (C2PA/JUMBF) and COM
+import type { OutputMetadata, RawMetadata } from './types';
+import { ascii, concatBytes, EXIF_PREFIX, emptyRawMetadata } from './types';
+
+const XMP_HEADER = 'http://ns.adobe.com/xap/1.0/\0';
+const ICC_HEADER = 'ICC_PROFILE\0';
+const MAX_SEGMENT = 0xffff - 2; // payload bytes per marker segment
+
+export function isJpeg(data: Uint8Array): boolean {
+  return data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff;
+}
+
+type Segment = { marker: number; data: Uint8Array; start: number; end: number };
+
+// Header segments up to (not including) the start of scan
+function* segments(data: Uint8Array): Generator<Segment> {
+  let at = 2;
+  while (at + 4 <= data.length) {
+    if (data[at] !== 0xff) return;
+    const marker = data[at + 1];
+    if (marker === 0xff) { at++; continue; } // fill byte
+    if (marker === 0xd8 || marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) { at += 2; continue; }
+    if (marker === 0xda || marker === 0xd9) return;
+    const length = (data[at + 2] << 8) | data[at + 3];
+    const end = at + 2 + length;
+    if (length < 2 || end > data.length) return;
+    yield { marker, data: data.subarray(at + 4, end), start: at, end };
+    at = end;
+  }
+}
+
+export function readJpegMetadata(data: Uint8Array): RawMetadata {
+  const out = emptyRawMetadata('jpeg');
+  for (const s of segments(data)) {
+    const d = s.data;
+    if (s.marker === 0xe1 && EXIF_PREFIX.every((b, i) => d[i] === b)) {
+      out.exif = d.slice(6);
+    } else if (s.marker === 0xe1 && ascii(d, 0, XMP_HEADER.length) === XMP_HEADER) {
+      out.xmp = new TextDecoder().decode(d.subarray(XMP_HEADER.length));
+    } else if (s.marker === 0xe2 && ascii(d, 0, ICC_HEADER.length) === ICC_HEADER) {
+      out.icc = true;
+    } else if (s.marker === 0xeb && d[0] === 0x4a && d[1] === 0x50) {
+      // "JP" common identifier: JUMBF box, possibly split over several segments
+      out.c2pa.push(d.slice());
+    } else if (s.marker === 0xfe) {
+      out.comments.push(new TextDecoder().decode(d));
+    }
+  }
+  return out;
+}
+
+// Payloads as writeJpegMetadata writes them, so callers can check their size first
+export const jpegExifPayload = (exif: Uint8Array) => concatBytes([new Uint8Array(EXIF_PREFIX), exif]);
+export const jpegXmpPayload = (xmp: string) => new TextEncoder().encode(XMP_HEADER + xmp);
+export const jpegTextPayload = (key: string, value: string) => new TextEncoder().encode(`${key}: ${value}`);
+export const jpegCommentPayload = (comment: string) => new TextEncoder().encode(comment);
+
+// Whether a payload fits one marker segment; larger blocks (e.g. extended XMP) aren't written
+export function fitsJpegSegment(payload: Uint8Array): boolean {
+  return payload.length <= MAX_SEGMENT;
+}
+
+function segment(marker: number, payload: Uint8Array): Uint8Array | null {
+  if (!fitsJpegSegment(payload)) return null;
+  const out = new Uint8Array(4 + payload.length);
+  out[0] = 0xff;
+  out[1] = marker;
+  out[2] = (payload.length + 2) >> 8;
+  out[3] = (payload.length + 2) & 0xff;
+  out.set(payload, 4);
+  return out;
+}
+
+// Drops existing metadata segments and inserts `meta` after SOI / JFIF APP0.
+// Blocks too large for a single segment are left out; buildOutputMetadata
+// checks them with fitsJpegSegment first and reports them as dropped.
+export function writeJpegMetadata(data: Uint8Array, meta: OutputMetadata): Uint8Array {
+  if (!isJpeg(data)) throw new Error('Not a JPEG file');
+  const extra: (Uint8Array | null)[] = [];
+  if (meta.exif) extra.push(segment(0xe1, jpegExifPayload(meta.exif)));
+  if (meta.xmp !== null) extra.push(segment(0xe1, jpegXmpPayload(meta.xmp)));
+  for (const c of meta.c2pa) extra.push(segment(0xeb, c));
+  for (const t of meta.text) extra.push(segment(0xfe, jpegTextPayload(t.key, t.value)));
+  for (const c of meta.comments) extra.push(segment(0xfe, jpegCommentPayload(c)));
+
+  const parts: Uint8Array[] = [data.subarray(0, 2)];
+  let inserted = false;
+  let rest = 2;
+  for (const s of segments(data)) {
+    const isMeta = s.marker === 0xe1 || s.marker === 0xeb || s.marker === 0xfe;
+    if (!inserted && s.marker !== 0xe0) {
+      parts.push(...extra.filter((e): e is Uint8Array => e !== null));
+      inserted = true;
+    }
+    if (!isMeta) parts.push(data.subarray(s.start, s.end));
+    rest = s.end;
+  }
+  if (!inserted) parts.push(...extra.filter((e): e is Uint8Array => e !== null));
+  parts.push(data.subarray(rest));
+  return concatBytes(parts);
+}
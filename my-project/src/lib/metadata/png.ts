@@ -0,0 +1,130 @@
+// PNG chunk reader/writer for text, EXIF, XMP and C2PA chunks
+import { crc32 } from '../zip';
+import type { OutputMetadata, RawMetadata } from './types';
+import { ascii, concatBytes, emptyRawMetadata, stripExifPrefix } from './types';
+
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const XMP_KEYWORD = 'XML:com.adobe.xmp';
+
+export function isPng(data: Uint8Array): boolean {
+  return SIGNATURE.every((b, i) => data[i] === b);
+}
+
+type Chunk = { type: string; data: Uint8Array; start: number; end: number };
+
+function* chunks(data: Uint8Array): Generator<Chunk> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let at = 8;
+  while (at + 12 <= data.length) {
+    const length = view.getUint32(at);
+    const type = ascii(data, at + 4, 4);
+    const end = at + 12 + length;
+    if (end > data.length) return;
+    yield { type, data: data.subarray(at + 8, at + 8 + length), start: at, end };
+    if (type === 'IEND') return;
+    at = end;
+  }
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+const latin1 = new TextDecoder('latin1');
+const utf8 = new TextDecoder();
+
+export async function readPngMetadata(data: Uint8Array): Promise<RawMetadata> {
+  const out = emptyRawMetadata('png');
+  for (const c of chunks(data)) {
+    const d = c.data;
+    switch (c.type) {
+      case 'tEXt': {
+        const nul = d.indexOf(0);
+        if (nul > 0) out.text.push({ key: latin1.decode(d.subarray(0, nul)), value: latin1.decode(d.subarray(nul + 1)) });
+        break;
+      }
+      case 'zTXt': {
+        const nul = d.indexOf(0);
+        if (nul <= 0) break;
+        try {
+          out.text.push({ key: latin1.decode(d.subarray(0, nul)), value: latin1.decode(await inflate(d.subarray(nul + 2))) });
+        } catch {
+          // corrupt stream; skip the chunk
+        }
+        break;
+      }
+      case 'iTXt': {
+        // keyword \0 compressed method language \0 translated \0 text
+        const nul = d.indexOf(0);
+        if (nul <= 0) break;
+        const compressed = d[nul + 1] === 1;
+        const langEnd = d.indexOf(0, nul + 3);
+        const transEnd = langEnd < 0 ? -1 : d.indexOf(0, langEnd + 1);
+        if (transEnd < 0) break;
+        const key = latin1.decode(d.subarray(0, nul));
+        let body = d.subarray(transEnd + 1);
+        try {
+          if (compressed) body = await inflate(body);
+        } catch {
+          break;
+        }
+        const value = utf8.decode(body);
+        if (key === XMP_KEYWORD) out.xmp = value;
+        else out.text.push({ key, value });
+        break;
+      }
+      case 'eXIf':
+        out.exif = stripExifPrefix(d).slice();
+        break;
+      case 'caBX':
+        out.c2pa.push(d.slice());
+        break;
+      case 'iCCP':
+        out.icc = true;
+        break;
+    }
+  }
+  return out;
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(12 + data.length);
+  const view = new DataView(out.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(data, 8);
+  view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+}
+
+// tEXt when the text is Latin-1, otherwise uncompressed iTXt (UTF-8)
+function textChunk(key: string, value: string): Uint8Array {
+  const keyword = key.replace(/[^\x20-\x7e\xa1-\xff]/g, '').slice(0, 79) || 'Comment';
+  const keyBytes = Uint8Array.from(keyword, ch => ch.charCodeAt(0));
+  if ([...value].every(ch => ch.charCodeAt(0) < 256)) {
+    return chunk('tEXt', concatBytes([keyBytes, new Uint8Array([0]), Uint8Array.from(value, ch => ch.charCodeAt(0))]));
+  }
+  return chunk('iTXt', concatBytes([keyBytes, new Uint8Array([0, 0, 0, 0, 0]), new TextEncoder().encode(value)]));
+}
+
+// Drops existing metadata chunks and inserts `meta` right after IHDR
+export function writePngMetadata(data: Uint8Array, meta: OutputMetadata): Uint8Array {
+  if (!isPng(data)) throw new Error('Not a PNG file');
+  const extra: Uint8Array[] = [];
+  for (const t of meta.text) extra.push(textChunk(t.key, t.value));
+  for (const c of meta.comments) extra.push(textChunk('Comment', c));
+  if (meta.exif) extra.push(chunk('eXIf', meta.exif));
+  if (meta.xmp !== null) {
+    extra.push(chunk('iTXt', concatBytes([Uint8Array.from(XMP_KEYWORD, ch => ch.charCodeAt(0)), new Uint8Array([0, 0, 0, 0, 0]), new TextEncoder().encode(meta.xmp)])));
+  }
+  for (const c of meta.c2pa) extra.push(chunk('caBX', c));
+
+  const parts: Uint8Array[] = [data.subarray(0, 8)];
+  for (const c of chunks(data)) {
+    if (['tEXt', 'zTXt', 'iTXt', 'eXIf', 'caBX'].includes(c.type)) continue;
+    parts.push(data.subarray(c.start, c.end));
+    if (c.type === 'IHDR') parts.push(...extra);
+  }
+  return concatBytes(parts);
+}
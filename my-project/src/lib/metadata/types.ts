@@ -0,0 +1,47 @@
+export type ImageFormat = 'png' | 'jpeg' | 'webp';
+
+// Metadata blocks found in a file, independent of where the container put them
+export type RawMetadata = {
+  format: ImageFormat | null; // null when the bytes aren't a format we parse
+  text: { key: string; value: string }[]; // PNG tEXt / zTXt / iTXt
+  exif: Uint8Array | null; // TIFF bytes, without the "Exif\0\0" prefix
+  xmp: string | null;
+  c2pa: Uint8Array[]; // raw manifest store payloads, only valid in the same container format
+  comments: string[]; // JPEG COM segments
+  icc: boolean;
+};
+
+// What a writer should embed into an encoded file
+export type OutputMetadata = {
+  text: { key: string; value: string }[];
+  exif: Uint8Array | null;
+  xmp: string | null;
+  c2pa: Uint8Array[];
+  comments: string[];
+};
+
+export function emptyRawMetadata(format: ImageFormat | null): RawMetadata {
+  return { format, text: [], exif: null, xmp: null, c2pa: [], comments: [], icc: false };
+}
+
+export const EXIF_PREFIX = [0x45, 0x78, 0x69, 0x66, 0, 0]; // "Exif\0\0"
+
+export function stripExifPrefix(data: Uint8Array): Uint8Array {
+  return EXIF_PREFIX.every((b, i) => data[i] === b) ? data.subarray(6) : data;
+}
+
+export function ascii(data: Uint8Array, start: number, length: number): string {
+  let s = '';
+  for (let i = start; i < start + length && i < data.length; i++) s += String.fromCharCode(data[i]);
+  return s;
+}
+
+export function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let at = 0;
+  for (const p of parts) {
+    out.set(p, at);
+    at += p.length;
+  }
+  return out;
+}
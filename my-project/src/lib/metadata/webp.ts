@@ -0,0 +1,100 @@
+// WebP (RIFF) chunk reader/writer for EXIF, XMP and C2PA chunks
+import type { OutputMetadata, RawMetadata } from './types';
+import { ascii, concatBytes, emptyRawMetadata, stripExifPrefix } from './types';
+
+// VP8X feature flags
+const FLAG_ICC = 0x20;
+const FLAG_ALPHA = 0x10;
+const FLAG_EXIF = 0x08;
+const FLAG_XMP = 0x04;
+
+export function isWebp(data: Uint8Array): boolean {
+  return ascii(data, 0, 4) === 'RIFF' && ascii(data, 8, 4) === 'WEBP';
+}
+
+type Chunk = { type: string; data: Uint8Array; start: number; end: number };
+
+function* chunks(data: Uint8Array): Generator<Chunk> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let at = 12;
+  while (at + 8 <= data.length) {
+    const type = ascii(data, at, 4);
+    const length = view.getUint32(at + 4, true);
+    const end = Math.min(data.length, at + 8 + length + (length & 1));
+    if (at + 8 + length > data.length) return;
+    yield { type, data: data.subarray(at + 8, at + 8 + length), start: at, end };
+    at = end;
+  }
+}
+
+export function readWebpMetadata(data: Uint8Array): RawMetadata {
+  const out = emptyRawMetadata('webp');
+  for (const c of chunks(data)) {
+    if (c.type === 'EXIF') out.exif = stripExifPrefix(c.data).slice();
+    else if (c.type === 'XMP ') out.xmp = new TextDecoder().decode(c.data);
+    else if (c.type === 'C2PA') out.c2pa.push(c.data.slice());
+    else if (c.type === 'ICCP') out.icc = true;
+  }
+  return out;
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(8 + data.length + (data.length & 1));
+  for (let i = 0; i < 4; i++) out[i] = type.charCodeAt(i);
+  new DataView(out.buffer).setUint32(4, data.length, true);
+  out.set(data, 8);
+  return out;
+}
+
+// Canvas size and alpha from a simple-format bitstream chunk
+function bitstreamInfo(c: Chunk): { w: number; h: number; alpha: boolean } | null {
+  const d = c.data;
+  if (c.type === 'VP8L' && d[0] === 0x2f && d.length >= 5) {
+    const bits = d[1] | (d[2] << 8) | (d[3] << 16) | (d[4] << 24);
+    return { w: (bits & 0x3fff) + 1, h: ((bits >>> 14) & 0x3fff) + 1, alpha: ((bits >>> 28) & 1) === 1 };
+  }
+  if (c.type === 'VP8 ' && d.length >= 10 && d[3] === 0x9d && d[4] === 0x01 && d[5] === 0x2a) {
+    return { w: (d[6] | (d[7] << 8)) & 0x3fff, h: (d[8] | (d[9] << 8)) & 0x3fff, alpha: false };
+  }
+  return null;
+}
+
+// Metadata chunks need the extended (VP8X) layout; simple files are converted.
+// Text fields and comments have no WebP home and are not written.
+export function writeWebpMetadata(data: Uint8Array, meta: OutputMetadata): Uint8Array {
+  if (!isWebp(data)) throw new Error('Not a WebP file');
+  const list = [...chunks(data)].filter(c => c.type !== 'EXIF' && c.type !== 'XMP ' && c.type !== 'C2PA');
+  const enc = new TextEncoder();
+  const extra: Uint8Array[] = [];
+  if (meta.exif) extra.push(chunk('EXIF', meta.exif));
+  if (meta.xmp !== null) extra.push(chunk('XMP ', enc.encode(meta.xmp)));
+  for (const c of meta.c2pa) extra.push(chunk('C2PA', c));
+
+  let vp8x: Uint8Array;
+  const existing = list.find(c => c.type === 'VP8X');
+  if (existing) {
+    vp8x = existing.data.slice();
+  } else {
+    const info = list.map(bitstreamInfo).find(i => i !== null);
+    if (!info) throw new Error('Unsupported WebP bitstream');
+    vp8x = new Uint8Array(10);
+    const w = info.w - 1, h = info.h - 1;
+    vp8x.set([w & 0xff, (w >> 8) & 0xff, (w >> 16) & 0xff, h & 0xff, (h >> 8) & 0xff, (h >> 16) & 0xff], 4);
+    if (info.alpha) vp8x[0] |= FLAG_ALPHA;
+  }
+  vp8x[0] &= ~(FLAG_EXIF | FLAG_XMP);
+  if (meta.exif) vp8x[0] |= FLAG_EXIF;
+  if (meta.xmp !== null) vp8x[0] |= FLAG_XMP;
+  if (list.some(c => c.type === 'ICCP')) vp8x[0] |= FLAG_ICC;
+
+  const body = concatBytes([
+    chunk('VP8X', vp8x),
+    ...list.filter(c => c.type !== 'VP8X').map(c => data.subarray(c.start, c.end)),
+    ...extra,
+  ]);
+  const header = new Uint8Array(12);
+  header.set([0x52, 0x49, 0x46, 0x46]);
+  new DataView(header.buffer).setUint32(4, body.length + 4, true);
+  header.set([0x57, 0x45, 0x42, 0x50], 8);
+  return concatBytes([header, body]);
+}
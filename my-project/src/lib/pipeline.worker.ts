@@ -0,0 +1,32 @@
+// Runs the pipeline off the main thread. One job at a time; the client
+// cancels a running job by terminating the worker.
+import { runOnBackend, runParityTest } from './backend';
+import type { PipelineOptions } from './imageOps';
+import { computeHistograms } from './imageOps';
+import type { WorkerRequest, WorkerResponse } from './pipelineRunner';
+
+function post(msg: WorkerResponse, transfer: Transferable[] = []) {
+  self.postMessage(msg, { transfer });
+}
+
+self.onmessage = (e: MessageEvent<WorkerRequest>) => {
+  const { id, image, stack, scale, transform, maskPlacement, outputScale, dither, workingSpace, preserveAlpha, histograms, backend, parityTolerance } = e.data;
+  try {
+    const opts: PipelineOptions = {
+      scale,
+      transform,
+      maskPlacement: maskPlacement ?? undefined,
+      outputScale,
+      dither,
+      workingSpace,
+      preserveAlpha,
+      onProgress: (progress) => post({ type: 'progress', id, progress }),
+    };
+    const { image: out, status } = runOnBackend(image, stack, opts, backend);
+    const parity = parityTolerance !== null ? runParityTest(image, stack, opts, parityTolerance) : undefined;
+    const hist = histograms ? computeHistograms(out) : undefined;
+    post({ type: 'done', id, image: out, histograms: hist, backend: status, parity }, [out.data.buffer]);
+  } catch (err) {
+    post({ type: 'error', id, message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,152 @@
+// Main-thread client for pipeline.worker.ts.
+// Each runner owns one worker; starting a new job cancels the previous one.
+import type { BackendPreference, BackendStatus, ParityReport } from './backend';
+import type { Affine, Transform } from './geometry';
+import type { Histograms, OpStack, PipelineProgress, WorkingSpace } from './imageOps';
+
+export type WorkerRequest = {
+  id: number;
+  image: ImageData;
+  stack: OpStack;
+  scale: number;
+  transform: Transform | null;
+  maskPlacement: Affine | null;
+  outputScale: number;
+  dither: boolean;
+  workingSpace: WorkingSpace;
+  preserveAlpha: boolean;
+  histograms: boolean;
+  backend: BackendPreference;
+  parityTolerance: number | null;
+};
+
+export type WorkerResponse =
+  | { type: 'progress'; id: number; progress: PipelineProgress }
+  | { type: 'done'; id: number; image: ImageData; histograms?: Histograms; backend: BackendStatus; parity?: ParityReport }
+  | { type: 'error'; id: number; message: string };
+
+export class PipelineCancelledError extends Error {
+  constructor() {
+    super('Pipeline run cancelled');
+    this.name = 'PipelineCancelledError';
+  }
+}
+
+export type RunOptions = {
+  scale?: number;
+  transform?: Transform | null; // see PipelineOptions.transform
+  maskPlacement?: Affine; // see PipelineOptions.maskPlacement
+  outputScale?: number; // see PipelineOptions.outputScale
+  dither?: boolean; // see PipelineOptions.dither
+  workingSpace?: WorkingSpace; // see PipelineOptions.workingSpace
+  preserveAlpha?: boolean; // see PipelineOptions.preserveAlpha
+  onProgress?: (p: PipelineProgress) => void;
+  // Also compute histograms of the output in the worker (see RunResult)
+  histograms?: boolean;
+  backend?: BackendPreference; // default 'auto': WebGL2 when available
+  // Parity test mode: also compare the CPU and WebGL2 backends, allowing this
+  // many 8-bit levels of difference per channel
+  parityTolerance?: number;
+};
+
+export type RunResult = {
+  image: ImageData;
+  histograms?: Histograms;
+  backend?: BackendStatus;
+  parity?: ParityReport;
+};
+
+export type PipelineRunner = {
+  // Transfers image's buffer to the worker; don't use it after calling run.
+  run: (image: ImageData, stack: OpStack, opts?: RunOptions) => Promise<ImageData>;
+  // Like run, but also returns the worker-side extras requested in opts
+  runWithResult: (image: ImageData, stack: OpStack, opts?: RunOptions) => Promise<RunResult>;
+  cancel: () => void;
+  dispose: () => void;
+};
+
+type Pending = {
+  id: number;
+  resolve: (res: RunResult) => void;
+  reject: (err: Error) => void;
+  onProgress?: (p: PipelineProgress) => void;
+};
+
+export function createPipelineRunner(): PipelineRunner {
+  let worker: Worker | null = null;
+  let pending: Pending | null = null;
+  let nextId = 1;
+
+  function spawn(): Worker {
+    const w = new Worker(new URL('./pipeline.worker.ts', import.meta.url), { type: 'module' });
+    w.onmessage = (e: MessageEvent<WorkerResponse>) => {
+      const msg = e.data;
+      if (!pending || msg.id !== pending.id) return; // stale
+      if (msg.type === 'progress') {
+        pending.onProgress?.(msg.progress);
+        return;
+      }
+      const job = pending;
+      pending = null;
+      if (msg.type === 'done') job.resolve({ image: msg.image, histograms: msg.histograms, backend: msg.backend, parity: msg.parity });
+      else job.reject(new Error(msg.message));
+    };
+    w.onerror = (e) => {
+      const job = pending;
+      pending = null;
+      worker?.terminate();
+      worker = null;
+      job?.reject(new Error(e.message || 'Pipeline worker crashed'));
+    };
+    return w;
+  }
+
+  function cancel() {
+    if (!pending) return;
+    // A synchronous pipeline run can't be interrupted from outside, so drop the
+    // worker. Its WebGL context goes with it and is rebuilt by the next run; a
+    // stale run finishing first would delay every update by the slowest stages.
+    worker?.terminate();
+    worker = null;
+    const job = pending;
+    pending = null;
+    job.reject(new PipelineCancelledError());
+  }
+
+  function runWithResult(image: ImageData, stack: OpStack, opts: RunOptions = {}): Promise<RunResult> {
+    cancel();
+    if (!worker) worker = spawn();
+    const id = nextId++;
+    const req: WorkerRequest = {
+      id,
+      image,
+      stack,
+      scale: opts.scale ?? 1,
+      transform: opts.transform ?? null,
+      maskPlacement: opts.maskPlacement ?? null,
+      outputScale: opts.outputScale ?? 1,
+      dither: !!opts.dither,
+      workingSpace: opts.workingSpace ?? 'linear',
+      preserveAlpha: !!opts.preserveAlpha,
+      histograms: !!opts.histograms,
+      backend: opts.backend ?? 'auto',
+      parityTolerance: opts.parityTolerance ?? null,
+    };
+    return new Promise<RunResult>((resolve, reject) => {
+      pending = { id, resolve, reject, onProgress: opts.onProgress };
+      worker!.postMessage(req, [image.data.buffer]);
+    });
+  }
+
+  function run(image: ImageData, stack: OpStack, opts: RunOptions = {}): Promise<ImageData> {
+    return runWithResult(image, stack, opts).then(res => res.image);
+  }
+
+  function dispose() {
+    cancel();
+    worker?.terminate();
+    worker = null;
+  }
+
+  return { run, runWithResult, cancel, dispose };
+}
@@ -0,0 +1,261 @@
+// Named presets: built-in starters plus user presets persisted in localStorage,
+// and import/export as versioned JSON files.
+import type { Adjustments, CurvePoints, Operation, OpParams, OpStack, OpType, ParamValue } from './imageOps';
+import { adjustmentsToStack, createOperation, MAX_CURVE_POINTS, operationRegistry } from './imageOps';
+import type { BrushStroke, Mask, MaskGradient } from './masks';
+
+// Operation without its runtime id, as stored in presets
+export type PresetOperation = Pick<Operation, 'type' | 'params' | 'enabled'>;
+
+export type Preset = {
+  id: string;
+  name: string;
+  operations: PresetOperation[];
+  builtIn?: boolean;
+};
+
+export const PRESET_FILE_FORMAT = 'ai-image-fixer-presets';
+export const PRESET_FILE_VERSION = 1;
+
+export type PresetFile = {
+  format: typeof PRESET_FILE_FORMAT;
+  version: number;
+  presets: { name: string; operations: PresetOperation[] }[];
+};
+
+const STORAGE_KEY = 'ai-image-fixer.presets';
+
+export class PresetValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PresetValidationError';
+  }
+}
+
+const op = (type: OpType, params: OpParams = {}): PresetOperation => ({ type, params, enabled: true });
+
+export const builtInPresets: Preset[] = [
+  {
+    id: 'builtin-de-ai',
+    name: 'De-AI (WB + grain + soften)',
+    builtIn: true,
+    operations: [
+      op('autoWhiteBalance', { clipPct: 0.5 }),
+      op('noise', { sigma: 4 }),
+      op('saturation', { saturation: -5 }),
+      op('blur', { sigma: 0.5 }),
+    ],
+  },
+  {
+    id: 'builtin-subtle-grain',
+    name: 'Subtle grain',
+    builtIn: true,
+    operations: [op('noise', { sigma: 3 })],
+  },
+  {
+    id: 'builtin-muted',
+    name: 'Muted & flat',
+    builtIn: true,
+    operations: [
+      op('brightnessContrast', { brightness: 0, contrast: -10 }),
+      op('saturation', { saturation: -15 }),
+    ],
+  },
+  {
+    id: 'builtin-punchy',
+    name: 'Punchy colour',
+    builtIn: true,
+    operations: [
+      op('autoColorEnhance', { clipPct: 0.5 }),
+      op('brightnessContrast', { brightness: 0, contrast: 10 }),
+      op('saturation', { saturation: 10 }),
+    ],
+  },
+];
+
+export function presetToStack(preset: Pick<Preset, 'operations'>): OpStack {
+  return preset.operations.map(o => createOperation(o.type, o.params, o.enabled));
+}
+
+export function stackToPresetOperations(stack: OpStack): PresetOperation[] {
+  return stack.map(({ type, params, enabled }) => ({ type, params: { ...params }, enabled }));
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+function isCurve(v: unknown): v is CurvePoints {
+  if (!Array.isArray(v) || v.length % 2 !== 0 || v.length < 4 || v.length > MAX_CURVE_POINTS * 2) return false;
+  if (!v.every(n => typeof n === 'number' && Number.isFinite(n) && n >= 0 && n <= 255)) return false;
+  for (let i = 2; i < v.length; i += 2) if (v[i] <= v[i - 2]) return false;
+  return true;
+}
+
+const isNum = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+
+function validateGradient(raw: unknown, at: string): MaskGradient | null {
+  if (raw === null) return null;
+  if (!isRecord(raw)) throw new PresetValidationError(`${at}: expected an object or null`);
+  const keys = raw.kind === 'linear' ? ['x0', 'y0', 'x1', 'y1'] : raw.kind === 'radial' ? ['cx', 'cy', 'rx', 'ry', 'feather'] : null;
+  if (!keys) throw new PresetValidationError(`${at}.kind: expected linear or radial`);
+  for (const k of keys) if (!isNum(raw[k])) throw new PresetValidationError(`${at}.${k}: expected a number`);
+  if (raw.kind === 'linear') return { kind: 'linear', x0: raw.x0 as number, y0: raw.y0 as number, x1: raw.x1 as number, y1: raw.y1 as number };
+  const { cx, cy, rx, ry, feather } = raw as Record<string, number>;
+  if (rx <= 0 || ry <= 0) throw new PresetValidationError(`${at}: radii must be positive`);
+  if (feather < 0 || feather > 1) throw new PresetValidationError(`${at}.feather: ${feather} is outside 0..1`);
+  return { kind: 'radial', cx, cy, rx, ry, feather };
+}
+
+function validateStroke(raw: unknown, at: string): BrushStroke {
+  if (!isRecord(raw)) throw new PresetValidationError(`${at}: expected an object`);
+  const { radius, hardness, erase, points } = raw;
+  if (!isNum(radius) || radius <= 0) throw new PresetValidationError(`${at}.radius: expected a positive number`);
+  if (!isNum(hardness) || hardness < 0 || hardness > 1) throw new PresetValidationError(`${at}.hardness: expected a number in 0..1`);
+  if (typeof erase !== 'boolean') throw new PresetValidationError(`${at}.erase: expected true or false`);
+  if (!Array.isArray(points) || points.length < 2 || points.length % 2 !== 0 || !points.every(isNum)) {
+    throw new PresetValidationError(`${at}.points: expected [x, y] pairs of numbers`);
+  }
+  return { radius, hardness, erase, points: [...points] };
+}
+
+// Checks a stored operation mask (see masks.ts), e.g. from a saved session
+export function validateMask(raw: unknown, where = 'mask'): Mask {
+  if (!isRecord(raw)) throw new PresetValidationError(`${where}: expected an object`);
+  if (!Array.isArray(raw.strokes)) throw new PresetValidationError(`${where}.strokes: expected an array`);
+  if (typeof raw.invert !== 'boolean') throw new PresetValidationError(`${where}.invert: expected true or false`);
+  if (typeof raw.span !== 'number' || !Number.isInteger(raw.span) || raw.span < 0) {
+    throw new PresetValidationError(`${where}.span: expected a non-negative integer`);
+  }
+  return {
+    gradient: validateGradient(raw.gradient ?? null, `${where}.gradient`),
+    strokes: raw.strokes.map((st, i) => validateStroke(st, `${where}.strokes[${i}]`)),
+    invert: raw.invert,
+    span: raw.span,
+  };
+}
+
+// Checks operation types and params against the registry descriptors, i.e. the
+// same ranges the Slider controls enforce. Missing params fall back to defaults.
+export function validateOperations(raw: unknown, where = 'operations'): PresetOperation[] {
+  if (!Array.isArray(raw)) throw new PresetValidationError(`${where}: expected an array`);
+  return raw.map((item, i) => {
+    const at = `${where}[${i}]`;
+    if (!isRecord(item)) throw new PresetValidationError(`${at}: expected an object`);
+    const type = item.type as OpType;
+    const def = operationRegistry[type];
+    if (typeof item.type !== 'string' || !def) throw new PresetValidationError(`${at}: unknown operation type "${String(item.type)}"`);
+    const rawParams = item.params ?? {};
+    if (!isRecord(rawParams)) throw new PresetValidationError(`${at}.params: expected an object`);
+    const params: OpParams = {};
+    for (const d of def.params) {
+      const v = rawParams[d.key];
+      if (v === undefined) { params[d.key] = d.default; continue; }
+      const p = `${at}.params.${d.key}`;
+      switch (d.kind) {
+        case 'number':
+          if (typeof v !== 'number' || !Number.isFinite(v)) throw new PresetValidationError(`${p}: expected a number`);
+          if (v < d.min || v > d.max) throw new PresetValidationError(`${p}: ${v} is outside ${d.min}..${d.max}`);
+          break;
+        case 'boolean':
+          if (typeof v !== 'boolean') throw new PresetValidationError(`${p}: expected true or false`);
+          break;
+        case 'select':
+          if (typeof v !== 'string' || !d.options.some(o => o.value === v)) {
+            throw new PresetValidationError(`${p}: expected one of ${d.options.map(o => o.value).join(', ')}`);
+          }
+          break;
+        case 'seed':
+          if (typeof v !== 'number' || !Number.isInteger(v) || v < 0 || v > 0xffffffff) {
+            throw new PresetValidationError(`${p}: expected an integer 0..${0xffffffff}`);
+          }
+          break;
+        case 'curve':
+          if (!isCurve(v)) throw new PresetValidationError(`${p}: expected 2..${MAX_CURVE_POINTS} [x, y] pairs in 0..255 with ascending x`);
+          break;
+      }
+      params[d.key] = v as ParamValue;
+    }
+    const enabled = item.enabled ?? true;
+    if (typeof enabled !== 'boolean') throw new PresetValidationError(`${at}.enabled: expected true or false`);
+    return { type, params, enabled };
+  });
+}
+
+// Legacy flat settings are accepted in place of an operations list
+function validateLegacyAdjustments(raw: unknown, where: string): PresetOperation[] {
+  if (!isRecord(raw)) throw new PresetValidationError(`${where}: expected an object`);
+  const keys: (keyof Adjustments)[] = ['autoWhiteBalance', 'autoColorEnhance', 'noiseSigma', 'blurPx', 'brightness', 'contrast', 'saturation'];
+  for (const k of keys) {
+    const want = k.startsWith('auto') ? 'boolean' : 'number';
+    if (typeof raw[k] !== want) throw new PresetValidationError(`${where}.${k}: expected a ${want}`);
+  }
+  return validateOperations(stackToPresetOperations(adjustmentsToStack(raw as Adjustments)), where);
+}
+
+export function parsePresetFile(text: string): { name: string; operations: PresetOperation[] }[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new PresetValidationError('File is not valid JSON');
+  }
+  if (!isRecord(data) || data.format !== PRESET_FILE_FORMAT) throw new PresetValidationError('Not a preset file');
+  if (data.version !== PRESET_FILE_VERSION) {
+    throw new PresetValidationError(`Unsupported preset file version ${String(data.version)} (expected ${PRESET_FILE_VERSION})`);
+  }
+  if (!Array.isArray(data.presets)) throw new PresetValidationError('presets: expected an array');
+  return data.presets.map((p, i) => {
+    const at = `presets[${i}]`;
+    if (!isRecord(p)) throw new PresetValidationError(`${at}: expected an object`);
+    if (typeof p.name !== 'string' || !p.name.trim()) throw new PresetValidationError(`${at}.name: expected a non-empty string`);
+    const operations = p.operations !== undefined
+      ? validateOperations(p.operations, `${at}.operations`)
+      : validateLegacyAdjustments(p.adjustments, `${at}.adjustments`);
+    return { name: p.name.trim(), operations };
+  });
+}
+
+export function serializePresets(presets: Preset[]): string {
+  const file: PresetFile = {
+    format: PRESET_FILE_FORMAT,
+    version: PRESET_FILE_VERSION,
+    presets: presets.map(({ name, operations }) => ({ name, operations })),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+export function newPresetId(): string {
+  return `user-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+// Invalid entries in storage are dropped rather than failing the whole list
+export function loadUserPresets(): Preset[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const list: unknown = JSON.parse(raw);
+    if (!Array.isArray(list)) return [];
+    const out: Preset[] = [];
+    for (const p of list) {
+      if (!isRecord(p) || typeof p.id !== 'string' || typeof p.name !== 'string') continue;
+      try {
+        out.push({ id: p.id, name: p.name, operations: validateOperations(p.operations) });
+      } catch {
+        // skip invalid preset
+      }
+    }
+    return out;
+  } catch {
+    return [];
+  }
+}
+
+// Dispatched on window after saveUserPresets, so other lists of presets can reload
+export const USER_PRESETS_EVENT = 'user-presets-change';
+
+export function saveUserPresets(presets: Preset[]) {
+  const data = presets.filter(p => !p.builtIn).map(({ id, name, operations }) => ({ id, name, operations }));
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+  window.dispatchEvent(new Event(USER_PRESETS_EVENT));
+}
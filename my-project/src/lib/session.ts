@@ -0,0 +1,208 @@
+// Editing sessions persisted in IndexedDB, so a refresh restores the open image:
+// the original file, the edit state and zoom, plus recently opened images with
+// thumbnails. Records are structured clones; files are stored apart so saving
+// an edit never rewrites the image.
+import type { Transform } from './geometry';
+import { IDENTITY_TRANSFORM } from './geometry';
+import type { OpStack } from './imageOps';
+import { createOperation, defaultStack } from './imageOps';
+import { encodeImageData } from './imageIO';
+import { validateMask, validateOperations } from './presets';
+
+const DB_NAME = 'ai-image-fixer';
+const DB_VERSION = 1;
+const SESSIONS = 'sessions'; // SessionRecord by id
+const FILES = 'files'; // original file Blob by session id
+const META = 'meta'; // 'current': id of the open session
+const CURRENT_KEY = 'current';
+
+export const MAX_RECENT_SESSIONS = 8;
+export const THUMBNAIL_MAX_DIM = 160;
+
+export type SessionView = { zoom: number; autoFit: boolean };
+
+export type SessionRecord = {
+  id: string;
+  fileName: string;
+  stack: OpStack;
+  transform: Transform;
+  view: SessionView;
+  thumbnail: Blob | null; // PNG of the processed preview, see makeThumbnail
+  updatedAt: number;
+};
+
+export type RestoredSession = SessionRecord & { file: File };
+
+export class SessionStorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionStorageError';
+  }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new SessionStorageError('This browser has no IndexedDB'));
+        return;
+      }
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        db.createObjectStore(SESSIONS, { keyPath: 'id' });
+        db.createObjectStore(FILES);
+        db.createObjectStore(META);
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(new SessionStorageError(req.error?.message ?? 'Could not open the session database'));
+      req.onblocked = () => reject(new SessionStorageError('The session database is in use by another tab'));
+    });
+    // Let a later call retry, e.g. after the other tab closes
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+// Runs `fn` in one transaction and resolves with its request's result once committed
+async function transaction<T>(stores: string[], mode: IDBTransactionMode, fn: (tx: IDBTransaction) => IDBRequest<T> | void): Promise<T | undefined> {
+  const db = await openDb();
+  return new Promise<T | undefined>((resolve, reject) => {
+    const tx = db.transaction(stores, mode);
+    const req = fn(tx);
+    tx.oncomplete = () => resolve(req ? req.result : undefined);
+    // Quota errors surface here when a large file doesn't fit
+    const fail = () => reject(new SessionStorageError(tx.error?.message ?? 'Session storage failed'));
+    tx.onerror = fail;
+    tx.onabort = fail;
+  });
+}
+
+export function newSessionId(): string {
+  return `session-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+// Newest first
+export async function listSessions(): Promise<SessionRecord[]> {
+  const all = await transaction<SessionRecord[]>([SESSIONS], 'readonly', tx => tx.objectStore(SESSIONS).getAll());
+  return (all ?? []).sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+// Stores a newly opened image as the current session, dropping the oldest beyond MAX_RECENT_SESSIONS
+export async function createSession(file: File, fields: Pick<SessionRecord, 'stack' | 'transform' | 'view'>): Promise<string> {
+  const id = newSessionId();
+  const record: SessionRecord = { id, fileName: file.name, ...fields, thumbnail: null, updatedAt: Date.now() };
+  const stale = (await listSessions()).slice(MAX_RECENT_SESSIONS - 1).map(s => s.id);
+  await transaction([SESSIONS, FILES, META], 'readwrite', tx => {
+    for (const old of stale) {
+      tx.objectStore(SESSIONS).delete(old);
+      tx.objectStore(FILES).delete(old);
+    }
+    tx.objectStore(SESSIONS).put(record);
+    tx.objectStore(FILES).put(file, id);
+    tx.objectStore(META).put(id, CURRENT_KEY);
+  });
+  return id;
+}
+
+// No-op when the session was deleted in the meantime
+export async function updateSession(id: string, patch: Partial<Pick<SessionRecord, 'stack' | 'transform' | 'view' | 'thumbnail'>>): Promise<void> {
+  await transaction([SESSIONS], 'readwrite', tx => {
+    const store = tx.objectStore(SESSIONS);
+    const get = store.get(id) as IDBRequest<SessionRecord | undefined>;
+    get.onsuccess = () => {
+      if (get.result) store.put({ ...get.result, ...patch, updatedAt: Date.now() });
+    };
+  });
+}
+
+export async function setCurrentSession(id: string | null): Promise<void> {
+  await transaction([META], 'readwrite', tx => {
+    if (id === null) tx.objectStore(META).delete(CURRENT_KEY);
+    else tx.objectStore(META).put(id, CURRENT_KEY);
+  });
+}
+
+// Stored stacks are checked like presets (so records from older versions still
+// load); ops get fresh ids and keep their masks, which are checked too. An
+// unreadable stack falls back to the defaults and an unreadable mask is dropped,
+// rather than losing the image.
+function restoreStack(raw: unknown): OpStack {
+  let ops;
+  try {
+    ops = validateOperations(raw, 'stack');
+  } catch {
+    return defaultStack();
+  }
+  const stored = raw as { mask?: unknown }[];
+  return ops.map((o, i) => {
+    const op = createOperation(o.type, o.params, o.enabled);
+    if (stored[i].mask === undefined) return op;
+    try {
+      return { ...op, mask: validateMask(stored[i].mask, `stack[${i}].mask`) };
+    } catch {
+      return op;
+    }
+  });
+}
+
+// Also makes it the current session
+export async function loadSession(id: string): Promise<RestoredSession | null> {
+  let record: SessionRecord | undefined;
+  let blob: Blob | undefined;
+  await transaction([SESSIONS, FILES], 'readonly', tx => {
+    const r = tx.objectStore(SESSIONS).get(id) as IDBRequest<SessionRecord | undefined>;
+    r.onsuccess = () => { record = r.result; };
+    const f = tx.objectStore(FILES).get(id) as IDBRequest<Blob | undefined>;
+    f.onsuccess = () => { blob = f.result; };
+  });
+  if (!record || !blob) return null;
+  await setCurrentSession(id);
+  // Not every store keeps File objects as Files
+  const file = new File([blob], record.fileName, { type: blob.type });
+  return { ...record, stack: restoreStack(record.stack), transform: { ...IDENTITY_TRANSFORM, ...record.transform }, file };
+}
+
+export async function loadCurrentSession(): Promise<RestoredSession | null> {
+  const id = await transaction<IDBValidKey | undefined>([META], 'readonly', tx => tx.objectStore(META).get(CURRENT_KEY));
+  return typeof id === 'string' ? loadSession(id) : null;
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  await transaction([SESSIONS, FILES, META], 'readwrite', tx => {
+    tx.objectStore(SESSIONS).delete(id);
+    tx.objectStore(FILES).delete(id);
+    const cur = tx.objectStore(META).get(CURRENT_KEY);
+    cur.onsuccess = () => {
+      if (cur.result === id) tx.objectStore(META).delete(CURRENT_KEY);
+    };
+  });
+}
+
+// Removes every stored session and file
+export async function clearSessions(): Promise<void> {
+  await transaction([SESSIONS, FILES, META], 'readwrite', tx => {
+    tx.objectStore(SESSIONS).clear();
+    tx.objectStore(FILES).clear();
+    tx.objectStore(META).clear();
+  });
+}
+
+// Small PNG of `image` for the recent sessions list (PNG keeps transparency)
+export async function makeThumbnail(image: ImageData): Promise<Blob> {
+  const k = Math.min(1, THUMBNAIL_MAX_DIM / Math.max(image.width, image.height));
+  const w = Math.max(1, Math.round(image.width * k)), h = Math.max(1, Math.round(image.height * k));
+  const full = document.createElement('canvas');
+  full.width = image.width;
+  full.height = image.height;
+  full.getContext('2d')!.putImageData(image, 0, 0);
+  const small = document.createElement('canvas');
+  small.width = w;
+  small.height = h;
+  const ctx = small.getContext('2d')!;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(full, 0, 0, w, h);
+  return encodeImageData(ctx.getImageData(0, 0, w, h));
+}
@@ -0,0 +1,72 @@
+import { useCallback, useState } from 'react';
+
+export type HistoryEntry<T> = {
+  state: T;
+  label: string;
+  key?: string; // entries with the same key in quick succession are merged
+  time: number;
+};
+
+type HistoryState<T> = {
+  entries: HistoryEntry<T>[];
+  index: number;
+};
+
+export type CommitOptions = {
+  label: string;
+  coalesceKey?: string;
+};
+
+const COALESCE_MS = 750;
+const MAX_ENTRIES = 100;
+
+// Linear undo/redo history. Committing after an undo drops the redo branch.
+export function useHistory<T>(initial: T | (() => T), initialLabel = 'Initial state') {
+  const [hist, setHist] = useState<HistoryState<T>>(() => ({
+    entries: [{
+      state: typeof initial === 'function' ? (initial as () => T)() : initial,
+      label: initialLabel,
+      time: Date.now(),
+    }],
+    index: 0,
+  }));
+
+  const commit = useCallback((state: T, { label, coalesceKey }: CommitOptions) => {
+    setHist(h => {
+      const now = Date.now();
+      const cur = h.entries[h.index];
+      // Continuous edits of the same control (e.g. a slider drag) replace the top entry
+      if (coalesceKey && h.index > 0 && cur.key === coalesceKey && now - cur.time < COALESCE_MS) {
+        const entries = h.entries.slice(0, h.index);
+        entries.push({ state, label, key: coalesceKey, time: now });
+        return { entries, index: h.index };
+      }
+      const entries = h.entries.slice(0, h.index + 1);
+      entries.push({ state, label, key: coalesceKey, time: now });
+      const drop = Math.max(0, entries.length - MAX_ENTRIES);
+      return { entries: entries.slice(drop), index: entries.length - 1 - drop };
+    });
+  }, []);
+
+  const undo = useCallback(() => setHist(h => (h.index > 0 ? { ...h, index: h.index - 1 } : h)), []);
+  const redo = useCallback(() => setHist(h => (h.index < h.entries.length - 1 ? { ...h, index: h.index + 1 } : h)), []);
+  const jumpTo = useCallback((index: number) => {
+    setHist(h => (index >= 0 && index < h.entries.length ? { ...h, index } : h));
+  }, []);
+  const reset = useCallback((state: T, label = initialLabel) => {
+    setHist({ entries: [{ state, label, time: Date.now() }], index: 0 });
+  }, [initialLabel]);
+
+  return {
+    state: hist.entries[hist.index].state,
+    entries: hist.entries,
+    index: hist.index,
+    canUndo: hist.index > 0,
+    canRedo: hist.index < hist.entries.length - 1,
+    commit,
+    undo,
+    redo,
+    jumpTo,
+    reset,
+  };
+}
@@ -0,0 +1,192 @@
+// Minimal WebGL2 plumbing for the GPU backend: images are textures and every
+// operation is one or more full-screen fragment passes rendering into a new
+// one. Passes render to half-float (RGBA16F) targets where the GPU supports
+// it, matching the CPU's float pipeline closely; otherwise to RGBA8.
+import type { FloatImage, PixelImage } from '../imageOps';
+import { isFloatImage, toImageData } from '../imageOps';
+
+export type GpuImage = { tex: WebGLTexture; width: number; height: number; float: boolean };
+
+// Float uniforms only; shaders convert to int where they need to
+export type Uniforms = Record<string, number | number[]>;
+
+export class WebGLUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebGLUnavailableError';
+  }
+}
+
+export type GpuContext = {
+  maxSize: number;
+  load: (img: PixelImage) => GpuImage;
+  // 8-bit copy, optionally dithered (see toImageData)
+  read: (img: GpuImage, dither?: boolean) => ImageData;
+  readFloat: (img: GpuImage) => FloatImage;
+  // Renders `frag` into a new width × height image; `inputs` bind to sampler uniforms by name
+  pass: (frag: string, inputs: Record<string, GpuImage>, uniforms: Uniforms, width: number, height: number) => GpuImage;
+  // Single-channel float texture, e.g. mask coverage or kernel weights
+  floats: (data: Float32Array, width: number, height: number) => GpuImage;
+  release: (img: GpuImage) => void;
+  dispose: () => void;
+};
+
+// Full-screen triangle without vertex buffers
+const VERTEX = `#version 300 es
+void main() {
+  vec2 p = vec2(float((gl_VertexID << 1) & 2), float(gl_VertexID & 2));
+  gl_Position = vec4(p * 2.0 - 1.0, 0.0, 1.0);
+}`;
+
+// Shared prelude: `at` fetches a source texel with edge clamping, like the CPU ops
+export const FRAGMENT_PRELUDE = `#version 300 es
+precision highp float;
+precision highp int;
+uniform highp sampler2D u_src;
+out vec4 o;
+vec4 at(ivec2 p) {
+  ivec2 s = textureSize(u_src, 0);
+  return texelFetch(u_src, clamp(p, ivec2(0), s - 1), 0);
+}
+`;
+
+export function createGpuContext(): GpuContext {
+  if (typeof OffscreenCanvas === 'undefined') throw new WebGLUnavailableError('OffscreenCanvas is not supported');
+  const canvas = new OffscreenCanvas(1, 1);
+  const gl = canvas.getContext('webgl2', { antialias: false, depth: false, stencil: false, premultipliedAlpha: false });
+  if (!gl) throw new WebGLUnavailableError('WebGL2 is not available');
+
+  const maxSize = gl.getParameter(gl.MAX_TEXTURE_SIZE) as number;
+  const floatTargets = gl.getExtension('EXT_color_buffer_float') !== null;
+  const fbo = gl.createFramebuffer();
+  const vao = gl.createVertexArray();
+  const programs = new Map<string, WebGLProgram>();
+
+  const check = () => {
+    if (gl.isContextLost()) throw new WebGLUnavailableError('WebGL context lost');
+  };
+
+  const compile = (type: number, src: string) => {
+    const sh = gl.createShader(type)!;
+    gl.shaderSource(sh, src);
+    gl.compileShader(sh);
+    if (!gl.getShaderParameter(sh, gl.COMPILE_STATUS)) {
+      const log = gl.getShaderInfoLog(sh);
+      gl.deleteShader(sh);
+      throw new Error(`Shader compile failed: ${log}`);
+    }
+    return sh;
+  };
+
+  const program = (frag: string) => {
+    let p = programs.get(frag);
+    if (p) return p;
+    p = gl.createProgram()!;
+    const vs = compile(gl.VERTEX_SHADER, VERTEX);
+    const fs = compile(gl.FRAGMENT_SHADER, frag);
+    gl.attachShader(p, vs);
+    gl.attachShader(p, fs);
+    gl.linkProgram(p);
+    gl.deleteShader(vs);
+    gl.deleteShader(fs);
+    if (!gl.getProgramParameter(p, gl.LINK_STATUS)) throw new Error(`Shader link failed: ${gl.getProgramInfoLog(p)}`);
+    programs.set(frag, p);
+    return p;
+  };
+
+  const texture = (width: number, height: number, internal: number, format: number, type: number, data: ArrayBufferView | null, float = false): GpuImage => {
+    // Too large for this GPU: a plain Error, so only this run falls back to the CPU
+    if (width > maxSize || height > maxSize) throw new Error(`Image exceeds the GPU texture limit (${maxSize} px)`);
+    const tex = gl.createTexture();
+    if (!tex) throw new WebGLUnavailableError('Could not allocate a texture');
+    gl.bindTexture(gl.TEXTURE_2D, tex);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+    gl.texImage2D(gl.TEXTURE_2D, 0, internal, width, height, 0, format, type, data);
+    return { tex, width, height, float };
+  };
+
+  const load = (img: PixelImage) => {
+    check();
+    if (isFloatImage(img) && floatTargets) {
+      const unit = img.data.map(v => v / 255);
+      return texture(img.width, img.height, gl.RGBA16F, gl.RGBA, gl.FLOAT, unit, true);
+    }
+    const data = toImageData(img).data;
+    const bytes = new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+    return texture(img.width, img.height, gl.RGBA8, gl.RGBA, gl.UNSIGNED_BYTE, bytes);
+  };
+
+  const readPixels = <A extends ArrayBufferView>(img: GpuImage, type: number, out: A) => {
+    check();
+    gl.bindFramebuffer(gl.FRAMEBUFFER, fbo);
+    gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, img.tex, 0);
+    gl.readPixels(0, 0, img.width, img.height, gl.RGBA, type, out);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    return out;
+  };
+
+  const readFloat = (img: GpuImage): FloatImage => {
+    const { width, height } = img;
+    if (!img.float) return { data: Float32Array.from(read(img).data), width, height };
+    const data = readPixels(img, gl.FLOAT, new Float32Array(width * height * 4));
+    for (let i = 0; i < data.length; i++) data[i] = Math.min(255, Math.max(0, data[i] * 255));
+    return { data, width, height };
+  };
+
+  const read = (img: GpuImage, dither = false): ImageData => {
+    if (img.float) return toImageData(readFloat(img), dither);
+    const out = new Uint8ClampedArray(img.width * img.height * 4);
+    readPixels(img, gl.UNSIGNED_BYTE, new Uint8Array(out.buffer));
+    return new ImageData(out, img.width, img.height);
+  };
+
+  const pass = (frag: string, inputs: Record<string, GpuImage>, uniforms: Uniforms, width: number, height: number) => {
+    check();
+    const p = program(frag);
+    const target = floatTargets
+      ? texture(width, height, gl.RGBA16F, gl.RGBA, gl.HALF_FLOAT, null, true)
+      : texture(width, height, gl.RGBA8, gl.RGBA, gl.UNSIGNED_BYTE, null);
+    gl.useProgram(p);
+    Object.entries(inputs).forEach(([name, img], unit) => {
+      gl.activeTexture(gl.TEXTURE0 + unit);
+      gl.bindTexture(gl.TEXTURE_2D, img.tex);
+      gl.uniform1i(gl.getUniformLocation(p, name), unit);
+    });
+    for (const [name, v] of Object.entries(uniforms)) {
+      const loc = gl.getUniformLocation(p, name);
+      if (!loc) continue; // optimized out
+      if (typeof v === 'number') gl.uniform1f(loc, v);
+      else if (v.length === 2) gl.uniform2fv(loc, v);
+      else if (v.length === 3) gl.uniform3fv(loc, v);
+      else gl.uniform4fv(loc, v);
+    }
+    gl.bindFramebuffer(gl.FRAMEBUFFER, fbo);
+    gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, target.tex, 0);
+    gl.viewport(0, 0, width, height);
+    gl.bindVertexArray(vao);
+    gl.drawArrays(gl.TRIANGLES, 0, 3);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+    return target;
+  };
+
+  return {
+    maxSize,
+    load,
+    read,
+    readFloat,
+    pass,
+    floats: (data, width, height) => texture(width, height, gl.R32F, gl.RED, gl.FLOAT, data),
+    release: (img) => gl.deleteTexture(img.tex),
+    dispose: () => {
+      for (const p of programs.values()) gl.deleteProgram(p);
+      programs.clear();
+      gl.deleteFramebuffer(fbo);
+      gl.deleteVertexArray(vao);
+      gl.getExtension('WEBGL_lose_context')?.loseContext();
+    },
+  };
+}
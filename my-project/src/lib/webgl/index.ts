@@ -0,0 +1,43 @@
+// WebGL2 implementation of the pipeline executor. Operations with a shader
+// kernel (or a LUT form) stay on the GPU; the rest read the image back, run
+// their CPU implementation and upload the result.
+import type { FloatImage, Operation, PipelineExecutor } from '../imageOps';
+import { operationRegistry } from '../imageOps';
+import { rasterizeMask } from '../masks';
+import type { GpuContext, GpuImage } from './context';
+import { applyGpuLuts, gpuKernels, gpuTransfer, MASK_BLEND } from './kernels';
+
+export type { GpuContext, GpuImage } from './context';
+export { createGpuContext, WebGLUnavailableError } from './context';
+
+// `onCpu` is told about each op that had to run on the CPU
+export function createWebGLExecutor(gpu: GpuContext, onCpu?: (op: Operation) => void): PipelineExecutor<GpuImage> {
+  return {
+    load: gpu.load,
+    read: gpu.read,
+    apply: (img, op, ctx) => {
+      const def = operationRegistry[op.type];
+      let cached: FloatImage | null = null;
+      const image = () => (cached ??= gpu.readFloat(img));
+      const out = gpuKernels[op.type]?.(gpu, img, op.params, ctx, image);
+      if (out) return out;
+      if (def.luts) {
+        const luts = def.luts(op.params, image);
+        return luts ? applyGpuLuts(gpu, img, luts) : img;
+      }
+      onCpu?.(op);
+      const cpu = def.apply(image(), op.params, ctx);
+      return cpu === cached ? img : gpu.load(cpu);
+    },
+    blend: (before, after, mask, placement) => {
+      const { width: w, height: h } = after;
+      const coverage = gpu.floats(rasterizeMask(mask, w, h, placement), w, h);
+      const out = gpu.pass(MASK_BLEND, { u_src: before, u_after: after, u_mask: coverage }, {}, w, h);
+      gpu.release(coverage);
+      return out;
+    },
+    toLinear: (img) => gpuTransfer(gpu, img, true),
+    toEncoded: (img) => gpuTransfer(gpu, img, false),
+    release: gpu.release,
+  };
+}
@@ -0,0 +1,370 @@
+// Fragment-shader versions of the CPU operations in imageOps.ts. Each kernel
+// mirrors its CPU counterpart's maths (in 0..255 units where that matters)
+// so the parity test can hold them to a small tolerance.
+import type { OpContext, OpParams, OpType, PixelImage, RgbLuts } from '../imageOps';
+import { GAUSSIAN_EXACT_SIGMA, gaussianBoxRadii, lensDistortionModel, makeGaussianKernel, motionBlurOffsets, saturationStretchBounds, vignetteModel } from '../imageOps';
+import type { GpuContext, GpuImage } from './context';
+import { FRAGMENT_PRELUDE } from './context';
+
+// Returns null when these params have no shader version (the op then runs on the CPU)
+export type GpuKernel = (gpu: GpuContext, src: GpuImage, p: OpParams, ctx: OpContext, image: () => PixelImage) => GpuImage | null;
+
+const num = (p: OpParams, key: string) => Number(p[key]) || 0;
+
+const BRIGHTNESS_CONTRAST = `${FRAGMENT_PRELUDE}
+uniform float u_f;
+uniform float u_b;
+void main() {
+  vec4 c = at(ivec2(gl_FragCoord.xy));
+  vec3 v = u_f * (c.rgb * 255.0 - 128.0) + 128.0 + u_b;
+  o = vec4(clamp(v, 0.0, 255.0) / 255.0, c.a);
+}`;
+
+// Same branch order as rgbToHsl / hslToRgb on the CPU
+const SATURATION = `${FRAGMENT_PRELUDE}
+uniform float u_factor;
+float hue2rgb(float p, float q, float t) {
+  if (t < 0.0) t += 1.0;
+  if (t > 1.0) t -= 1.0;
+  if (t < 1.0 / 6.0) return p + (q - p) * 6.0 * t;
+  if (t < 0.5) return q;
+  if (t < 2.0 / 3.0) return p + (q - p) * (2.0 / 3.0 - t) * 6.0;
+  return p;
+}
+void main() {
+  vec4 c = at(ivec2(gl_FragCoord.xy));
+  float r = c.r, g = c.g, b = c.b;
+  float mx = max(r, max(g, b)), mn = min(r, min(g, b));
+  float h = 0.0, s = 0.0, l = (mx + mn) / 2.0;
+  if (mx != mn) {
+    float d = mx - mn;
+    s = l > 0.5 ? d / (2.0 - mx - mn) : d / (mx - mn);
+    if (mx == r) h = (g - b) / d + (g < b ? 6.0 : 0.0);
+    else if (mx == g) h = (b - r) / d + 2.0;
+    else h = (r - g) / d + 4.0;
+    h /= 6.0;
+  }
+  s = clamp(s * u_factor, 0.0, 1.0);
+  vec3 rgb = vec3(l);
+  if (s != 0.0) {
+    float q = l < 0.5 ? l * (1.0 + s) : l + s - l * s;
+    float p = 2.0 * l - q;
+    rgb = vec3(hue2rgb(p, q, h + 1.0 / 3.0), hue2rgb(p, q, h), hue2rgb(p, q, h - 1.0 / 3.0));
+  }
+  o = vec4(clamp(rgb, 0.0, 1.0), c.a);
+}`;
+
+// Same as rgbToHsv / hsvToRgb on the CPU
+const SATURATION_STRETCH = `${FRAGMENT_PRELUDE}
+uniform float u_lo;
+uniform float u_scale;
+void main() {
+  vec4 c = at(ivec2(gl_FragCoord.xy));
+  float r = c.r, g = c.g, b = c.b;
+  float mx = max(r, max(g, b)), mn = min(r, min(g, b));
+  float d = mx - mn;
+  float v = mx;
+  float s = mx == 0.0 ? 0.0 : d / mx;
+  float h = 0.0;
+  if (d != 0.0) {
+    if (mx == r) h = (g - b) / d + (g < b ? 6.0 : 0.0);
+    else if (mx == g) h = (b - r) / d + 2.0;
+    else h = (r - g) / d + 4.0;
+    h /= 6.0;
+  }
+  s = clamp((s - u_lo) * u_scale, 0.0, 1.0);
+  float i = floor(h * 6.0);
+  float f = h * 6.0 - i;
+  float p = v * (1.0 - s), q = v * (1.0 - f * s), t = v * (1.0 - (1.0 - f) * s);
+  int k = int(mod(i, 6.0));
+  vec3 rgb = k == 0 ? vec3(v, t, p) : k == 1 ? vec3(q, v, p) : k == 2 ? vec3(p, v, t)
+    : k == 3 ? vec3(p, q, v) : k == 4 ? vec3(t, p, v) : vec3(v, p, q);
+  o = vec4(clamp(rgb, 0.0, 1.0), c.a);
+}`;
+
+// Rows 0..2 of u_lut hold the r, g, b tables; fractional levels interpolate like lutLookup
+const LUT = `${FRAGMENT_PRELUDE}
+uniform highp sampler2D u_lut;
+float lookup(float v, int row) {
+  float x = v * 255.0;
+  int i = clamp(int(floor(x)), 0, 254);
+  float a = texelFetch(u_lut, ivec2(i, row), 0).r;
+  float b = texelFetch(u_lut, ivec2(i + 1, row), 0).r;
+  return mix(a, b, x - float(i));
+}
+void main() {
+  vec4 c = at(ivec2(gl_FragCoord.xy));
+  o = vec4(lookup(c.r, 0), lookup(c.g, 1), lookup(c.b, 2), c.a);
+}`;
+
+// One direction of the separable Gaussian; weights come from makeGaussianKernel
+const BLUR = `${FRAGMENT_PRELUDE}
+uniform highp sampler2D u_kernel;
+uniform float u_radius;
+uniform vec2 u_dir;
+void main() {
+  ivec2 p = ivec2(gl_FragCoord.xy);
+  ivec2 d = ivec2(u_dir);
+  int r = int(u_radius);
+  vec4 acc = vec4(0.0);
+  for (int k = -r; k <= r; k++) acc += at(p + d * k) * texelFetch(u_kernel, ivec2(k + r, 0), 0).r;
+  o = acc;
+}`;
+
+// One box pass of a large Gaussian, see gaussianBoxRadii
+const BOX = `${FRAGMENT_PRELUDE}
+uniform float u_radius;
+uniform vec2 u_dir;
+void main() {
+  ivec2 p = ivec2(gl_FragCoord.xy);
+  ivec2 d = ivec2(u_dir);
+  int r = int(u_radius);
+  vec4 acc = vec4(0.0);
+  for (int k = -r; k <= r; k++) acc += at(p + d * k);
+  o = acc / float(2 * r + 1);
+}`;
+
+// One motion blur pass: the mean of two bilinear samples ±u_off away, see motionBlurOffsets
+const MOTION = `${FRAGMENT_PRELUDE}
+uniform vec2 u_off;
+vec4 sampleAt(vec2 pos) {
+  ivec2 sz = textureSize(u_src, 0);
+  vec2 pp = clamp(pos, vec2(0.0), vec2(sz - 1));
+  ivec2 p0 = ivec2(floor(pp));
+  ivec2 p1 = min(sz - 1, p0 + 1);
+  vec2 t = pp - vec2(p0);
+  vec4 top = mix(texelFetch(u_src, p0, 0), texelFetch(u_src, ivec2(p1.x, p0.y), 0), t.x);
+  vec4 bot = mix(texelFetch(u_src, ivec2(p0.x, p1.y), 0), texelFetch(u_src, p1, 0), t.x);
+  return mix(top, bot, t.y);
+}
+void main() {
+  vec2 p = floor(gl_FragCoord.xy);
+  o = (sampleAt(p - u_off) + sampleAt(p + u_off)) / 2.0;
+}`;
+
+// Blurs filter premultiplied colour, like filterChannels
+const PREMULTIPLY = `${FRAGMENT_PRELUDE}
+void main() {
+  vec4 c = at(ivec2(gl_FragCoord.xy));
+  o = vec4(c.rgb * c.a, c.a);
+}`;
+
+// Back to straight colour; u_keep takes alpha from u_orig (the unblurred input)
+const UNPREMULTIPLY = `${FRAGMENT_PRELUDE}
+uniform highp sampler2D u_orig;
+uniform float u_keep;
+void main() {
+  ivec2 p = ivec2(gl_FragCoord.xy);
+  vec4 c = at(p);
+  vec3 v = c.a > 0.0 ? min(c.rgb / c.a, 1.0) : vec3(0.0);
+  o = vec4(v, u_keep > 0.5 ? texelFetch(u_orig, p, 0).a : c.a);
+}`;
+
+const UNSHARP = `${FRAGMENT_PRELUDE}
+uniform highp sampler2D u_blur;
+uniform float u_amount;
+uniform float u_threshold;
+void main() {
+  ivec2 p = ivec2(gl_FragCoord.xy);
+  vec4 c = at(p);
+  vec3 s = c.rgb * 255.0;
+  vec3 diff = s - texelFetch(u_blur, p, 0).rgb * 255.0;
+  vec3 sharp = s + u_amount * diff;
+  vec3 v = mix(sharp, s, vec3(lessThan(abs(diff), vec3(u_threshold))));
+  o = vec4(clamp(v, 0.0, 255.0) / 255.0, c.a);
+}`;
+
+const VIGNETTE = `${FRAGMENT_PRELUDE}
+uniform float u_amount;
+uniform vec2 u_center;
+uniform vec2 u_k;
+uniform float u_p;
+uniform float u_norm;
+uniform float u_start;
+void main() {
+  vec2 q = gl_FragCoord.xy;
+  float u = abs((q.x - u_center.x) * u_k.x), v = abs((q.y - u_center.y) * u_k.y);
+  float d = (u_p == 2.0 ? sqrt(u * u + v * v) : pow(pow(u, u_p) + pow(v, u_p), 1.0 / u_p)) * u_norm;
+  float t = clamp((d - u_start) / (1.0 - u_start), 0.0, 1.0);
+  float f = u_amount * t * t * (3.0 - 2.0 * t);
+  vec4 c = at(ivec2(q));
+  vec3 s = c.rgb * 255.0;
+  vec3 r = f < 0.0 ? s * (1.0 + f) : s + (255.0 - s) * f;
+  o = vec4(r / 255.0, c.a);
+}`;
+
+// Radial resampling shared by chromatic aberration and lens distortion:
+// channel c reads from radius ρ · u_chan[c] · (1 + u_k·ρ²) / u_zoom. Colour is
+// interpolated premultiplied; alpha follows green unless u_keep.
+const REMAP = `${FRAGMENT_PRELUDE}
+uniform vec3 u_chan;
+uniform float u_k;
+uniform float u_zoom;
+uniform float u_keep;
+vec4 pm(ivec2 p) {
+  vec4 c = texelFetch(u_src, p, 0);
+  return vec4(c.rgb * c.a, c.a);
+}
+vec4 sampleAt(vec2 pos) {
+  ivec2 sz = textureSize(u_src, 0);
+  vec2 pp = clamp(pos - 0.5, vec2(0.0), vec2(sz - 1));
+  ivec2 p0 = ivec2(floor(pp));
+  ivec2 p1 = min(sz - 1, p0 + 1);
+  vec2 t = pp - vec2(p0);
+  vec4 top = mix(pm(p0), pm(ivec2(p1.x, p0.y)), t.x);
+  vec4 bot = mix(pm(ivec2(p0.x, p1.y)), pm(p1), t.x);
+  return mix(top, bot, t.y);
+}
+float channel(vec2 pos, int c) {
+  vec4 s = sampleAt(pos);
+  return s.a > 0.0 ? min(s[c] / s.a, 1.0) : 0.0;
+}
+void main() {
+  vec2 center = vec2(textureSize(u_src, 0)) / 2.0;
+  vec2 d = gl_FragCoord.xy - center;
+  float r2 = dot(d, d) / dot(center, center);
+  vec3 f = u_chan * (1.0 + u_k * r2) / u_zoom;
+  float a = u_keep > 0.5 ? at(ivec2(gl_FragCoord.xy)).a : sampleAt(center + d * f.g).a;
+  o = vec4(channel(center + d * f.r, 0), channel(center + d * f.g, 1), channel(center + d * f.b, 2), a);
+}`;
+
+// sRGB transfer curve in either direction, like toLinearLight / fromLinearLight
+const TRANSFER = `${FRAGMENT_PRELUDE}
+uniform float u_toLinear;
+void main() {
+  vec4 c = at(ivec2(gl_FragCoord.xy));
+  vec3 v = clamp(c.rgb, 0.0, 1.0);
+  vec3 lin = mix(v / 12.92, pow((v + 0.055) / 1.055, vec3(2.4)), step(0.04045, v));
+  vec3 enc = mix(v * 12.92, 1.055 * pow(v, vec3(1.0 / 2.4)) - 0.055, step(0.0031308, v));
+  o = vec4(u_toLinear > 0.5 ? lin : enc, c.a);
+}`;
+
+export function gpuTransfer(gpu: GpuContext, src: GpuImage, toLinear: boolean): GpuImage {
+  return gpu.pass(TRANSFER, { u_src: src }, { u_toLinear: toLinear ? 1 : 0 }, src.width, src.height);
+}
+
+// Mask blend: u_src is the group's input, u_after its output
+export const MASK_BLEND = `${FRAGMENT_PRELUDE}
+uniform highp sampler2D u_after;
+uniform highp sampler2D u_mask;
+void main() {
+  ivec2 p = ivec2(gl_FragCoord.xy);
+  vec4 a = texelFetch(u_src, p, 0);
+  o = a + (texelFetch(u_after, p, 0) - a) * texelFetch(u_mask, p, 0).r;
+}`;
+
+export function applyGpuLuts(gpu: GpuContext, src: GpuImage, [lr, lg, lb]: RgbLuts): GpuImage {
+  const rows = new Float32Array(256 * 3);
+  [lr, lg, lb].forEach((l, row) => l.forEach((v, i) => { rows[row * 256 + i] = v / 255; }));
+  const lut = gpu.floats(rows, 256, 3);
+  const out = gpu.pass(LUT, { u_src: src, u_lut: lut }, {}, src.width, src.height);
+  gpu.release(lut);
+  return out;
+}
+
+// Runs passes in sequence, releasing the intermediates
+function chain(gpu: GpuContext, src: GpuImage, passes: ((img: GpuImage) => GpuImage)[]): GpuImage {
+  let cur = src;
+  for (const pass of passes) {
+    const next = pass(cur);
+    if (cur !== src) gpu.release(cur);
+    cur = next;
+  }
+  return cur;
+}
+
+// Same split as the CPU: exact kernel for small sigmas, three box passes per axis above
+function gpuBlur(gpu: GpuContext, src: GpuImage, sigma: number): GpuImage {
+  const { width: w, height: h } = src;
+  if (sigma > GAUSSIAN_EXACT_SIGMA) {
+    const radii = gaussianBoxRadii(sigma);
+    return chain(gpu, src, [[1, 0], [0, 1]].flatMap(dir =>
+      radii.map(r => (img: GpuImage) => gpu.pass(BOX, { u_src: img }, { u_radius: r, u_dir: dir }, w, h))));
+  }
+  const { kernel, radius } = makeGaussianKernel(sigma);
+  const weights = gpu.floats(kernel, kernel.length, 1);
+  const out = chain(gpu, src, [[1, 0], [0, 1]].map(dir =>
+    (img: GpuImage) => gpu.pass(BLUR, { u_src: img, u_kernel: weights }, { u_radius: radius, u_dir: dir }, w, h)));
+  gpu.release(weights);
+  return out;
+}
+
+function gpuMotionBlur(gpu: GpuContext, src: GpuImage, length: number, angleDeg: number): GpuImage {
+  const a = (angleDeg * Math.PI) / 180;
+  return chain(gpu, src, motionBlurOffsets(length).map(off =>
+    (img: GpuImage) => gpu.pass(MOTION, { u_src: img }, { u_off: [Math.cos(a) * off, -Math.sin(a) * off] }, src.width, src.height)));
+}
+
+// Runs a blur on premultiplied colour, keeping the source alpha if asked
+function premultiplied(gpu: GpuContext, src: GpuImage, keepAlpha: boolean, blur: (img: GpuImage) => GpuImage): GpuImage {
+  const { width: w, height: h } = src;
+  const pm = gpu.pass(PREMULTIPLY, { u_src: src }, {}, w, h);
+  const blurred = blur(pm);
+  const out = gpu.pass(UNPREMULTIPLY, { u_src: blurred, u_orig: src }, { u_keep: keepAlpha ? 1 : 0 }, w, h);
+  if (blurred !== pm) gpu.release(blurred);
+  gpu.release(pm);
+  return out;
+}
+
+function remap(gpu: GpuContext, src: GpuImage, chan: [number, number, number], k: number, zoom: number, keepAlpha: boolean): GpuImage {
+  return gpu.pass(REMAP, { u_src: src }, { u_chan: chan, u_k: k, u_zoom: zoom, u_keep: keepAlpha ? 1 : 0 }, src.width, src.height);
+}
+
+// Ops without a kernel here (and without `luts` in the registry) run on the CPU
+export const gpuKernels: Partial<Record<OpType, GpuKernel>> = {
+  brightnessContrast: (gpu, src, p) => {
+    const c = num(p, 'contrast') / 100;
+    return gpu.pass(BRIGHTNESS_CONTRAST, { u_src: src }, {
+      u_f: (259 * (c + 1)) / (255 * (1 - c)),
+      u_b: (num(p, 'brightness') / 100) * 255,
+    }, src.width, src.height);
+  },
+  // OKLCH mode runs on the CPU
+  saturation: (gpu, src, p) => p.mode === 'oklch'
+    ? null
+    : gpu.pass(SATURATION, { u_src: src }, { u_factor: 1 + num(p, 'saturation') / 100 }, src.width, src.height),
+  autoColorEnhance: (gpu, src, p, _ctx, image) => {
+    const bounds = saturationStretchBounds(image(), num(p, 'clipPct') / 100);
+    if (!bounds) return src;
+    return gpu.pass(SATURATION_STRETCH, { u_src: src }, { u_lo: bounds[0], u_scale: 1 / (bounds[1] - bounds[0]) }, src.width, src.height);
+  },
+  blur: (gpu, src, p, ctx) => {
+    const r = num(p, 'sigma') * ctx.scale;
+    if (p.mode === 'lens') return null; // prefix-sum disc blur stays on the CPU
+    if (p.mode === 'motion') return r < 1 ? src : premultiplied(gpu, src, ctx.preserveAlpha, img => gpuMotionBlur(gpu, img, r, num(p, 'angle')));
+    return r <= 0.1 ? src : premultiplied(gpu, src, ctx.preserveAlpha, img => gpuBlur(gpu, img, r));
+  },
+  sharpen: (gpu, src, p, ctx) => {
+    const amount = num(p, 'amount') / 100, radius = num(p, 'radius') * ctx.scale;
+    if (amount <= 0 || radius <= 0.1) return src;
+    const blurred = premultiplied(gpu, src, false, img => gpuBlur(gpu, img, radius));
+    const out = gpu.pass(UNSHARP, { u_src: src, u_blur: blurred }, { u_amount: amount, u_threshold: num(p, 'threshold') }, src.width, src.height);
+    gpu.release(blurred);
+    return out;
+  },
+  vignette: (gpu, src, p) => {
+    const m = vignetteModel(src.width, src.height, {
+      amount: num(p, 'amount') / 100,
+      midpoint: num(p, 'midpoint') / 100,
+      roundness: num(p, 'roundness') / 100,
+    });
+    return gpu.pass(VIGNETTE, { u_src: src }, {
+      u_amount: num(p, 'amount') / 100,
+      u_center: [m.cx, m.cy],
+      u_k: [m.kx, m.ky],
+      u_p: m.p,
+      u_norm: m.norm,
+      u_start: m.start,
+    }, src.width, src.height);
+  },
+  chromaticAberration: (gpu, src, p, ctx) => {
+    const red = num(p, 'red') / 1000, blue = num(p, 'blue') / 1000;
+    return red === 0 && blue === 0 ? src : remap(gpu, src, [1 / (1 + red), 1, 1 / (1 + blue)], 0, 1, ctx.preserveAlpha);
+  },
+  lensDistortion: (gpu, src, p, ctx) => {
+    const amount = num(p, 'amount') / 100;
+    if (amount === 0) return src;
+    const { k, zoom } = lensDistortionModel(src.width, src.height, amount);
+    return remap(gpu, src, [1, 1, 1], k, zoom, ctx.preserveAlpha);
+  },
+};